@@ -0,0 +1,191 @@
+/**
+ * TXToo API client for the command line
+ * Uses the same crypto module as the web app, so notes sent from either can be
+ * read by the other.
+ */
+
+import {
+    base64urlDecode,
+    base64urlEncode,
+    decryptNote,
+    encryptText,
+    generateKey,
+    unwrapNoteKey,
+    type NoteMetadata,
+} from '../src/utils/crypto';
+import {
+    API_VERSION,
+    BINARY_CONTENT_TYPE,
+    decodeBinaryBody,
+    encodeBinaryBody,
+    type ApiResult,
+    type BinaryFetchResponse,
+    type BinarySubmitRequest,
+    type FetchResponse,
+    type RecipientFetchResponse,
+    type SubmitResponse,
+} from '../shared/api';
+
+export interface ClientOptions {
+    // Worker API base, including the `/api` prefix but not the version
+    apiUrl: string;
+    // Overridable so tests can route requests straight to the worker
+    fetch?: typeof fetch;
+}
+
+export interface SendOptions extends ClientOptions {
+    // Frontend origin that share links point to
+    siteUrl: string;
+    ttl: number;
+    // Encrypt with a password instead of a random key. The link then carries
+    // no key, and the password has to be shared separately.
+    password?: string;
+    burnAfterReading?: boolean;
+    maxViews?: number;
+    metadata?: NoteMetadata;
+    // Called by the worker when the note is viewed or expires
+    webhookUrl?: string;
+}
+
+export interface SentNote {
+    id: string;
+    shareUrl: string;
+    manageUrl: string;
+    // Bearer token for GET /receipts/{id}
+    receiptToken: string;
+    expiresAt: number;
+}
+
+export interface ReceivedNote {
+    text: string;
+    metadata: NoteMetadata;
+    burned: boolean;
+}
+
+function callApi(options: ClientOptions, path: string, init?: RequestInit): Promise<Response> {
+    const doFetch = options.fetch ?? fetch;
+    return doFetch(`${options.apiUrl.replace(/\/$/, '')}/${API_VERSION}${path}`, init);
+}
+
+async function request<T>(options: ClientOptions, path: string, init?: RequestInit): Promise<T> {
+    const response = await callApi(options, path, init);
+    const result = (await response.json().catch(() => null)) as ApiResult<T> | null;
+
+    if (!response.ok || !result || result.type === 'error') {
+        throw new Error(result?.type === 'error' ? result.message : `Request failed with status ${response.status}`);
+    }
+    return result.data;
+}
+
+// GET /fetch/{id} with the ciphertext as raw bytes, handed back as base64url
+// for decryptNote. Errors are still JSON.
+async function fetchNote(options: ClientOptions, id: string): Promise<FetchResponse> {
+    const response = await callApi(options, `/fetch/${id}`, { headers: { Accept: BINARY_CONTENT_TYPE } });
+    if (!response.ok) {
+        const result = (await response.json().catch(() => null)) as ApiResult<never> | null;
+        throw new Error(result?.type === 'error' ? result.message : `Request failed with status ${response.status}`);
+    }
+
+    const body = decodeBinaryBody<BinaryFetchResponse>(new Uint8Array(await response.arrayBuffer()));
+    if (!body) {
+        throw new Error('Invalid note response');
+    }
+    return { ...body.fields, cipher_text: base64urlEncode(body.data.slice().buffer) };
+}
+
+/**
+ * Read the note ID and key from a share link: `/n/{id}#{key}`, a
+ * password-protected `/n/{id}`, a legacy `/{id}~{key}`, or a recipient's
+ * `/to/{id}#{key}`, whose ID is the recipient's
+ */
+export function parseShareUrl(url: string): { id: string; key: string | null; recipient?: true } | null {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        return null;
+    }
+
+    const noteMatch = parsed.pathname.match(/^\/n\/([A-Za-z0-9_-]+)$/);
+    if (noteMatch) {
+        const key = decodeURIComponent(parsed.hash.replace(/^#/, ''));
+        return { id: noteMatch[1], key: key || null };
+    }
+
+    const recipientMatch = parsed.pathname.match(/^\/to\/([A-Za-z0-9_-]+)$/);
+    if (recipientMatch) {
+        const key = decodeURIComponent(parsed.hash.replace(/^#/, ''));
+        return { id: recipientMatch[1], key: key || null, recipient: true };
+    }
+
+    const legacyMatch = parsed.pathname.match(/^\/([A-Za-z0-9_-]+)~([^/]+)$/);
+    if (legacyMatch) {
+        return { id: legacyMatch[1], key: legacyMatch[2] };
+    }
+
+    return null;
+}
+
+/**
+ * Encrypt and store a note, returning its share and management links
+ */
+export async function sendNote(text: string, options: SendOptions): Promise<SentNote> {
+    const secret = options.password || generateKey();
+    const keyMode = options.password ? 'password' : 'raw';
+    const encrypted = await encryptText(text, secret, keyMode, options.metadata ?? { contentType: 'plain' });
+
+    // The ciphertext is sent as raw bytes, a third smaller than base64url
+    const fields: BinarySubmitRequest = {
+        ttl: options.ttl,
+        iv: encrypted.iv,
+        burnAfterReading: options.burnAfterReading ?? false,
+        maxViews: options.maxViews,
+        requiresPassword: !!options.password,
+        webhookUrl: options.webhookUrl,
+    };
+    const data = await request<SubmitResponse>(options, '/submit', {
+        method: 'POST',
+        headers: {
+            'Content-Type': BINARY_CONTENT_TYPE,
+        },
+        body: encodeBinaryBody(fields, base64urlDecode(encrypted.cipherText)) as BufferSource,
+    });
+
+    const siteUrl = options.siteUrl.replace(/\/$/, '');
+    return {
+        id: data.id,
+        shareUrl: options.password
+            ? `${siteUrl}/n/${data.id}`
+            : `${siteUrl}/n/${data.id}#${encodeURIComponent(secret)}`,
+        manageUrl: `${siteUrl}/manage/${data.id}#${data.manageToken}`,
+        receiptToken: data.receiptToken,
+        expiresAt: data.expiresAt,
+    };
+}
+
+/**
+ * Fetch and decrypt a note from its share link. This counts as a view.
+ * `password` is needed for links that carry no key.
+ */
+export async function getNote(url: string, options: ClientOptions & { password?: string }): Promise<ReceivedNote> {
+    const link = parseShareUrl(url);
+    if (!link) {
+        throw new Error('Not a TXToo share link');
+    }
+
+    const secret = link.key ?? options.password;
+    if (!secret) {
+        throw new Error('This note is password protected. Pass --password or set TXTOO_PASSWORD.');
+    }
+
+    if (link.recipient) {
+        const data = await request<RecipientFetchResponse>(options, `/recipients/${link.id}/fetch`);
+        const note = await decryptNote(data.cipher_text, data.iv, await unwrapNoteKey(data.wrappedKey, secret));
+        return { ...note, burned: data.burned };
+    }
+
+    const data = await fetchNote(options, link.id);
+    const note = await decryptNote(data.cipher_text, data.iv, secret);
+
+    return { ...note, burned: data.burned };
+}
@@ -0,0 +1,149 @@
+/**
+ * txtoo - send and read TXToo notes from the command line
+ *
+ *   txtoo send [file] [--ttl seconds] [--password pw] [--burn] [--max-views n] [--compress] [--webhook url]
+ *   txtoo get <url> [--password pw]
+ */
+
+import { readFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { getNote, sendNote } from './client';
+import type { NoteMetadata } from '../src/utils/crypto';
+
+const USAGE = `Usage:
+  txtoo send [file] [options]   Encrypt a file (or stdin) and print its share link
+  txtoo get <url> [options]     Fetch a note and print its text
+
+Options:
+  --ttl <seconds>      How long the note lives (default 86400)
+  --password <pw>      Encrypt or decrypt with a password (or set TXTOO_PASSWORD)
+  --burn               Delete the note after it is read once
+  --max-views <n>      Delete the note after n views
+  --format <format>    plain, markdown or code:<language> (default plain)
+  --compress           Compress the text before encrypting it
+  --webhook <url>      HTTPS URL the server calls when the note is viewed or expires
+  --json               Print the result as JSON
+  --site <url>         Frontend used in share links (or set TXTOO_URL)
+  --api <url>          Worker API base, including /api (or set TXTOO_API_URL)
+  -h, --help           Show this help
+
+Notes sent with --password have no key in their link, so share the password
+separately.`;
+
+const DEFAULT_SITE_URL = 'http://localhost:5173';
+const DEFAULT_TTL = 86400;
+
+function fail(message: string): never {
+    console.error(`txtoo: ${message}`);
+    process.exit(1);
+}
+
+async function readStdin(): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+        chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks).toString('utf8');
+}
+
+function parseFormat(format: string | undefined): NoteMetadata {
+    if (!format || format === 'plain') return { contentType: 'plain' };
+    if (format === 'markdown') return { contentType: 'markdown' };
+    if (format.startsWith('code:')) return { contentType: 'code', language: format.slice(5) };
+    if (format === 'code') return { contentType: 'code' };
+    fail(`unknown format "${format}"`);
+}
+
+function parsePositiveInteger(value: string | undefined, name: string): number | undefined {
+    if (value === undefined) return undefined;
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < 1) {
+        fail(`--${name} must be a positive integer`);
+    }
+    return number;
+}
+
+async function main() {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            ttl: { type: 'string' },
+            password: { type: 'string' },
+            burn: { type: 'boolean', default: false },
+            'max-views': { type: 'string' },
+            format: { type: 'string' },
+            compress: { type: 'boolean', default: false },
+            webhook: { type: 'string' },
+            json: { type: 'boolean', default: false },
+            site: { type: 'string' },
+            api: { type: 'string' },
+            help: { type: 'boolean', short: 'h', default: false },
+        },
+    });
+
+    const [command, target] = positionals;
+    if (values.help || !command) {
+        console.log(USAGE);
+        return;
+    }
+
+    const password = values.password ?? process.env.TXTOO_PASSWORD;
+    const siteUrl = values.site ?? process.env.TXTOO_URL ?? DEFAULT_SITE_URL;
+
+    if (command === 'send') {
+        // The worker checks the range and explains what is allowed
+        const ttl = parsePositiveInteger(values.ttl, 'ttl') ?? DEFAULT_TTL;
+        const text = target && target !== '-' ? await readFile(target, 'utf8') : await readStdin();
+        if (!text) {
+            fail('nothing to send');
+        }
+
+        const note = await sendNote(text, {
+            apiUrl: values.api ?? process.env.TXTOO_API_URL ?? `${siteUrl.replace(/\/$/, '')}/api`,
+            siteUrl,
+            ttl,
+            password,
+            burnAfterReading: values.burn,
+            maxViews: parsePositiveInteger(values['max-views'], 'max-views'),
+            metadata: { ...parseFormat(values.format), ...(values.compress && { compression: 'deflate-raw' }) },
+            webhookUrl: values.webhook,
+        });
+
+        if (values.json) {
+            console.log(JSON.stringify(note, null, 2));
+        } else {
+            console.log(note.shareUrl);
+            console.error(`Manage: ${note.manageUrl}`);
+            console.error(`Receipt token: ${note.receiptToken}`);
+            console.error(`Expires: ${new Date(note.expiresAt * 1000).toLocaleString()}`);
+        }
+        return;
+    }
+
+    if (command === 'get') {
+        if (!target || !URL.canParse(target)) {
+            fail('get needs a share link');
+        }
+
+        const note = await getNote(target, {
+            apiUrl: values.api ?? process.env.TXTOO_API_URL ?? `${new URL(target).origin}/api`,
+            password,
+        });
+
+        if (values.json) {
+            console.log(JSON.stringify(note, null, 2));
+        } else {
+            process.stdout.write(note.text);
+            if (note.burned) {
+                console.error('This note has now been deleted.');
+            }
+        }
+        return;
+    }
+
+    fail(`unknown command "${command}". Run txtoo --help for usage.`);
+}
+
+main().catch(error => {
+    fail(error instanceof Error ? error.message : String(error));
+});
@@ -0,0 +1,52 @@
+import { expect, test, type Page } from '@playwright/test';
+
+// Write a note on the home page and return the share URL it gives back
+async function createNote(page: Page, text: string, settings?: (page: Page) => Promise<void>): Promise<string> {
+    await page.goto('/');
+    await page.getByPlaceholder(/Write your text note here/).fill(text);
+    if (settings) {
+        await page.getByTitle('Settings').click();
+        await settings(page);
+        await page.getByRole('button', { name: 'Done' }).click();
+    }
+    await page.getByRole('button', { name: /submit/i }).click();
+    await expect(page.getByText('Note Encrypted')).toBeVisible();
+    return page.locator('input[value*="/n/"]').inputValue();
+}
+
+test('a burn-after-reading note can be read exactly once', async ({ page, context }) => {
+    const text = 'e2e secret: 🔑 correct horse battery staple';
+    const shareUrl = await createNote(page, text, async settings => {
+        await settings.getByLabel('Burn after reading').check();
+    });
+    expect(new URL(shareUrl).hash.length).toBeGreaterThan(1);
+
+    const reader = await context.newPage();
+    await reader.goto(shareUrl);
+    await expect(reader.getByText('This note will be destroyed')).toBeVisible();
+    await reader.getByRole('button', { name: /click to reveal/i }).click();
+    await expect(reader.getByText(text)).toBeVisible();
+
+    const second = await context.newPage();
+    await second.goto(shareUrl);
+    await expect(second.getByText('Note not found or has expired')).toBeVisible();
+});
+
+test('a password-protected note asks for its password', async ({ page, context }) => {
+    const shareUrl = await createNote(page, 'behind a password', async settings => {
+        await settings.getByPlaceholder('Leave empty for an auto-generated key').fill('open sesame');
+    });
+    // The password stays out of the link
+    expect(new URL(shareUrl).hash).toBe('');
+
+    const reader = await context.newPage();
+    await reader.goto(shareUrl);
+    const input = reader.getByPlaceholder('Enter the password you were given');
+    await input.fill('wrong');
+    await reader.getByRole('button', { name: /unlock/i }).click();
+    await expect(reader.getByText('Incorrect password. Please try again.')).toBeVisible();
+
+    await input.fill('open sesame');
+    await reader.getByRole('button', { name: /unlock/i }).click();
+    await expect(reader.getByText('behind a password')).toBeVisible();
+});
@@ -0,0 +1,38 @@
+import { mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { defineConfig, devices } from '@playwright/test';
+
+// A fresh local D1 and R2 for every run, so notes from earlier runs don't linger
+const state = mkdtempSync(join(tmpdir(), 'txtoo-e2e-'));
+
+// The Vite dev server, proxying /api to the Worker running locally in Miniflare
+export default defineConfig({
+    testDir: 'e2e',
+    fullyParallel: false,
+    forbidOnly: !!process.env.CI,
+    retries: process.env.CI ? 1 : 0,
+    reporter: 'list',
+    use: {
+        baseURL: 'http://localhost:5173',
+        trace: 'retain-on-failure',
+    },
+    projects: [
+        { name: 'chromium', use: { ...devices['Desktop Chrome'] } },
+    ],
+    webServer: [
+        {
+            command: `npx wrangler d1 migrations apply txtoo-db --local --persist-to ${state} && npx wrangler dev --port 8787 --persist-to ${state}`,
+            cwd: 'workers',
+            url: 'http://localhost:8787/api/v1',
+            // `wrangler dev` builds the frontend first
+            timeout: 180000,
+            reuseExistingServer: !process.env.CI,
+        },
+        {
+            command: 'pnpm dev --port 5173 --strictPort',
+            url: 'http://localhost:5173',
+            reuseExistingServer: !process.env.CI,
+        },
+    ],
+});
@@ -0,0 +1,302 @@
+/**
+ * Request and response shapes of the TXToo API (`/api/v1`)
+ * Imported by both the worker and the frontend, so a change to the API shows
+ * up as a type error on whichever side has not caught up.
+ */
+
+export const API_VERSION = 'v1';
+
+// Content type of the binary forms of POST /submit and GET /fetch/{id}
+export const BINARY_CONTENT_TYPE = 'application/octet-stream';
+
+/**
+ * Machine-readable error codes, one per HTTP status the API returns
+ */
+export type ApiErrorCode =
+    | 'bad_request'
+    | 'unauthorized'
+    | 'forbidden'
+    | 'not_found'
+    | 'method_not_allowed'
+    | 'conflict'
+    | 'expired'
+    | 'payload_too_large'
+    | 'validation_failed'
+    | 'rate_limited'
+    | 'internal_error';
+
+export interface FieldError {
+    field: string;
+    message: string;
+}
+
+export interface ApiSuccess<T> {
+    type: 'success';
+    status: 200;
+    data: T;
+}
+
+export interface ApiError {
+    type: 'error';
+    status: number;
+    code: ApiErrorCode;
+    message: string;
+    // Present on validation failures (413 and 422)
+    errors?: FieldError[];
+}
+
+export type ApiResult<T> = ApiSuccess<T> | ApiError;
+
+export interface AttachmentInfo {
+    id: string;
+    size: number;
+    chunkCount: number;
+}
+
+// An attachment as listed before the note is viewed. Its ID, which is what
+// downloads it, is only handed out with the ciphertext, as that counts a view.
+export interface AttachmentSummary {
+    size: number;
+}
+
+// POST /submit
+export interface SubmitRequest {
+    ttl: number;
+    cipherText: string;
+    iv: string;
+    burnAfterReading?: boolean;
+    maxViews?: number;
+    requiresPassword?: boolean;
+    attachments?: string[];
+    // The note's key wrapped once per recipient. Each recipient gets their own
+    // link and view count, and the note can no longer be fetched by its own ID.
+    recipients?: string[];
+    // HTTPS URL to POST a WebhookPayload to when the note is viewed or expires.
+    // Only accepted when the server has webhooks enabled.
+    webhookUrl?: string;
+}
+
+export interface SubmitResponse {
+    id: string;
+    expiresAt: number;
+    maxViews: number | null;
+    requiresPassword: boolean;
+    // Secret for DELETE/PATCH /notes/{id}, only ever returned here
+    manageToken: string;
+    // Recipient IDs, in the order their wrapped keys were submitted
+    recipients: string[];
+    // Secret for GET /receipts/{id}, only ever returned here
+    receiptToken: string;
+}
+
+// POST /submit as application/octet-stream: everything but the ciphertext, which
+// follows as raw bytes (see encodeBinaryBody)
+export type BinarySubmitRequest = Omit<SubmitRequest, 'cipherText'>;
+
+// GET /meta/{id}
+export interface MetaResponse {
+    id: string;
+    expiresAt: number;
+    maxViews: number | null;
+    remainingViews: number | null;
+    requiresPassword: boolean;
+    attachments: AttachmentSummary[];
+}
+
+// GET /fetch/{id}
+export interface FetchResponse {
+    id: string;
+    cipher_text: string;
+    iv: string;
+    expiresAt: number;
+    remainingViews: number | null;
+    requiresPassword: boolean;
+    attachments: AttachmentInfo[];
+    // True when this was the note's last view and it has been deleted
+    burned: boolean;
+}
+
+// GET /fetch/{id} with `Accept: application/octet-stream`: everything but the
+// ciphertext, which follows as raw bytes (see decodeBinaryBody)
+export type BinaryFetchResponse = Omit<FetchResponse, 'cipher_text'>;
+
+// GET /recipients/{id}/fetch
+export interface RecipientFetchResponse extends FetchResponse {
+    // The note's key, wrapped under the key in the recipient's link
+    wrappedKey: string;
+}
+
+// POST /status
+export interface StatusRequest {
+    ids: string[];
+}
+
+export interface NoteStatus {
+    id: string;
+    status: 'active' | 'expired' | 'not_found';
+    expiresAt: number | null;
+    remainingViews: number | null;
+}
+
+export interface StatusResponse {
+    notes: NoteStatus[];
+}
+
+// PATCH /notes/{id}
+export interface UpdateNoteRequest {
+    ttl: number;
+}
+
+export interface UpdateNoteResponse {
+    id: string;
+    expiresAt: number;
+}
+
+// DELETE /notes/{id}
+export interface DeleteNoteResponse {
+    id: string;
+    deleted: true;
+}
+
+// GET /notes/{id}/recipients
+export interface RecipientStatus {
+    id: string;
+    position: number;
+    maxViews: number | null;
+    remainingViews: number | null;
+}
+
+export interface RecipientsResponse {
+    recipients: RecipientStatus[];
+}
+
+// DELETE /notes/{id}/recipients/{recipientId}
+export interface DeleteRecipientResponse {
+    id: string;
+    deleted: true;
+    // True when no other recipient could still open the note, so it was deleted too
+    noteDeleted: boolean;
+}
+
+// GET /receipts/{id}
+export interface ReceiptView {
+    viewedAt: number;
+    // Set when the view came through one of the note's recipients' links
+    recipientId: string | null;
+}
+
+export interface ReceiptResponse {
+    id: string;
+    createdAt: number;
+    expiresAt: number;
+    firstViewedAt: number | null;
+    viewCount: number;
+    views: ReceiptView[];
+    // Whether a webhook was registered for the note
+    webhook: boolean;
+}
+
+// Body of the POST sent to a note's webhookUrl
+export interface WebhookPayload {
+    event: 'viewed' | 'expired';
+    // The note's ID
+    id: string;
+    // When the note was viewed or expired
+    at: number;
+    recipientId: string | null;
+    // True when this view used up the link it came through
+    burned: boolean;
+}
+
+// POST /attachments
+export interface UploadRequest {
+    size: number;
+}
+
+export interface UploadResponse {
+    id: string;
+    chunkSize: number;
+    chunkCount: number;
+}
+
+// PUT /attachments/{id}/chunks/{index}
+export interface ChunkUploadResponse {
+    id: string;
+    index: number;
+}
+
+// POST /requests
+export interface SecretRequestInput {
+    ttl: number;
+}
+
+export interface SecretRequestResponse {
+    id: string;
+    expiresAt: number;
+    // Secret for reading the reply and deleting the request, only ever returned here
+    token: string;
+}
+
+// GET /requests/{id}
+export interface SecretRequestStatusResponse {
+    id: string;
+    expiresAt: number;
+    replied: boolean;
+}
+
+// POST /requests/{id}/reply
+export interface ReplyRequest {
+    // Sealed to the requester's public key
+    cipherText: string;
+    iv: string;
+}
+
+export interface ReplyResponse {
+    id: string;
+    repliedAt: number;
+}
+
+// GET /requests/{id}/reply
+export interface SecretReplyResponse {
+    id: string;
+    cipherText: string;
+    iv: string;
+    repliedAt: number;
+}
+
+// DELETE /requests/{id}
+export interface DeleteSecretRequestResponse {
+    id: string;
+    deleted: true;
+}
+
+/**
+ * Frame a binary body: [fields length u32 BE][fields JSON][data]. This is how
+ * ciphertext travels without base64url's extra third, in both directions.
+ */
+export function encodeBinaryBody(fields: object, data: Uint8Array): Uint8Array {
+    const json = new TextEncoder().encode(JSON.stringify(fields));
+    const body = new Uint8Array(4 + json.length + data.length);
+    new DataView(body.buffer).setUint32(0, json.length);
+    body.set(json, 4);
+    body.set(data, 4 + json.length);
+    return body;
+}
+
+/**
+ * Split a body framed by `encodeBinaryBody`, or return null if it is malformed
+ */
+export function decodeBinaryBody<T>(body: Uint8Array): { fields: T; data: Uint8Array } | null {
+    if (body.length < 4) return null;
+    const length = new DataView(body.buffer, body.byteOffset, body.byteLength).getUint32(0);
+    if (body.length < 4 + length) return null;
+
+    try {
+        return {
+            fields: JSON.parse(new TextDecoder().decode(body.subarray(4, 4 + length))) as T,
+            data: body.subarray(4 + length)
+        };
+    } catch {
+        return null;
+    }
+}
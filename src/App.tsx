@@ -1,12 +1,21 @@
 import { BrowserRouter, Routes, Route } from 'react-router-dom';
 import Home from './Home';
 import ViewNote from './ViewNote';
+import ManageNote from './ManageNote';
+import SecretRequests from './SecretRequests';
+import ReplyToRequest from './ReplyToRequest';
 
 function App() {
     return (
         <BrowserRouter>
             <Routes>
                 <Route path="/" element={<Home />} />
+                <Route path="/n/:id" element={<ViewNote />} />
+                <Route path="/to/:recipientId" element={<ViewNote />} />
+                <Route path="/manage/:id" element={<ManageNote />} />
+                <Route path="/requests" element={<SecretRequests />} />
+                <Route path="/r/:id" element={<ReplyToRequest />} />
+                {/* Legacy `/{id}~{key}` links */}
                 <Route path="/:idKey" element={<ViewNote />} />
             </Routes>
         </BrowserRouter>
@@ -1,92 +1,302 @@
-import { useState, useEffect } from 'react';
-import { Settings, Send, Copy, Check, QrCode, X } from 'lucide-react';
-import { encryptText } from './utils/crypto';
+import { useState, useEffect, useRef, type DragEvent } from 'react';
+import { Settings, Send, Copy, Check, QrCode, X, Flame, Paperclip, FileText, Trash2, History, Inbox } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import {
+    base64urlDecode,
+    compressedSize,
+    encryptText,
+    encryptedLength,
+    encryptedTextLength,
+    generateKey,
+    wrapNoteKey,
+    type Compression,
+    type NoteMetadata,
+} from './utils/crypto';
+import { CODE_LANGUAGES } from './utils/render';
+import { uploadAttachment, formatBytes, MAX_ATTACHMENT_SIZE, MAX_ATTACHMENTS } from './utils/attachments';
+import { MAX_CIPHERTEXT_SIZE, MAX_RECIPIENTS, MIN_TTL, MAX_TTL, TTL_OPTIONS } from './utils/limits';
+import { manageUrl as buildManageUrl, revokeNote } from './utils/manage';
+import { addHistoryEntry } from './utils/history';
+import { apiUrl } from './utils/api';
+import NotesHistory from './NotesHistory';
 import QRCodeLib from 'qrcode';
+import {
+    BINARY_CONTENT_TYPE,
+    encodeBinaryBody,
+    type ApiError,
+    type ApiSuccess,
+    type BinarySubmitRequest,
+    type SubmitResponse,
+} from '../shared/api';
 
-interface SubmitResponse {
-    type: string;
-    status: number;
-    data: {
-        id: string;
-    };
+// Compression offered to senders, applied inside the encrypted payload
+const COMPRESSION: Compression = 'deflate-raw';
+// Wait for typing to pause before compressing the text to measure it
+const COMPRESS_DELAY = 300;
+
+// How long the viewer may leave a note open without touching the page
+const IDLE_TIMEOUT_OPTIONS: { value: number; label: string }[] = [
+    { value: 0, label: 'Never (Default)' },
+    { value: 60, label: '1 Min' },
+    { value: 300, label: '5 Mins' },
+    { value: 900, label: '15 Mins' },
+    { value: 3600, label: '1 Hour' },
+];
+
+// One recipient's link on the result screen
+interface RecipientLink {
+    label: string;
+    url: string;
+    qrCodeDataUrl: string;
+}
+
+function toQrCode(url: string): Promise<string> {
+    return QRCodeLib.toDataURL(url, {
+        width: 300,
+        margin: 2,
+        color: {
+            dark: '#10b981',
+            light: '#0f172a'
+        }
+    });
 }
 
 function Home() {
+    const navigate = useNavigate();
     const [content, setContent] = useState('');
+    const [files, setFiles] = useState<File[]>([]);
+    const [isDragging, setIsDragging] = useState(false);
     const [password, setPassword] = useState('');
+    const [requirePassword, setRequirePassword] = useState(true);
     const [ttl, setTtl] = useState(86400);
+    const [burnAfterReading, setBurnAfterReading] = useState(false);
+    const [maxViews, setMaxViews] = useState(0);
+    const [compress, setCompress] = useState(false);
+    const [idleTimeout, setIdleTimeout] = useState(0);
+    const [blurNote, setBlurNote] = useState(false);
+    // Size of the text once compressed, or null while it is being measured
+    const [compressedBytes, setCompressedBytes] = useState<number | null>(null);
+    // One recipient name per line; each gets their own link
+    const [recipientNames, setRecipientNames] = useState('');
+    // 'plain', 'markdown', or 'code:{language}'
+    const [format, setFormat] = useState('plain');
     const [isEncrypting, setIsEncrypting] = useState(false);
     const [showSettings, setShowSettings] = useState(false);
     const [showResult, setShowResult] = useState(false);
     const [shareUrl, setShareUrl] = useState('');
     const [qrCodeDataUrl, setQrCodeDataUrl] = useState('');
-    const [copied, setCopied] = useState(false);
+    const [recipientLinks, setRecipientLinks] = useState<RecipientLink[]>([]);
+    // Index of the recipient whose QR code is shown
+    const [shownQrCode, setShownQrCode] = useState<number | null>(null);
+    const [isPasswordProtected, setIsPasswordProtected] = useState(false);
+    const [noteId, setNoteId] = useState('');
+    const [manageToken, setManageToken] = useState('');
+    const [manageUrl, setManageUrl] = useState('');
+    const [isRevoking, setIsRevoking] = useState(false);
+    const [isRevoked, setIsRevoked] = useState(false);
+    const [showHistory, setShowHistory] = useState(false);
+    // Unlocked key for an encrypted history, kept for the rest of the session
+    const [historyKey, setHistoryKey] = useState<CryptoKey | null>(null);
+    // Which URL was just copied: 'share' or 'manage'
+    const [copied, setCopied] = useState('');
     const [baseUrl, setBaseUrl] = useState('');
+    const fileInputRef = useRef<HTMLInputElement>(null);
 
     useEffect(() => {
         setBaseUrl(window.location.origin);
     }, []);
 
-    const generateRandomPassword = (): string => {
-        const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
-        const length = 16;
-        let result = '';
-        const randomValues = new Uint8Array(length);
-        crypto.getRandomValues(randomValues);
-        for (let i = 0; i < length; i++) {
-            result += chars[randomValues[i] % chars.length];
-        }
-        return result;
+    useEffect(() => {
+        setCompressedBytes(null);
+        if (!compress || !content) return;
+
+        let cancelled = false;
+        const timer = setTimeout(() => {
+            compressedSize(content, COMPRESSION)
+                .then(size => !cancelled && setCompressedBytes(size))
+                .catch(error => console.error('Error measuring compressed size:', error));
+        }, COMPRESS_DELAY);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [compress, content]);
+
+    // Display format, compression and viewer settings, stored inside the encrypted payload
+    const metadata: NoteMetadata = {
+        ...(format.startsWith('code:')
+            ? { contentType: 'code', language: format.slice(5) }
+            : { contentType: format === 'markdown' ? 'markdown' : 'plain' }),
+        ...(compress && { compression: COMPRESSION }),
+        ...(idleTimeout > 0 && { idleTimeout }),
+        ...(blurNote && { blur: true }),
+    };
+
+    const recipientLabels = recipientNames.split('\n').map(name => name.trim()).filter(Boolean);
+    // Recipients unwrap the key from their own links, so a password can't be used with them
+    const usePassword = !!password && recipientLabels.length === 0;
+    const keyMode = usePassword ? 'password' : 'raw';
+
+    // Size of the note once encrypted, checked against the worker's limit before
+    // submitting. Compressed notes are only checked once their size is known.
+    const textBytes = new TextEncoder().encode(content).length;
+    const cipherTextLength = compress
+        ? (compressedBytes === null ? null : encryptedLength(compressedBytes, keyMode, metadata))
+        : encryptedTextLength(content, keyMode, metadata);
+    const isTooLarge = cipherTextLength !== null && cipherTextLength > MAX_CIPHERTEXT_SIZE;
+
+    const addFiles = (added: FileList | null) => {
+        if (!added) return;
+
+        const accepted = Array.from(added).filter(file => {
+            if (file.size > MAX_ATTACHMENT_SIZE) {
+                alert(`${file.name} is too large. Attachments can be up to ${formatBytes(MAX_ATTACHMENT_SIZE)}.`);
+                return false;
+            }
+            return true;
+        });
+
+        setFiles(current => {
+            const next = [...current, ...accepted];
+            if (next.length > MAX_ATTACHMENTS) {
+                alert(`You can attach up to ${MAX_ATTACHMENTS} files.`);
+            }
+            return next.slice(0, MAX_ATTACHMENTS);
+        });
+    };
+
+    const removeFile = (index: number) => {
+        setFiles(current => current.filter((_, i) => i !== index));
+    };
+
+    const handleDragOver = (e: DragEvent) => {
+        e.preventDefault();
+        setIsDragging(true);
+    };
+
+    const handleDrop = (e: DragEvent) => {
+        e.preventDefault();
+        setIsDragging(false);
+        addFiles(e.dataTransfer.files);
     };
 
     const handleEncryptAndSubmit = async () => {
-        if (!content) {
-            alert('Please enter content');
+        if (!content && files.length === 0) {
+            alert('Please enter content or attach a file');
+            return;
+        }
+
+        if (isTooLarge) {
+            alert(`This note is too large. Encrypted notes can be up to ${formatBytes(MAX_CIPHERTEXT_SIZE)}.`);
+            return;
+        }
+
+        if (ttl < MIN_TTL || ttl > MAX_TTL) {
+            alert('Please choose a valid time to live');
+            return;
+        }
+
+        if (recipientLabels.length > MAX_RECIPIENTS) {
+            alert(`A note can be shared with up to ${MAX_RECIPIENTS} recipients.`);
             return;
         }
 
         setIsEncrypting(true);
 
         try {
-            const encryptionPassword = password || generateRandomPassword();
-            const encrypted = await encryptText(content, encryptionPassword);
+            // Without a password, use a random 256-bit key directly rather than
+            // stretching a generated password through PBKDF2
+            const encryptionPassword = usePassword ? password : generateKey();
+            // A custom password can be shared out of band instead of in the link
+            const passwordProtected = usePassword && requirePassword;
+            const encrypted = await encryptText(content, encryptionPassword, keyMode, metadata);
+            // The compressed size may not have been measured yet
+            if (encrypted.cipherText.length > MAX_CIPHERTEXT_SIZE) {
+                alert(`This note is too large. Encrypted notes can be up to ${formatBytes(MAX_CIPHERTEXT_SIZE)}.`);
+                return;
+            }
+
+            // Each recipient's link carries its own key, which unwraps the note's key
+            const wrappedKeys = await Promise.all(recipientLabels.map(() => wrapNoteKey(encryptionPassword)));
 
-            const workerUrl = import.meta.env.VITE_WORKERS_URL || '';
-            const submitUrl = workerUrl ? `${workerUrl}/submit` : '/submit';
+            // Attachments are encrypted with the same secret and uploaded before the note
+            const attachmentIds: string[] = [];
+            for (const file of files) {
+                attachmentIds.push(await uploadAttachment(file, encryptionPassword, keyMode));
+            }
 
-            const response = await fetch(submitUrl, {
+            // The ciphertext is sent as raw bytes, a third smaller than base64url
+            const request: BinarySubmitRequest = {
+                ttl,
+                iv: encrypted.iv,
+                burnAfterReading,
+                maxViews: maxViews || undefined,
+                requiresPassword: passwordProtected,
+                attachments: attachmentIds,
+                recipients: wrappedKeys.length > 0 ? wrappedKeys.map(wrapped => wrapped.wrappedKey) : undefined,
+            };
+            const response = await fetch(apiUrl('/submit'), {
                 method: 'POST',
                 headers: {
-                    'Content-Type': 'application/json',
+                    'Content-Type': BINARY_CONTENT_TYPE,
                 },
-                body: JSON.stringify({
-                    ttl,
-                    cipherText: encrypted.cipherText,
-                    iv: encrypted.iv,
-                }),
+                body: encodeBinaryBody(request, base64urlDecode(encrypted.cipherText)) as BufferSource,
             });
 
             if (response.ok) {
-                const result: SubmitResponse = await response.json();
+                const result: ApiSuccess<SubmitResponse> = await response.json();
                 const noteId = result.data.id;
 
-                const url = `${baseUrl}/${noteId}~${encryptionPassword}`;
+                // The key goes in the fragment so it is never sent to any server.
+                // Notes for named recipients have no link of their own.
+                const recipients = result.data.recipients.map((recipientId, index) => ({
+                    label: recipientLabels[index],
+                    url: `${baseUrl}/to/${recipientId}#${wrappedKeys[index].recipientKey}`,
+                }));
+                const url = recipients.length > 0
+                    ? ''
+                    : passwordProtected
+                        ? `${baseUrl}/n/${noteId}`
+                        : `${baseUrl}/n/${noteId}#${encodeURIComponent(encryptionPassword)}`;
                 setShareUrl(url);
+                setIsPasswordProtected(passwordProtected);
+                setNoteId(noteId);
+                setManageToken(result.data.manageToken);
+                const noteManageUrl = buildManageUrl(baseUrl, noteId, result.data.manageToken);
+                setManageUrl(noteManageUrl);
+                setIsRevoked(false);
+
+                // Remember the links locally; failing to do so shouldn't lose the result
+                addHistoryEntry({
+                    id: noteId,
+                    shareUrl: url,
+                    manageUrl: noteManageUrl,
+                    createdAt: Math.floor(Date.now() / 1000),
+                    expiresAt: result.data.expiresAt,
+                    passwordProtected,
+                    ...(recipients.length > 0 && { recipients }),
+                    receiptToken: result.data.receiptToken,
+                }).catch(error => console.error('Error saving to history:', error));
 
-                const qrDataUrl = await QRCodeLib.toDataURL(url, {
-                    width: 300,
-                    margin: 2,
-                    color: {
-                        dark: '#10b981',
-                        light: '#0f172a'
-                    }
-                });
-                setQrCodeDataUrl(qrDataUrl);
+                if (recipients.length > 0) {
+                    setRecipientLinks(await Promise.all(recipients.map(async recipient => ({
+                        ...recipient,
+                        qrCodeDataUrl: await toQrCode(recipient.url),
+                    }))));
+                    setShownQrCode(null);
+                } else {
+                    setRecipientLinks([]);
+                    setQrCodeDataUrl(await toQrCode(url));
+                }
 
                 setShowResult(true);
                 setContent('');
+                setFiles([]);
             } else {
-                alert('Submission failed. Please try again.');
+                // Validation errors (413/422) explain what needs to change
+                const result: ApiError | null = await response.json().catch(() => null);
+                alert(result?.message ? `Submission failed: ${result.message}` : 'Submission failed. Please try again.');
             }
         } catch (error) {
             console.error('Encryption or submission error:', error);
@@ -96,16 +306,38 @@ function Home() {
         }
     };
 
-    const copyToClipboard = (text: string) => {
+    const copyToClipboard = (text: string, field: string) => {
         navigator.clipboard.writeText(text);
-        setCopied(true);
-        setTimeout(() => setCopied(false), 2000);
+        setCopied(field);
+        setTimeout(() => setCopied(''), 2000);
+    };
+
+    const handleRevoke = async () => {
+        if (!confirm('Revoke this link? The note will be deleted immediately and cannot be recovered.')) {
+            return;
+        }
+
+        setIsRevoking(true);
+        try {
+            await revokeNote(noteId, manageToken);
+            setIsRevoked(true);
+        } catch (error) {
+            console.error('Revoke error:', error);
+            alert('Failed to revoke the link. Please try again.');
+        } finally {
+            setIsRevoking(false);
+        }
     };
 
     const closeResult = () => {
         setShowResult(false);
         setShareUrl('');
         setQrCodeDataUrl('');
+        setRecipientLinks([]);
+        setShownQrCode(null);
+        setNoteId('');
+        setManageToken('');
+        setManageUrl('');
         setPassword('');
     };
 
@@ -121,28 +353,115 @@ function Home() {
                     >
                         <Settings className="w-5 h-5 text-slate-500 hover:text-emerald-400" />
                     </button>
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        className="p-2 hover:bg-[#111111] border border-transparent hover:border-emerald-500/30 transition-all"
+                        title="Attach files"
+                    >
+                        <Paperclip className="w-5 h-5 text-slate-500 hover:text-emerald-400" />
+                    </button>
+                    <select
+                        value={format}
+                        onChange={(e) => setFormat(e.target.value)}
+                        className="px-2 py-1 bg-black border-2 border-emerald-900/30 text-slate-300 focus:outline-none focus:border-emerald-500 transition-colors text-xs"
+                        title="Content type"
+                    >
+                        <option value="plain">Plain text</option>
+                        <option value="markdown">Markdown</option>
+                        <optgroup label="Code">
+                            {CODE_LANGUAGES.map(language => (
+                                <option key={language.value} value={`code:${language.value}`}>{language.label}</option>
+                            ))}
+                        </optgroup>
+                    </select>
+                    <button
+                        onClick={() => setShowHistory(true)}
+                        className="p-2 hover:bg-[#111111] border border-transparent hover:border-emerald-500/30 transition-all"
+                        title="My notes"
+                    >
+                        <History className="w-5 h-5 text-slate-500 hover:text-emerald-400" />
+                    </button>
+                    <button
+                        onClick={() => navigate('/requests')}
+                        className="p-2 hover:bg-[#111111] border border-transparent hover:border-emerald-500/30 transition-all"
+                        title="Request a secret"
+                    >
+                        <Inbox className="w-5 h-5 text-slate-500 hover:text-emerald-400" />
+                    </button>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        multiple
+                        className="hidden"
+                        onChange={(e) => {
+                            addFiles(e.target.files);
+                            e.target.value = '';
+                        }}
+                    />
                 </div>
 
-                <button
-                    onClick={handleEncryptAndSubmit}
-                    disabled={isEncrypting || !content}
-                    className="bg-emerald-600 hover:bg-emerald-500 disabled:bg-[#111111] disabled:border disabled:border-emerald-900/30 disabled:cursor-not-allowed text-white font-bold px-4 py-1.5 border-2 border-emerald-600 hover:border-emerald-500 transition-all flex items-center gap-2 shadow-[2px_2px_0_0_rgba(0,0,0,0.3)] text-sm"
-                >
-                    <Send className="w-4 h-4" />
-                    {isEncrypting ? 'SUBMITTING...' : 'SUBMIT'}
-                </button>
+                <div className="flex items-center gap-3">
+                    {content && compress && (
+                        <span className="text-xs font-mono text-slate-500" title="Size of the text before and after compression">
+                            {formatBytes(textBytes)} → {compressedBytes === null ? '…' : formatBytes(compressedBytes)}
+                        </span>
+                    )}
+                    {content && cipherTextLength !== null && (
+                        <span
+                            className={`text-xs font-mono ${isTooLarge ? 'text-red-400' : 'text-slate-500'}`}
+                            title="Encrypted size of the note"
+                        >
+                            {formatBytes(cipherTextLength)} / {formatBytes(MAX_CIPHERTEXT_SIZE)}
+                        </span>
+                    )}
+                    <button
+                        onClick={handleEncryptAndSubmit}
+                        disabled={isEncrypting || (!content && files.length === 0) || isTooLarge}
+                        className="bg-emerald-600 hover:bg-emerald-500 disabled:bg-[#111111] disabled:border disabled:border-emerald-900/30 disabled:cursor-not-allowed text-white font-bold px-4 py-1.5 border-2 border-emerald-600 hover:border-emerald-500 transition-all flex items-center gap-2 shadow-[2px_2px_0_0_rgba(0,0,0,0.3)] text-sm"
+                    >
+                        <Send className="w-4 h-4" />
+                        {isEncrypting ? 'SUBMITTING...' : 'SUBMIT'}
+                    </button>
+                </div>
             </nav>
 
-            <div className="flex-1 flex overflow-hidden border-2 border-transparent">
+            <div
+                onDragOver={handleDragOver}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={handleDrop}
+                className={`flex-1 flex overflow-hidden border-2 ${isDragging ? 'border-dashed border-emerald-500' : 'border-transparent'}`}
+            >
                 <textarea
                     value={content}
                     onChange={(e) => setContent(e.target.value)}
-                    placeholder="Write your text note here..."
+                    placeholder="Write your text note here, or drop files to attach them..."
                     className="flex-1 w-full p-4 bg-black text-white placeholder-slate-700 focus:outline-none resize-none font-mono text-sm leading-relaxed"
                     spellCheck={false}
                 />
             </div>
 
+            {files.length > 0 && (
+                <div className="bg-[#0a0a0a] border-t-2 border-emerald-500/30 px-4 py-2 flex flex-wrap gap-2">
+                    {files.map((file, index) => (
+                        <div
+                            key={`${file.name}-${index}`}
+                            className="flex items-center gap-2 bg-black border-2 border-emerald-900/30 px-2 py-1 text-xs"
+                        >
+                            <FileText className="w-4 h-4 text-emerald-400" />
+                            <span className="text-white max-w-[12rem] truncate">{file.name}</span>
+                            <span className="text-slate-500">{formatBytes(file.size)}</span>
+                            <button
+                                onClick={() => removeFile(index)}
+                                className="text-slate-400 hover:text-white transition-colors"
+                                title="Remove"
+                            >
+                                <X className="w-3 h-3" />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
             {showSettings && (
                 <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50">
                     <div className="bg-[#0a0a0a] shadow-2xl p-6 max-w-md w-full mx-4 border-2 border-emerald-500/30">
@@ -165,11 +484,40 @@ function Home() {
                                     type="password"
                                     value={password}
                                     onChange={(e) => setPassword(e.target.value)}
-                                    placeholder="Leave empty for auto-generated password"
-                                    className="w-full px-3 py-2 bg-black border-2 border-emerald-900/30 text-white placeholder-slate-600 focus:outline-none focus:border-emerald-500 transition-colors text-sm"
+                                    placeholder="Leave empty for an auto-generated key"
+                                    disabled={recipientLabels.length > 0}
+                                    className="w-full px-3 py-2 bg-black border-2 border-emerald-900/30 text-white placeholder-slate-600 focus:outline-none focus:border-emerald-500 transition-colors text-sm disabled:text-slate-600"
                                 />
                                 <p className="mt-1 text-xs text-slate-500">
-                                    If empty, a random password will be generated and included in the share URL
+                                    If empty, a random 256-bit key will be generated and included in the share URL
+                                </p>
+                                {usePassword && (
+                                    <label className="mt-2 flex items-center gap-2 text-xs font-medium text-slate-300 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={requirePassword}
+                                            onChange={(e) => setRequirePassword(e.target.checked)}
+                                            className="accent-emerald-500"
+                                        />
+                                        Require password (leave it out of the share URL)
+                                    </label>
+                                )}
+                            </div>
+
+                            <div>
+                                <label className="block text-xs font-medium text-slate-300 mb-1.5">
+                                    Recipients <span className="text-slate-500 font-normal">(optional)</span>
+                                </label>
+                                <textarea
+                                    value={recipientNames}
+                                    onChange={(e) => setRecipientNames(e.target.value)}
+                                    placeholder={'One name per line, e.g.\nAlice\nBob'}
+                                    rows={3}
+                                    className="w-full px-3 py-2 bg-black border-2 border-emerald-900/30 text-white placeholder-slate-600 focus:outline-none focus:border-emerald-500 transition-colors text-sm resize-none"
+                                />
+                                <p className={`mt-1 text-xs ${recipientLabels.length > MAX_RECIPIENTS ? 'text-red-400' : 'text-slate-500'}`}>
+                                    Each person gets their own link with its own view count, which you can revoke on its own.
+                                    Names stay in this browser. Up to {MAX_RECIPIENTS}; recipients can't be combined with a password.
                                 </p>
                             </div>
 
@@ -182,16 +530,97 @@ function Home() {
                                     onChange={(e) => setTtl(Number(e.target.value))}
                                     className="w-full px-3 py-2 bg-black border-2 border-emerald-900/30 text-white focus:outline-none focus:border-emerald-500 transition-colors text-sm"
                                 >
-                                    <option value={180}>3 Mins</option>
-                                    <option value={600}>10 Mins</option>
-                                    <option value={1800}>30 Mins</option>
-                                    <option value={3600}>1 Hour</option>
-                                    <option value={21600}>6 Hours</option>
-                                    <option value={43200}>12 Hours</option>
-                                    <option value={86400}>24 Hours (Default)</option>
-                                    <option value={604800}>7 Days</option>
-                                    <option value={2592000}>30 Days</option>
+                                    {TTL_OPTIONS.map(option => (
+                                        <option key={option.value} value={option.value}>{option.label}</option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            <div>
+                                <label className="flex items-center gap-2 text-xs font-medium text-slate-300 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={compress}
+                                        onChange={(e) => setCompress(e.target.checked)}
+                                        className="accent-emerald-500"
+                                    />
+                                    Compress before encrypting
+                                </label>
+                                <p className="mt-1 text-xs text-slate-500">
+                                    Shrinks logs and other repetitive text, so larger notes fit. Only the recipient's browser sees that it was compressed.
+                                </p>
+                            </div>
+
+                            <div>
+                                <label className="flex items-center gap-2 text-xs font-medium text-slate-300 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={burnAfterReading}
+                                        onChange={(e) => setBurnAfterReading(e.target.checked)}
+                                        className="accent-emerald-500"
+                                    />
+                                    Burn after reading
+                                </label>
+                                <p className="mt-1 text-xs text-slate-500">
+                                    The note is destroyed the first time it is opened
+                                </p>
+                            </div>
+
+                            <div>
+                                <label className="block text-xs font-medium text-slate-300 mb-1.5">
+                                    View Limit
+                                </label>
+                                <select
+                                    value={burnAfterReading ? 1 : maxViews}
+                                    onChange={(e) => setMaxViews(Number(e.target.value))}
+                                    disabled={burnAfterReading}
+                                    className="w-full px-3 py-2 bg-black border-2 border-emerald-900/30 text-white focus:outline-none focus:border-emerald-500 transition-colors text-sm disabled:text-slate-600"
+                                >
+                                    <option value={0}>Unlimited (Default)</option>
+                                    <option value={1}>1 View</option>
+                                    <option value={2}>2 Views</option>
+                                    <option value={3}>3 Views</option>
+                                    <option value={5}>5 Views</option>
+                                    <option value={10}>10 Views</option>
                                 </select>
+                                <p className="mt-1 text-xs text-slate-500">
+                                    {recipientLabels.length > 0
+                                        ? 'Each recipient\'s link stops working once it has been viewed this many times'
+                                        : 'The note is destroyed once it has been viewed this many times'}
+                                </p>
+                            </div>
+
+                            <div>
+                                <label className="block text-xs font-medium text-slate-300 mb-1.5">
+                                    Clear When Idle
+                                </label>
+                                <select
+                                    value={idleTimeout}
+                                    onChange={(e) => setIdleTimeout(Number(e.target.value))}
+                                    className="w-full px-3 py-2 bg-black border-2 border-emerald-900/30 text-white focus:outline-none focus:border-emerald-500 transition-colors text-sm"
+                                >
+                                    {IDLE_TIMEOUT_OPTIONS.map(option => (
+                                        <option key={option.value} value={option.value}>{option.label}</option>
+                                    ))}
+                                </select>
+                                <p className="mt-1 text-xs text-slate-500">
+                                    The note disappears from the recipient's screen if they leave it open without touching the page. It is always cleared once it expires.
+                                </p>
+                            </div>
+
+                            <div>
+                                <label className="flex items-center gap-2 text-xs font-medium text-slate-300 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={blurNote}
+                                        onChange={(e) => setBlurNote(e.target.checked)}
+                                        className="accent-emerald-500"
+                                    />
+                                    Blur until hovered
+                                </label>
+                                <p className="mt-1 text-xs text-slate-500">
+                                    Keeps the note unreadable to anyone looking over the recipient's shoulder or at their shared screen
+                                </p>
                             </div>
 
                             <button
@@ -205,6 +634,14 @@ function Home() {
                 </div>
             )}
 
+            {showHistory && (
+                <NotesHistory
+                    privateKey={historyKey}
+                    onPrivateKeyChange={setHistoryKey}
+                    onClose={() => setShowHistory(false)}
+                />
+            )}
+
             {showResult && (
                 <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50">
                     <div className="bg-[#0a0a0a] shadow-2xl p-6 max-w-lg w-full mx-4 border-2 border-emerald-500/30">
@@ -222,42 +659,148 @@ function Home() {
                         </div>
 
                         <div className="space-y-4">
-                            <div className="flex justify-center">
-                                {qrCodeDataUrl && (
-                                    <div className="bg-black p-3 border-2 border-emerald-500/20">
-                                        <img src={qrCodeDataUrl} alt="QR Code" className="w-48 h-48 mx-auto" />
+                            {recipientLinks.length > 0 ? (
+                                <div>
+                                    <label className="block text-xs font-medium text-slate-300 mb-1.5">
+                                        Recipient Links
+                                    </label>
+                                    <div className="max-h-72 overflow-y-auto space-y-2">
+                                        {recipientLinks.map((recipient, index) => (
+                                            <div key={recipient.url} className="bg-black border-2 border-emerald-900/30 p-2">
+                                                <div className="flex items-center gap-2">
+                                                    <span className="text-xs font-semibold text-white w-24 truncate" title={recipient.label}>
+                                                        {recipient.label}
+                                                    </span>
+                                                    <input
+                                                        type="text"
+                                                        value={recipient.url}
+                                                        readOnly
+                                                        className="flex-1 min-w-0 px-2 py-1 bg-black border-2 border-emerald-900/30 text-emerald-400 text-xs font-mono focus:outline-none focus:border-emerald-500"
+                                                    />
+                                                    <button
+                                                        onClick={() => copyToClipboard(recipient.url, `recipient-${index}`)}
+                                                        className="p-1.5 bg-emerald-600 hover:bg-emerald-500 border-2 border-emerald-600 hover:border-emerald-500 transition-all"
+                                                        title="Copy link"
+                                                    >
+                                                        {copied === `recipient-${index}` ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+                                                    </button>
+                                                    <button
+                                                        onClick={() => setShownQrCode(shownQrCode === index ? null : index)}
+                                                        className="p-1.5 bg-[#111111] hover:bg-[#1a1a1a] border-2 border-emerald-900/30 hover:border-emerald-500/30 transition-all"
+                                                        title="QR code"
+                                                    >
+                                                        <QrCode className="w-3 h-3" />
+                                                    </button>
+                                                </div>
+                                                {shownQrCode === index && (
+                                                    <img src={recipient.qrCodeDataUrl} alt={`QR code for ${recipient.label}`} className="w-40 h-40 mx-auto mt-2" />
+                                                )}
+                                            </div>
+                                        ))}
                                     </div>
-                                )}
-                            </div>
+                                    <p className="mt-2 text-xs text-slate-500">
+                                        Send each person their own link. Views are counted per link, and each link can be revoked from the management page.
+                                    </p>
+                                </div>
+                            ) : (
+                                <>
+                                <div className="flex justify-center">
+                                    {qrCodeDataUrl && (
+                                        <div className="bg-black p-3 border-2 border-emerald-500/20">
+                                            <img src={qrCodeDataUrl} alt="QR Code" className="w-48 h-48 mx-auto" />
+                                        </div>
+                                    )}
+                                </div>
+
+                                <div>
+                                    <label className="block text-xs font-medium text-slate-300 mb-1.5">
+                                        Share URL
+                                    </label>
+                                    <div className="flex gap-2">
+                                        <input
+                                            type="text"
+                                            value={shareUrl}
+                                            readOnly
+                                            className="flex-1 px-3 py-2 bg-black border-2 border-emerald-900/30 text-emerald-400 text-xs font-mono focus:outline-none focus:border-emerald-500"
+                                        />
+                                        <button
+                                            onClick={() => copyToClipboard(shareUrl, 'share')}
+                                            className="px-3 py-2 bg-emerald-600 hover:bg-emerald-500 border-2 border-emerald-600 hover:border-emerald-500 transition-all flex items-center gap-2 shadow-[2px_2px_0_0_rgba(0,0,0,0.3)]"
+                                        >
+                                            {copied === 'share' ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                                        </button>
+                                    </div>
+                                    <p className="mt-2 text-xs text-slate-500">
+                                        {isPasswordProtected
+                                            ? 'The recipient will need this URL and the password to read your note'
+                                            : 'Anyone with this URL can decrypt and read your note'}
+                                    </p>
+                                </div>
+
+                                <div className="bg-black border-2 border-emerald-900/30 p-3">
+                                    <p className="text-xs text-slate-400">
+                                        <span className="font-semibold text-emerald-400">Note:</span>{' '}
+                                        {isPasswordProtected
+                                            ? 'The password is not included in this URL. Share it with the recipient separately, over a different channel.'
+                                            : 'The key is included in the URL after the # symbol. Browsers never send this part to a server, but keep this URL secure.'}
+                                    </p>
+                                </div>
+                                </>
+                            )}
+
+                            {(burnAfterReading || maxViews > 0) && (
+                                <div className="bg-black border-2 border-orange-500/30 p-3 flex items-start gap-2">
+                                    <Flame className="w-4 h-4 text-orange-400 shrink-0" />
+                                    <p className="text-xs text-slate-400">
+                                        {recipientLinks.length > 0
+                                            ? (burnAfterReading || maxViews === 1
+                                                ? 'Each link stops working as soon as it is opened.'
+                                                : `Each link stops working after ${maxViews} views.`)
+                                            : (burnAfterReading || maxViews === 1
+                                                ? 'This note will be destroyed as soon as it is opened.'
+                                                : `This note will be destroyed after ${maxViews} views.`)}
+                                        {' '}Revealing the note counts as a view, so don't reveal it yourself.
+                                    </p>
+                                </div>
+                            )}
 
                             <div>
                                 <label className="block text-xs font-medium text-slate-300 mb-1.5">
-                                    Share URL
+                                    Management URL
                                 </label>
                                 <div className="flex gap-2">
                                     <input
                                         type="text"
-                                        value={shareUrl}
+                                        value={manageUrl}
                                         readOnly
-                                        className="flex-1 px-3 py-2 bg-black border-2 border-emerald-900/30 text-emerald-400 text-xs font-mono focus:outline-none focus:border-emerald-500"
+                                        className="flex-1 px-3 py-2 bg-black border-2 border-emerald-900/30 text-slate-400 text-xs font-mono focus:outline-none focus:border-emerald-500"
                                     />
                                     <button
-                                        onClick={() => copyToClipboard(shareUrl)}
-                                        className="px-3 py-2 bg-emerald-600 hover:bg-emerald-500 border-2 border-emerald-600 hover:border-emerald-500 transition-all flex items-center gap-2 shadow-[2px_2px_0_0_rgba(0,0,0,0.3)]"
+                                        onClick={() => copyToClipboard(manageUrl, 'manage')}
+                                        className="px-3 py-2 bg-[#111111] hover:bg-[#1a1a1a] border-2 border-emerald-900/30 hover:border-emerald-500/30 transition-all flex items-center gap-2 shadow-[2px_2px_0_0_rgba(0,0,0,0.3)]"
                                     >
-                                        {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                                        {copied === 'manage' ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
                                     </button>
                                 </div>
                                 <p className="mt-2 text-xs text-slate-500">
-                                    Anyone with this URL can decrypt and read your note
+                                    Keep this private. It lets you revoke the note or change its expiry later.
                                 </p>
                             </div>
 
-                            <div className="bg-black border-2 border-emerald-900/30 p-3">
-                                <p className="text-xs text-slate-400">
-                                    <span className="font-semibold text-emerald-400">Note:</span> The password is included in the URL after the ~ symbol. Keep this URL secure.
-                                </p>
-                            </div>
+                            {isRevoked ? (
+                                <div className="bg-black border-2 border-red-500/30 p-3">
+                                    <p className="text-xs text-red-400">This link has been revoked and the note deleted.</p>
+                                </div>
+                            ) : (
+                                <button
+                                    onClick={handleRevoke}
+                                    disabled={isRevoking}
+                                    className="w-full bg-[#111111] hover:bg-red-950 disabled:cursor-wait text-red-400 font-bold py-2 px-4 border-2 border-red-500/30 hover:border-red-500 transition-all flex items-center justify-center gap-2 shadow-[2px_2px_0_0_rgba(0,0,0,0.3)] text-sm"
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                    {isRevoking ? 'Revoking...' : 'Revoke link'}
+                                </button>
+                            )}
 
                             <button
                                 onClick={closeResult}
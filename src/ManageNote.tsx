@@ -0,0 +1,262 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate, useLocation } from 'react-router-dom';
+import { ArrowLeft, Loader2, Trash2, Clock, Users } from 'lucide-react';
+import { apiUrl } from './utils/api';
+import { TTL_OPTIONS } from './utils/limits';
+import { listRecipients, revokeNote, revokeRecipient, updateNoteTtl } from './utils/manage';
+import type { ApiSuccess, MetaResponse, RecipientStatus } from '../shared/api';
+
+function ManageNote() {
+    const { id } = useParams<{ id: string }>();
+    const { hash } = useLocation();
+    const navigate = useNavigate();
+    const [meta, setMeta] = useState<MetaResponse | null>(null);
+    const [recipients, setRecipients] = useState<RecipientStatus[]>([]);
+    const [ttl, setTtl] = useState(86400);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+    const [isRevoked, setIsRevoked] = useState(false);
+    const [error, setError] = useState('');
+    const [message, setMessage] = useState('');
+
+    // The manage token is kept in the fragment so it never reaches a server log
+    const token = hash.replace(/^#/, '');
+
+    useEffect(() => {
+        const loadMeta = async () => {
+            if (!id || !token) {
+                setError('Invalid management link. Expected format: /manage/{id}#{token}');
+                setIsLoading(false);
+                return;
+            }
+
+            try {
+                const response = await fetch(apiUrl(`/meta/${id}`));
+                if (!response.ok) {
+                    setError(response.status === 404 || response.status === 410
+                        ? 'Note not found or has expired'
+                        : 'Failed to load note');
+                    return;
+                }
+
+                const result: ApiSuccess<MetaResponse> = await response.json();
+                setMeta(result.data);
+                // Also checks the token, but a bad one is reported when it is used
+                setRecipients(await listRecipients(id, token).catch(() => []));
+            } catch (err) {
+                console.error('Error fetching note metadata:', err);
+                setError('Failed to load note');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        loadMeta();
+    }, [id, token]);
+
+    const handleUpdateTtl = async () => {
+        if (!id || !meta) return;
+
+        setIsSaving(true);
+        setMessage('');
+        try {
+            const expiresAt = await updateNoteTtl(id, token, ttl);
+            setMeta({ ...meta, expiresAt });
+            setMessage('Expiry updated.');
+        } catch (err) {
+            setMessage(err instanceof Error ? err.message : 'Failed to update expiry');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleRevoke = async () => {
+        if (!id) return;
+        if (!confirm('Revoke this link? The note will be deleted immediately and cannot be recovered.')) {
+            return;
+        }
+
+        setIsSaving(true);
+        setMessage('');
+        try {
+            await revokeNote(id, token);
+            setIsRevoked(true);
+        } catch (err) {
+            setMessage(err instanceof Error ? err.message : 'Failed to revoke link');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleRevokeRecipient = async (recipient: RecipientStatus) => {
+        if (!id) return;
+        if (!confirm(`Revoke recipient ${recipient.position + 1}'s link? The other links keep working.`)) {
+            return;
+        }
+
+        setIsSaving(true);
+        setMessage('');
+        try {
+            const noteDeleted = await revokeRecipient(id, recipient.id, token);
+            if (noteDeleted) {
+                setIsRevoked(true);
+            } else {
+                setRecipients(current => current.filter(item => item.id !== recipient.id));
+                setMessage('Recipient revoked.');
+            }
+        } catch (err) {
+            setMessage(err instanceof Error ? err.message : 'Failed to revoke recipient');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const goHome = () => {
+        navigate('/');
+    };
+
+    if (isLoading) {
+        return (
+            <div className="h-screen flex items-center justify-center bg-black">
+                <div className="text-center">
+                    <Loader2 className="w-12 h-12 text-emerald-400 animate-spin mx-auto mb-4" />
+                    <p className="text-slate-500">Loading note...</p>
+                </div>
+            </div>
+        );
+    }
+
+    if (error || isRevoked || !meta) {
+        return (
+            <div className="h-screen flex items-center justify-center bg-black">
+                <div className="text-center max-w-md mx-4">
+                    <div className={`bg-[#0a0a0a] border-2 p-6 ${isRevoked ? 'border-emerald-500/30' : 'border-red-500/30'}`}>
+                        <h2 className={`text-xl font-bold mb-3 ${isRevoked ? 'text-emerald-400' : 'text-red-400'}`}>
+                            {isRevoked ? 'Link revoked' : 'Error'}
+                        </h2>
+                        <p className="text-slate-300 mb-4 text-sm">
+                            {isRevoked ? 'The note has been deleted and its link no longer works.' : error}
+                        </p>
+                        <button
+                            onClick={goHome}
+                            className="bg-emerald-600 hover:bg-emerald-500 text-white font-bold px-4 py-2 border-2 border-emerald-600 hover:border-emerald-500 transition-all flex items-center gap-2 mx-auto shadow-[2px_2px_0_0_rgba(0,0,0,0.3)] text-sm"
+                        >
+                            <ArrowLeft className="w-4 h-4" />
+                            Go Home
+                        </button>
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-black text-white py-10">
+            <div className="max-w-md w-full mx-4">
+                <div className="bg-[#0a0a0a] border-2 border-emerald-500/30 p-6 space-y-6">
+                    <div>
+                        <h2 className="text-xl font-bold text-emerald-400 mb-3">Manage your note</h2>
+                        <div className="text-slate-400 text-xs space-y-1">
+                            <p>Expires {new Date(meta.expiresAt * 1000).toLocaleString()}</p>
+                            {meta.remainingViews !== null && (
+                                <p>
+                                    {meta.remainingViews} {meta.remainingViews === 1 ? 'view' : 'views'} remaining
+                                </p>
+                            )}
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="block text-xs font-medium text-slate-300 mb-1.5">
+                            Expire in
+                        </label>
+                        <div className="flex gap-2">
+                            <select
+                                value={ttl}
+                                onChange={(e) => setTtl(Number(e.target.value))}
+                                className="flex-1 px-3 py-2 bg-black border-2 border-emerald-900/30 text-white focus:outline-none focus:border-emerald-500 transition-colors text-sm"
+                            >
+                                {TTL_OPTIONS.map(option => (
+                                    <option key={option.value} value={option.value}>{option.label}</option>
+                                ))}
+                            </select>
+                            <button
+                                onClick={handleUpdateTtl}
+                                disabled={isSaving}
+                                className="bg-emerald-600 hover:bg-emerald-500 disabled:cursor-wait text-white font-bold px-4 py-2 border-2 border-emerald-600 hover:border-emerald-500 transition-all flex items-center gap-2 shadow-[2px_2px_0_0_rgba(0,0,0,0.3)] text-sm"
+                            >
+                                <Clock className="w-4 h-4" />
+                                Update
+                            </button>
+                        </div>
+                        <p className="mt-2 text-xs text-slate-500">
+                            The new expiry is counted from now, so you can extend or shorten it.
+                        </p>
+                    </div>
+
+                    {recipients.length > 0 && (
+                        <div>
+                            <div className="flex items-center gap-2 mb-1.5">
+                                <Users className="w-4 h-4 text-emerald-400" />
+                                <label className="text-xs font-medium text-slate-300">Recipients</label>
+                            </div>
+                            <div className="space-y-2">
+                                {recipients.map(recipient => (
+                                    <div
+                                        key={recipient.id}
+                                        className="bg-black border-2 border-emerald-900/30 px-3 py-2 flex items-center justify-between gap-2"
+                                    >
+                                        <div className="min-w-0">
+                                            <p className="text-sm text-white">Recipient {recipient.position + 1}</p>
+                                            <p className="text-xs text-slate-500">
+                                                {recipient.remainingViews === null
+                                                    ? 'Unlimited views'
+                                                    : recipient.remainingViews === 0
+                                                        ? 'Link used up'
+                                                        : `${recipient.remainingViews} ${recipient.remainingViews === 1 ? 'view' : 'views'} remaining`}
+                                            </p>
+                                        </div>
+                                        <button
+                                            onClick={() => handleRevokeRecipient(recipient)}
+                                            disabled={isSaving}
+                                            className="text-xs text-slate-400 hover:text-red-400 disabled:cursor-wait transition-colors flex items-center gap-1"
+                                        >
+                                            <Trash2 className="w-3 h-3" />
+                                            Revoke
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                            <p className="mt-2 text-xs text-slate-500">
+                                Recipients are numbered in the order you listed them. Their names are kept in My notes in the browser that created the note.
+                            </p>
+                        </div>
+                    )}
+
+                    {message && (
+                        <p className="text-xs text-slate-300">{message}</p>
+                    )}
+
+                    <button
+                        onClick={handleRevoke}
+                        disabled={isSaving}
+                        className="w-full bg-[#111111] hover:bg-red-950 disabled:cursor-wait text-red-400 font-bold py-2 px-4 border-2 border-red-500/30 hover:border-red-500 transition-all flex items-center justify-center gap-2 shadow-[2px_2px_0_0_rgba(0,0,0,0.3)] text-sm"
+                    >
+                        <Trash2 className="w-4 h-4" />
+                        Revoke link
+                    </button>
+
+                    <button
+                        onClick={goHome}
+                        className="w-full bg-[#111111] hover:bg-[#1a1a1a] text-white font-bold py-2 px-4 border-2 border-emerald-900/30 hover:border-emerald-500/30 transition-all flex items-center justify-center gap-2 shadow-[2px_2px_0_0_rgba(0,0,0,0.3)] text-sm"
+                    >
+                        <ArrowLeft className="w-4 h-4" />
+                        New Note
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default ManageNote;
@@ -0,0 +1,389 @@
+import { useState, useEffect, useCallback, type FormEvent } from 'react';
+import { X, Copy, Check, QrCode, Trash2, Lock, Unlock, Settings, History } from 'lucide-react';
+import QRCodeLib from 'qrcode';
+import type { ReceiptResponse } from '../shared/api';
+import {
+    fetchNoteStatuses,
+    fetchReceipts,
+    isHistoryLocked,
+    loadHistory,
+    removeHistoryEntry,
+    setHistoryPassphrase,
+    unlockHistory,
+    type HistoryEntry,
+    type NoteStatus,
+} from './utils/history';
+
+interface NotesHistoryProps {
+    // The unlocked history key, kept by the parent so it survives closing the panel
+    privateKey: CryptoKey | null;
+    onPrivateKeyChange: (key: CryptoKey | null) => void;
+    onClose: () => void;
+}
+
+function formatCountdown(seconds: number): string {
+    if (seconds <= 0) return 'expired';
+    const days = Math.floor(seconds / 86400);
+    const hours = Math.floor((seconds % 86400) / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    const secs = seconds % 60;
+    if (days > 0) return `${days}d ${hours}h`;
+    if (hours > 0) return `${hours}h ${minutes}m`;
+    return `${minutes}m ${secs}s`;
+}
+
+function NotesHistory({ privateKey, onPrivateKeyChange, onClose }: NotesHistoryProps) {
+    const [entries, setEntries] = useState<HistoryEntry[]>([]);
+    const [statuses, setStatuses] = useState<Record<string, NoteStatus>>({});
+    const [receipts, setReceipts] = useState<Record<string, ReceiptResponse>>({});
+    const [isLocked, setIsLocked] = useState(false);
+    const [isLoading, setIsLoading] = useState(true);
+    const [passphrase, setPassphrase] = useState('');
+    const [passphraseError, setPassphraseError] = useState('');
+    const [showLockSettings, setShowLockSettings] = useState(false);
+    const [qrCodes, setQrCodes] = useState<Record<string, string>>({});
+    const [copiedId, setCopiedId] = useState('');
+    const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+    const refresh = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const locked = await isHistoryLocked();
+            setIsLocked(locked);
+            if (locked && !privateKey) {
+                setEntries([]);
+                return;
+            }
+
+            const loaded = await loadHistory(privateKey);
+            setEntries(loaded);
+            if (loaded.length > 0) {
+                const [loadedStatuses, loadedReceipts] = await Promise.all([
+                    fetchNoteStatuses(loaded.map(entry => entry.id)),
+                    fetchReceipts(loaded),
+                ]);
+                setStatuses(loadedStatuses);
+                setReceipts(loadedReceipts);
+            }
+        } catch (error) {
+            console.error('Error loading history:', error);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [privateKey]);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    // Tick the countdowns
+    useEffect(() => {
+        const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+        return () => clearInterval(timer);
+    }, []);
+
+    const handleUnlock = async (e: FormEvent) => {
+        e.preventDefault();
+        setPassphraseError('');
+        try {
+            onPrivateKeyChange(await unlockHistory(passphrase));
+            setPassphrase('');
+        } catch {
+            setPassphraseError('Incorrect passphrase. Please try again.');
+        }
+    };
+
+    const handleSetPassphrase = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!passphrase) return;
+        setPassphraseError('');
+        try {
+            onPrivateKeyChange(await setHistoryPassphrase(passphrase, privateKey));
+            setPassphrase('');
+            setShowLockSettings(false);
+        } catch (error) {
+            console.error('Error setting history passphrase:', error);
+            setPassphraseError('Failed to encrypt your history. Please try again.');
+        }
+    };
+
+    const handleRemovePassphrase = async () => {
+        setPassphraseError('');
+        try {
+            onPrivateKeyChange(await setHistoryPassphrase(null, privateKey));
+            setShowLockSettings(false);
+        } catch (error) {
+            console.error('Error removing history passphrase:', error);
+            setPassphraseError('Failed to decrypt your history. Please try again.');
+        }
+    };
+
+    const handleRemove = async (id: string) => {
+        await removeHistoryEntry(id);
+        setEntries(current => current.filter(entry => entry.id !== id));
+    };
+
+    // `linkId` is the note's ID, or `{id}:{index}` for one of its recipients' links
+    const copyLink = (url: string, linkId: string) => {
+        navigator.clipboard.writeText(url);
+        setCopiedId(linkId);
+        setTimeout(() => setCopiedId(''), 2000);
+    };
+
+    const toggleQrCode = async (url: string, linkId: string) => {
+        if (qrCodes[linkId]) {
+            setQrCodes(current => {
+                const next = { ...current };
+                delete next[linkId];
+                return next;
+            });
+            return;
+        }
+
+        const qrDataUrl = await QRCodeLib.toDataURL(url, {
+            width: 200,
+            margin: 2,
+            color: {
+                dark: '#10b981',
+                light: '#0f172a'
+            }
+        });
+        setQrCodes(current => ({ ...current, [linkId]: qrDataUrl }));
+    };
+
+    // When the note was first opened, from its receipt
+    const receiptText = (receipt: ReceiptResponse | undefined): string | null => {
+        if (!receipt) return null;
+        if (receipt.firstViewedAt === null) return 'Not opened yet';
+        const views = `${receipt.viewCount} ${receipt.viewCount === 1 ? 'view' : 'views'}`;
+        return `First opened ${new Date(receipt.firstViewedAt * 1000).toLocaleString()} · ${views}`;
+    };
+
+    // Whether a recipient's link has been opened, matching its ID in the link's path
+    const recipientOpened = (receipt: ReceiptResponse | undefined, url: string): boolean => {
+        const recipientId = new URL(url).pathname.split('/').pop();
+        return !!receipt?.views.some(view => view.recipientId === recipientId);
+    };
+
+    const statusLabel = (entry: HistoryEntry): { text: string; className: string } => {
+        const status = statuses[entry.id];
+        if (entry.expiresAt <= now || status?.status === 'expired') {
+            return { text: 'Expired', className: 'text-slate-500 border-slate-700' };
+        }
+        if (status?.status === 'not_found') {
+            return { text: 'Gone', className: 'text-orange-400 border-orange-500/30' };
+        }
+        return { text: 'Active', className: 'text-emerald-400 border-emerald-500/30' };
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50">
+            <div className="bg-[#0a0a0a] shadow-2xl p-6 max-w-lg w-full mx-4 border-2 border-emerald-500/30 max-h-[90vh] flex flex-col">
+                <div className="flex items-center justify-between mb-4">
+                    <div className="flex items-center gap-2">
+                        <History className="w-5 h-5 text-emerald-400" />
+                        <h2 className="text-xl font-semibold text-white">My Notes</h2>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        {(!isLocked || privateKey) && (
+                            <button
+                                onClick={() => {
+                                    setShowLockSettings(!showLockSettings);
+                                    setPassphraseError('');
+                                }}
+                                className="text-slate-400 hover:text-white transition-colors"
+                                title="Passphrase settings"
+                            >
+                                <Settings className="w-5 h-5" />
+                            </button>
+                        )}
+                        <button
+                            onClick={onClose}
+                            className="text-slate-400 hover:text-white transition-colors"
+                        >
+                            <X className="w-6 h-6" />
+                        </button>
+                    </div>
+                </div>
+
+                {isLocked && !privateKey ? (
+                    <form onSubmit={handleUnlock}>
+                        <label className="block text-xs font-medium text-slate-300 mb-1.5">
+                            Your note history is encrypted
+                        </label>
+                        <input
+                            type="password"
+                            value={passphrase}
+                            onChange={(e) => setPassphrase(e.target.value)}
+                            placeholder="Enter your history passphrase"
+                            autoFocus
+                            className="w-full px-3 py-2 bg-black border-2 border-emerald-900/30 text-white placeholder-slate-600 focus:outline-none focus:border-emerald-500 transition-colors text-sm"
+                        />
+                        {passphraseError && (
+                            <p className="mt-1.5 text-xs text-red-400">{passphraseError}</p>
+                        )}
+                        <button
+                            type="submit"
+                            disabled={!passphrase}
+                            className="mt-4 bg-emerald-600 hover:bg-emerald-500 disabled:bg-[#111111] disabled:border-emerald-900/30 disabled:cursor-not-allowed text-white font-bold px-4 py-2 border-2 border-emerald-600 hover:border-emerald-500 transition-all flex items-center gap-2 shadow-[2px_2px_0_0_rgba(0,0,0,0.3)] text-sm"
+                        >
+                            <Unlock className="w-4 h-4" />
+                            Unlock
+                        </button>
+                    </form>
+                ) : (
+                    <>
+                        {showLockSettings && (
+                            <form onSubmit={handleSetPassphrase} className="bg-black border-2 border-emerald-900/30 p-3 mb-4">
+                                <p className="text-xs text-slate-400 mb-2">
+                                    {isLocked
+                                        ? 'Your history is encrypted. Set a new passphrase, or remove it to store links unencrypted.'
+                                        : 'Share links include their keys. Set a passphrase to encrypt your history in this browser.'}
+                                </p>
+                                <div className="flex gap-2">
+                                    <input
+                                        type="password"
+                                        value={passphrase}
+                                        onChange={(e) => setPassphrase(e.target.value)}
+                                        placeholder="New passphrase"
+                                        className="flex-1 px-3 py-2 bg-black border-2 border-emerald-900/30 text-white placeholder-slate-600 focus:outline-none focus:border-emerald-500 transition-colors text-sm"
+                                    />
+                                    <button
+                                        type="submit"
+                                        disabled={!passphrase}
+                                        className="bg-emerald-600 hover:bg-emerald-500 disabled:bg-[#111111] disabled:border-emerald-900/30 disabled:cursor-not-allowed text-white font-bold px-3 py-2 border-2 border-emerald-600 hover:border-emerald-500 transition-all flex items-center gap-2 text-sm"
+                                    >
+                                        <Lock className="w-4 h-4" />
+                                        Set
+                                    </button>
+                                </div>
+                                {passphraseError && (
+                                    <p className="mt-1.5 text-xs text-red-400">{passphraseError}</p>
+                                )}
+                                {isLocked && (
+                                    <button
+                                        type="button"
+                                        onClick={handleRemovePassphrase}
+                                        className="mt-2 text-xs text-slate-400 hover:text-white transition-colors"
+                                    >
+                                        Remove passphrase
+                                    </button>
+                                )}
+                            </form>
+                        )}
+
+                        <div className="overflow-y-auto space-y-2">
+                            {isLoading && entries.length === 0 && (
+                                <p className="text-sm text-slate-500">Loading...</p>
+                            )}
+                            {!isLoading && entries.length === 0 && (
+                                <p className="text-sm text-slate-500">Notes you create in this browser will appear here.</p>
+                            )}
+                            {entries.map(entry => {
+                                const label = statusLabel(entry);
+                                const remainingViews = statuses[entry.id]?.remainingViews;
+                                const receipt = receipts[entry.id];
+                                const opened = receiptText(receipt);
+                                return (
+                                    <div key={entry.id} className="bg-black border-2 border-emerald-900/30 p-3">
+                                        <div className="flex items-center justify-between gap-2">
+                                            <div className="min-w-0">
+                                                <p className="text-xs font-mono text-white truncate">{entry.id}</p>
+                                                <p className="text-xs text-slate-500">
+                                                    Created {new Date(entry.createdAt * 1000).toLocaleString()}
+                                                </p>
+                                                <p className="text-xs text-slate-500">
+                                                    {label.text === 'Active'
+                                                        ? `Expires in ${formatCountdown(entry.expiresAt - now)}`
+                                                        : `Expired ${new Date(entry.expiresAt * 1000).toLocaleString()}`}
+                                                    {label.text === 'Active' && remainingViews != null
+                                                        && ` · ${remainingViews} ${remainingViews === 1 ? 'view' : 'views'} left`}
+                                                </p>
+                                                {opened && (
+                                                    <p className="text-xs text-slate-500">{opened}</p>
+                                                )}
+                                            </div>
+                                            <span className={`text-xs font-bold px-2 py-0.5 border-2 shrink-0 ${label.className}`}>
+                                                {label.text}
+                                            </span>
+                                        </div>
+                                        {entry.recipients?.map((recipient, index) => {
+                                            const linkId = `${entry.id}:${index}`;
+                                            return (
+                                                <div key={linkId} className="mt-2">
+                                                    <div className="flex items-center gap-3">
+                                                        <span className="text-xs text-white min-w-0 flex-1 truncate">{recipient.label}</span>
+                                                        {receipt && (
+                                                            <span className={`text-xs ${recipientOpened(receipt, recipient.url) ? 'text-emerald-400' : 'text-slate-500'}`}>
+                                                                {recipientOpened(receipt, recipient.url) ? 'Opened' : 'Not opened'}
+                                                            </span>
+                                                        )}
+                                                        <button
+                                                            onClick={() => copyLink(recipient.url, linkId)}
+                                                            className="text-xs text-slate-400 hover:text-emerald-400 transition-colors flex items-center gap-1"
+                                                        >
+                                                            {copiedId === linkId ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+                                                            Copy link
+                                                        </button>
+                                                        <button
+                                                            onClick={() => toggleQrCode(recipient.url, linkId)}
+                                                            className="text-xs text-slate-400 hover:text-emerald-400 transition-colors flex items-center gap-1"
+                                                        >
+                                                            <QrCode className="w-3 h-3" />
+                                                            QR code
+                                                        </button>
+                                                    </div>
+                                                    {qrCodes[linkId] && (
+                                                        <img src={qrCodes[linkId]} alt={`QR code for ${recipient.label}`} className="w-40 h-40 mx-auto mt-2" />
+                                                    )}
+                                                </div>
+                                            );
+                                        })}
+                                        <div className="flex items-center gap-3 mt-2">
+                                            {!entry.recipients && (
+                                                <>
+                                                    <button
+                                                        onClick={() => copyLink(entry.shareUrl, entry.id)}
+                                                        className="text-xs text-slate-400 hover:text-emerald-400 transition-colors flex items-center gap-1"
+                                                    >
+                                                        {copiedId === entry.id ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+                                                        Copy link
+                                                    </button>
+                                                    <button
+                                                        onClick={() => toggleQrCode(entry.shareUrl, entry.id)}
+                                                        className="text-xs text-slate-400 hover:text-emerald-400 transition-colors flex items-center gap-1"
+                                                    >
+                                                        <QrCode className="w-3 h-3" />
+                                                        QR code
+                                                    </button>
+                                                </>
+                                            )}
+                                            <a
+                                                href={entry.manageUrl}
+                                                className="text-xs text-slate-400 hover:text-emerald-400 transition-colors"
+                                            >
+                                                Manage
+                                            </a>
+                                            <button
+                                                onClick={() => handleRemove(entry.id)}
+                                                className="text-xs text-slate-400 hover:text-red-400 transition-colors flex items-center gap-1 ml-auto"
+                                                title="Remove from history"
+                                            >
+                                                <Trash2 className="w-3 h-3" />
+                                            </button>
+                                        </div>
+                                        {qrCodes[entry.id] && (
+                                            <img src={qrCodes[entry.id]} alt="QR Code" className="w-40 h-40 mx-auto mt-2" />
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
+
+export default NotesHistory;
@@ -0,0 +1,146 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate, useLocation } from 'react-router-dom';
+import { ArrowLeft, Loader2, Lock, Send } from 'lucide-react';
+import { getSecretRequestStatus, sendReply } from './utils/requests';
+import type { SecretRequestStatusResponse } from '../shared/api';
+
+function ReplyToRequest() {
+    const { id } = useParams<{ id: string }>();
+    const { hash } = useLocation();
+    const navigate = useNavigate();
+    const [status, setStatus] = useState<SecretRequestStatusResponse | null>(null);
+    const [content, setContent] = useState('');
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSending, setIsSending] = useState(false);
+    const [isSent, setIsSent] = useState(false);
+    const [error, setError] = useState('');
+    const [message, setMessage] = useState('');
+
+    // The requester's public key is kept in the fragment, like note keys
+    const publicKey = hash.replace(/^#/, '');
+
+    useEffect(() => {
+        const loadStatus = async () => {
+            if (!id || !publicKey) {
+                setError('Invalid request link. Expected format: /r/{id}#{publicKey}');
+                setIsLoading(false);
+                return;
+            }
+
+            try {
+                const result = await getSecretRequestStatus(id);
+                if (!result) {
+                    setError('Request not found or has expired');
+                } else if (result.replied) {
+                    setError('This request has already been answered');
+                } else {
+                    setStatus(result);
+                }
+            } catch (err) {
+                console.error('Error fetching request:', err);
+                setError('Failed to load request');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        loadStatus();
+    }, [id, publicKey]);
+
+    const handleSend = async () => {
+        if (!id || !content.trim()) return;
+
+        setIsSending(true);
+        setMessage('');
+        try {
+            await sendReply(id, publicKey, content);
+            setContent('');
+            setIsSent(true);
+        } catch (err) {
+            setMessage(err instanceof Error ? err.message : 'Failed to send reply');
+        } finally {
+            setIsSending(false);
+        }
+    };
+
+    const goHome = () => {
+        navigate('/');
+    };
+
+    if (isLoading) {
+        return (
+            <div className="h-screen flex items-center justify-center bg-black">
+                <div className="text-center">
+                    <Loader2 className="w-12 h-12 text-emerald-400 animate-spin mx-auto mb-4" />
+                    <p className="text-slate-500">Loading request...</p>
+                </div>
+            </div>
+        );
+    }
+
+    if (error || isSent || !status) {
+        return (
+            <div className="h-screen flex items-center justify-center bg-black">
+                <div className="text-center max-w-md mx-4">
+                    <div className={`bg-[#0a0a0a] border-2 p-6 ${isSent ? 'border-emerald-500/30' : 'border-red-500/30'}`}>
+                        <h2 className={`text-xl font-bold mb-3 ${isSent ? 'text-emerald-400' : 'text-red-400'}`}>
+                            {isSent ? 'Secret sent' : 'Error'}
+                        </h2>
+                        <p className="text-slate-300 mb-4 text-sm">
+                            {isSent ? 'Your reply was encrypted before it left this browser. Only the person who asked for it can read it.' : error}
+                        </p>
+                        <button
+                            onClick={goHome}
+                            className="bg-emerald-600 hover:bg-emerald-500 text-white font-bold px-4 py-2 border-2 border-emerald-600 hover:border-emerald-500 transition-all flex items-center gap-2 mx-auto shadow-[2px_2px_0_0_rgba(0,0,0,0.3)] text-sm"
+                        >
+                            <ArrowLeft className="w-4 h-4" />
+                            Go Home
+                        </button>
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="h-screen flex items-center justify-center bg-black text-white">
+            <div className="max-w-lg w-full mx-4">
+                <div className="bg-[#0a0a0a] border-2 border-emerald-500/30 p-6 space-y-4">
+                    <div>
+                        <div className="flex items-center gap-2 mb-3">
+                            <Lock className="w-5 h-5 text-emerald-400" />
+                            <h2 className="text-xl font-bold text-emerald-400">Someone asked you for a secret</h2>
+                        </div>
+                        <div className="text-slate-400 text-xs space-y-1">
+                            <p>Your reply is encrypted in this browser so only they can read it. It can be sent once.</p>
+                            <p>Open until {new Date(status.expiresAt * 1000).toLocaleString()}</p>
+                        </div>
+                    </div>
+
+                    <textarea
+                        value={content}
+                        onChange={(e) => setContent(e.target.value)}
+                        placeholder="Paste the secret here..."
+                        className="w-full h-48 p-3 bg-black border-2 border-emerald-900/30 text-white placeholder-slate-700 focus:outline-none focus:border-emerald-500 transition-colors resize-none font-mono text-sm leading-relaxed"
+                        spellCheck={false}
+                    />
+
+                    {message && (
+                        <p className="text-xs text-red-400">{message}</p>
+                    )}
+
+                    <button
+                        onClick={handleSend}
+                        disabled={isSending || !content.trim()}
+                        className="w-full bg-emerald-600 hover:bg-emerald-500 disabled:bg-[#111111] disabled:border-emerald-900/30 disabled:text-slate-600 text-white font-bold py-2 px-4 border-2 border-emerald-600 hover:border-emerald-500 transition-all flex items-center justify-center gap-2 shadow-[2px_2px_0_0_rgba(0,0,0,0.3)] text-sm"
+                    >
+                        {isSending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                        Send encrypted reply
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default ReplyToRequest;
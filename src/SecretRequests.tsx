@@ -0,0 +1,271 @@
+import { useState, useEffect, useCallback, type FormEvent } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Copy, Check, Inbox, KeyRound, Loader2, Trash2 } from 'lucide-react';
+import { TTL_OPTIONS } from './utils/limits';
+import {
+    createSecretRequest,
+    deleteSecretRequest,
+    getSecretRequestStatus,
+    listSecretRequests,
+    readReply,
+    type SecretRequest,
+} from './utils/requests';
+
+type RequestState = 'waiting' | 'replied' | 'gone';
+
+function SecretRequests() {
+    const navigate = useNavigate();
+    const [requests, setRequests] = useState<SecretRequest[]>([]);
+    const [states, setStates] = useState<Record<string, RequestState>>({});
+    const [replies, setReplies] = useState<Record<string, string>>({});
+    const [label, setLabel] = useState('');
+    const [ttl, setTtl] = useState(86400);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isCreating, setIsCreating] = useState(false);
+    const [newRequestId, setNewRequestId] = useState('');
+    const [copiedId, setCopiedId] = useState('');
+    const [error, setError] = useState('');
+
+    const refresh = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const loaded = await listSecretRequests();
+            setRequests(loaded);
+
+            const statuses = await Promise.all(loaded.map(request => getSecretRequestStatus(request.id)));
+            setStates(Object.fromEntries(loaded.map((request, index) => {
+                const status = statuses[index];
+                return [request.id, !status ? 'gone' : status.replied ? 'replied' : 'waiting'];
+            })));
+        } catch (err) {
+            console.error('Error loading requests:', err);
+            setError('Failed to load your requests');
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const handleCreate = async (e: FormEvent) => {
+        e.preventDefault();
+        setIsCreating(true);
+        setError('');
+        try {
+            const request = await createSecretRequest(label.trim(), ttl, window.location.origin);
+            setRequests(current => [request, ...current]);
+            setStates(current => ({ ...current, [request.id]: 'waiting' }));
+            setNewRequestId(request.id);
+            setLabel('');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to create request');
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    const handleOpen = async (request: SecretRequest) => {
+        setError('');
+        try {
+            const reply = await readReply(request);
+            setReplies(current => ({ ...current, [request.id]: reply.text }));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to open reply');
+        }
+    };
+
+    const handleDelete = async (request: SecretRequest) => {
+        if (!confirm('Delete this request? Any reply will be deleted too.')) {
+            return;
+        }
+        setError('');
+        try {
+            await deleteSecretRequest(request);
+            setRequests(current => current.filter(item => item.id !== request.id));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to delete request');
+        }
+    };
+
+    const copyToClipboard = (text: string, id: string) => {
+        navigator.clipboard.writeText(text);
+        setCopiedId(id);
+        setTimeout(() => setCopiedId(''), 2000);
+    };
+
+    const stateLabel = (request: SecretRequest): { text: string; className: string } => {
+        const state = states[request.id];
+        if (state === 'gone' || request.expiresAt * 1000 < Date.now()) {
+            return { text: 'Expired', className: 'text-slate-500 border-slate-700' };
+        }
+        if (state === 'replied') {
+            return { text: 'Replied', className: 'text-emerald-400 border-emerald-500/30' };
+        }
+        return { text: 'Waiting', className: 'text-orange-400 border-orange-500/30' };
+    };
+
+    return (
+        <div className="min-h-screen flex justify-center bg-black text-white py-10">
+            <div className="max-w-lg w-full mx-4 space-y-6">
+                <form onSubmit={handleCreate} className="bg-[#0a0a0a] border-2 border-emerald-500/30 p-6">
+                    <div className="flex items-center gap-2 mb-3">
+                        <KeyRound className="w-5 h-5 text-emerald-400" />
+                        <h2 className="text-xl font-bold text-emerald-400">Request a secret</h2>
+                    </div>
+                    <p className="text-slate-400 text-xs mb-4">
+                        Share the link with whoever has the secret. Their reply is encrypted in their browser to a key
+                        that only exists in this browser, so nobody else, including the server, can read it.
+                    </p>
+
+                    <label className="block text-xs font-medium text-slate-300 mb-1.5">
+                        What do you need? (only stored in this browser)
+                    </label>
+                    <input
+                        type="text"
+                        value={label}
+                        onChange={(e) => setLabel(e.target.value)}
+                        placeholder="e.g. Staging database password"
+                        className="w-full px-3 py-2 bg-black border-2 border-emerald-900/30 text-white placeholder-slate-600 focus:outline-none focus:border-emerald-500 transition-colors text-sm mb-4"
+                    />
+
+                    <label className="block text-xs font-medium text-slate-300 mb-1.5">
+                        Keep open for
+                    </label>
+                    <div className="flex gap-2">
+                        <select
+                            value={ttl}
+                            onChange={(e) => setTtl(Number(e.target.value))}
+                            className="flex-1 px-3 py-2 bg-black border-2 border-emerald-900/30 text-white focus:outline-none focus:border-emerald-500 transition-colors text-sm"
+                        >
+                            {TTL_OPTIONS.map(option => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                        </select>
+                        <button
+                            type="submit"
+                            disabled={isCreating}
+                            className="bg-emerald-600 hover:bg-emerald-500 disabled:cursor-wait text-white font-bold px-4 py-2 border-2 border-emerald-600 hover:border-emerald-500 transition-all flex items-center gap-2 shadow-[2px_2px_0_0_rgba(0,0,0,0.3)] text-sm"
+                        >
+                            {isCreating ? <Loader2 className="w-4 h-4 animate-spin" /> : <KeyRound className="w-4 h-4" />}
+                            Create link
+                        </button>
+                    </div>
+
+                    {error && (
+                        <p className="mt-3 text-xs text-red-400">{error}</p>
+                    )}
+                </form>
+
+                <div className="bg-[#0a0a0a] border-2 border-emerald-500/30 p-6">
+                    <div className="flex items-center gap-2 mb-4">
+                        <Inbox className="w-5 h-5 text-emerald-400" />
+                        <h2 className="text-xl font-semibold text-white">My requests</h2>
+                    </div>
+
+                    <div className="space-y-2">
+                        {isLoading && requests.length === 0 && (
+                            <p className="text-sm text-slate-500">Loading...</p>
+                        )}
+                        {!isLoading && requests.length === 0 && (
+                            <p className="text-sm text-slate-500">Requests you create in this browser will appear here.</p>
+                        )}
+                        {requests.map(request => {
+                            const state = stateLabel(request);
+                            return (
+                                <div
+                                    key={request.id}
+                                    className={`bg-black border-2 p-3 ${request.id === newRequestId ? 'border-emerald-500' : 'border-emerald-900/30'}`}
+                                >
+                                    <div className="flex items-center justify-between gap-2">
+                                        <div className="min-w-0">
+                                            <p className="text-sm text-white truncate">{request.label || 'Untitled request'}</p>
+                                            <p className="text-xs text-slate-500">
+                                                Expires {new Date(request.expiresAt * 1000).toLocaleString()}
+                                            </p>
+                                        </div>
+                                        <span className={`text-xs font-bold px-2 py-0.5 border-2 shrink-0 ${state.className}`}>
+                                            {state.text}
+                                        </span>
+                                    </div>
+
+                                    {state.text === 'Waiting' && (
+                                        <div className="flex gap-2 mt-2">
+                                            <input
+                                                type="text"
+                                                value={request.link}
+                                                readOnly
+                                                className="flex-1 min-w-0 px-2 py-1 bg-black border-2 border-emerald-900/30 text-white text-xs font-mono"
+                                            />
+                                            <button
+                                                onClick={() => copyToClipboard(request.link, request.id)}
+                                                className="text-xs text-slate-400 hover:text-emerald-400 transition-colors flex items-center gap-1"
+                                            >
+                                                {copiedId === request.id ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+                                                Copy link
+                                            </button>
+                                        </div>
+                                    )}
+
+                                    {replies[request.id] !== undefined && (
+                                        <pre className="mt-2 p-2 bg-[#0a0a0a] border-2 border-emerald-900/30 text-sm text-white whitespace-pre-wrap break-words">
+                                            {replies[request.id]}
+                                        </pre>
+                                    )}
+
+                                    <div className="flex items-center gap-3 mt-2">
+                                        {state.text === 'Replied' && replies[request.id] === undefined && (
+                                            <button
+                                                onClick={() => handleOpen(request)}
+                                                className="text-xs text-emerald-400 hover:text-emerald-300 transition-colors"
+                                            >
+                                                Open reply
+                                            </button>
+                                        )}
+                                        {replies[request.id] !== undefined && (
+                                            <button
+                                                onClick={() => copyToClipboard(replies[request.id], `reply-${request.id}`)}
+                                                className="text-xs text-slate-400 hover:text-emerald-400 transition-colors flex items-center gap-1"
+                                            >
+                                                {copiedId === `reply-${request.id}` ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+                                                Copy reply
+                                            </button>
+                                        )}
+                                        <button
+                                            onClick={() => handleDelete(request)}
+                                            className="text-xs text-slate-400 hover:text-red-400 transition-colors flex items-center gap-1 ml-auto"
+                                            title="Delete request"
+                                        >
+                                            <Trash2 className="w-3 h-3" />
+                                        </button>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+
+                    {requests.length > 0 && (
+                        <button
+                            onClick={refresh}
+                            disabled={isLoading}
+                            className="mt-4 text-xs text-slate-400 hover:text-emerald-400 transition-colors"
+                        >
+                            {isLoading ? 'Checking...' : 'Check for replies'}
+                        </button>
+                    )}
+                </div>
+
+                <button
+                    onClick={() => navigate('/')}
+                    className="w-full bg-[#111111] hover:bg-[#1a1a1a] text-white font-bold py-2 px-4 border-2 border-emerald-900/30 hover:border-emerald-500/30 transition-all flex items-center justify-center gap-2 shadow-[2px_2px_0_0_rgba(0,0,0,0.3)] text-sm"
+                >
+                    <ArrowLeft className="w-4 h-4" />
+                    New Note
+                </button>
+            </div>
+        </div>
+    );
+}
+
+export default SecretRequests;
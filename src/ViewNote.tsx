@@ -1,78 +1,292 @@
-import { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import { decryptText } from './utils/crypto';
-import { Copy, Check, ArrowLeft, Loader2 } from 'lucide-react';
-
-interface FetchResponse {
-    type: string;
-    status: number;
-    data: {
-        id: string;
-        cipher_text: string;
-        iv: string;
-        expiresAt: number;
-    };
+import { useState, useEffect, useMemo, useRef, type FormEvent } from 'react';
+import { useParams, useNavigate, useLocation } from 'react-router-dom';
+import { base64urlDecode, decryptNoteStream, unwrapNoteKey, type NoteMetadata } from './utils/crypto';
+import { highlightCode, renderMarkdown } from './utils/render';
+import 'highlight.js/styles/github-dark.css';
+import { downloadAttachment, formatBytes } from './utils/attachments';
+import { apiUrl, readBinaryFetch } from './utils/api';
+import { Copy, Check, ArrowLeft, Loader2, Flame, Eye, EyeOff, Lock, Download, Paperclip, Code, Timer } from 'lucide-react';
+import {
+    BINARY_CONTENT_TYPE,
+    type ApiSuccess,
+    type AttachmentInfo,
+    type MetaResponse,
+    type RecipientFetchResponse,
+} from '../shared/api';
+
+// Read the note ID and key from either link format:
+// `/n/{id}#{key}` keeps the key in the fragment, which browsers never send to a server;
+// `/{id}~{key}` is the legacy format with the key in the path.
+// Password-protected notes are shared as `/n/{id}` with no key at all.
+// Recipients' links, `/to/{recipientId}#{key}`, are read like `/n/` links.
+function parseNoteLink(id: string | undefined, idKey: string | undefined, hash: string): { id: string; key: string | null } | null {
+    if (id) {
+        try {
+            const key = decodeURIComponent(hash.replace(/^#/, ''));
+            return { id, key: key || null };
+        } catch {
+            return null;
+        }
+    }
+
+    const parts = idKey?.split('~') ?? [];
+    if (parts.length !== 2) {
+        return null;
+    }
+    return { id: parts[0], key: parts[1] };
+}
+
+// AES-GCM reports a wrong key as a failed authentication check
+function isWrongKeyError(err: unknown): boolean {
+    return err instanceof DOMException && err.name === 'OperationError';
+}
+
+// Interactions that count as the viewer still being at the page
+const ACTIVITY_EVENTS = ['pointermove', 'pointerdown', 'keydown', 'wheel', 'touchstart', 'scroll'] as const;
+// Warn this long before clearing an idle note
+const IDLE_WARNING = 30000;
+
+// Time left as `1d 02:03:04`, `02:03:04` or `03:04`
+function formatCountdown(ms: number): string {
+    const total = Math.max(0, Math.ceil(ms / 1000));
+    const pad = (value: number) => String(value).padStart(2, '0');
+    const days = Math.floor(total / 86400);
+    const hours = Math.floor(total / 3600) % 24;
+    const clock = `${pad(Math.floor(total / 60) % 60)}:${pad(total % 60)}`;
+    if (days > 0) return `${days}d ${pad(hours)}:${clock}`;
+    return hours > 0 ? `${pad(hours)}:${clock}` : clock;
+}
+
+// The worker sends Retry-After with 429 responses
+function rateLimitMessage(response: Response): string {
+    const retryAfter = Number(response.headers.get('Retry-After'));
+    return retryAfter > 0
+        ? `Too many requests. Please try again in ${retryAfter} seconds.`
+        : 'Too many requests. Please try again later.';
 }
 
 function ViewNote() {
-    const { idKey } = useParams<{ idKey: string }>();
+    const { id, idKey, recipientId } = useParams<{ id: string; idKey: string; recipientId: string }>();
+    const { hash } = useLocation();
     const navigate = useNavigate();
+    const [meta, setMeta] = useState<MetaResponse | null>(null);
+    const [encryptedNote, setEncryptedNote] = useState<{
+        // Raw bytes rather than base64url, the smallest copy to keep for retries
+        cipherText: Uint8Array;
+        iv: string;
+        attachments: AttachmentInfo[];
+        // Set for recipients, whose link key unwraps the note's key
+        wrappedKey?: string;
+    } | null>(null);
+    const [isRevealed, setIsRevealed] = useState(false);
     const [decryptedContent, setDecryptedContent] = useState('');
+    const [contentMetadata, setContentMetadata] = useState<NoteMetadata>({ contentType: 'plain' });
+    const [showRaw, setShowRaw] = useState(false);
+    // The secret that decrypted the note, kept to decrypt its attachments
+    const [noteKey, setNoteKey] = useState('');
+    const [downloadingId, setDownloadingId] = useState('');
+    const [attachmentNames, setAttachmentNames] = useState<Record<string, string>>({});
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState('');
+    const [password, setPassword] = useState('');
+    const [passwordError, setPasswordError] = useState('');
     const [copied, setCopied] = useState(false);
+    const [isBurned, setIsBurned] = useState(false);
+    // Expiry as of the fetch, which reflects any change the owner made after /meta
+    const [expiresAt, setExpiresAt] = useState<number | null>(null);
+    const [isBlurred, setIsBlurred] = useState(false);
+    // Why the note was cleared from the page, once it has been
+    const [wipedReason, setWipedReason] = useState<'expired' | 'idle' | null>(null);
+    const [now, setNow] = useState(() => Date.now());
+    const lastActivity = useRef(Date.now());
+
+    // Recipients read the note through their own ID, which has its own view count
+    const link = useMemo(() => parseNoteLink(id ?? recipientId, idKey, hash), [id, recipientId, idKey, hash]);
+    const needsPassword = !!meta?.requiresPassword && !link?.key;
+    const isRendered = contentMetadata.contentType !== 'plain' && !showRaw;
+
+    // Sanitized HTML for Markdown and code notes
+    const renderedContent = useMemo(() => {
+        if (contentMetadata.contentType === 'markdown') return renderMarkdown(decryptedContent);
+        if (contentMetadata.contentType === 'code') return highlightCode(decryptedContent, contentMetadata.language);
+        return '';
+    }, [decryptedContent, contentMetadata]);
 
     useEffect(() => {
-        const fetchAndDecrypt = async () => {
-            if (!idKey) {
-                setError('Invalid URL format');
+        // Only load metadata here: fetching the note itself counts as a view, so it
+        // waits for an explicit click (link unfurlers never get past this point)
+        const loadMeta = async () => {
+            if (!link) {
+                setError('Invalid URL format. Expected format: /n/{id}#{key}');
                 setIsLoading(false);
                 return;
             }
 
-            // Parse id and key from the URL parameter
-            const parts = idKey.split('~');
-            if (parts.length !== 2) {
-                setError('Invalid URL format. Expected format: /{id}~{key}');
+            try {
+                const response = await fetch(apiUrl(recipientId ? `/recipients/${link.id}` : `/meta/${link.id}`));
+
+                if (!response.ok) {
+                    if (response.status === 404 || response.status === 410) {
+                        setError('Note not found or has expired');
+                    } else if (response.status === 429) {
+                        setError(rateLimitMessage(response));
+                    } else {
+                        setError('Failed to fetch note');
+                    }
+                    return;
+                }
+
+                const result: ApiSuccess<MetaResponse> = await response.json();
+                if (!link.key && !result.data.requiresPassword) {
+                    setError('This link is missing its decryption key. Make sure you copied the whole URL.');
+                    return;
+                }
+                setMeta(result.data);
+            } catch (err) {
+                console.error('Error fetching note metadata:', err);
+                setError('Failed to fetch note');
+            } finally {
                 setIsLoading(false);
-                return;
             }
+        };
 
-            const [id, key] = parts;
+        loadMeta();
+    }, [link, recipientId]);
 
-            try {
-                // Fetch encrypted data from the worker
-                const workerUrl = import.meta.env.VITE_WORKERS_URL || '';
-                const fetchUrl = workerUrl ? `${workerUrl}/fetch/${id}` : `/fetch/${id}`;
+    const revealNote = async (key: string) => {
+        if (!link) return;
+
+        setIsLoading(true);
+        setPasswordError('');
 
-                const response = await fetch(fetchUrl);
+        try {
+            // Fetch encrypted data from the worker. This counts as a view, so it only
+            // happens once; password retries reuse the ciphertext already loaded.
+            let note = encryptedNote;
+            if (!note) {
+                // A note's own link asks for the ciphertext as raw bytes, a third smaller
+                const response = recipientId
+                    ? await fetch(apiUrl(`/recipients/${link.id}/fetch`))
+                    : await fetch(apiUrl(`/fetch/${link.id}`), { headers: { Accept: BINARY_CONTENT_TYPE } });
 
                 if (!response.ok) {
-                    if (response.status === 404) {
+                    if (response.status === 404 || response.status === 410) {
                         setError('Note not found or has expired');
+                    } else if (response.status === 429) {
+                        setError(rateLimitMessage(response));
                     } else {
                         setError('Failed to fetch note');
                     }
-                    setIsLoading(false);
                     return;
                 }
 
-                const result: FetchResponse = await response.json();
-                const { cipher_text, iv } = result.data;
+                if (recipientId) {
+                    const data = ((await response.json()) as ApiSuccess<RecipientFetchResponse>).data;
+                    note = {
+                        cipherText: base64urlDecode(data.cipher_text),
+                        iv: data.iv,
+                        attachments: data.attachments,
+                        wrappedKey: data.wrappedKey
+                    };
+                    setIsBurned(data.burned);
+                    setExpiresAt(data.expiresAt);
+                } else {
+                    const { fields, cipherText } = await readBinaryFetch(response);
+                    note = { cipherText, iv: fields.iv, attachments: fields.attachments };
+                    setIsBurned(fields.burned);
+                    setExpiresAt(fields.expiresAt);
+                }
+                setEncryptedNote(note);
+            }
 
-                // Decrypt the content locally
-                const decrypted = await decryptText(cipher_text, iv, key);
-                setDecryptedContent(decrypted);
-            } catch (err) {
-                console.error('Error fetching or decrypting:', err);
-                setError('Failed to decrypt note. The key might be incorrect.');
-            } finally {
-                setIsLoading(false);
+            // Decrypt the content locally, large notes a segment at a time
+            const secret = note.wrappedKey ? await unwrapNoteKey(note.wrappedKey, key) : key;
+            const decrypted = await decryptNoteStream(note.cipherText, note.iv, secret);
+            setDecryptedContent(decrypted.text);
+            setContentMetadata(decrypted.metadata);
+            setIsBlurred(!!decrypted.metadata.blur);
+            setNoteKey(secret);
+            setIsRevealed(true);
+        } catch (err) {
+            if (needsPassword && isWrongKeyError(err)) {
+                setPasswordError('Incorrect password. Please try again.');
+                return;
+            }
+            console.error('Error fetching or decrypting:', err);
+            setError('Failed to decrypt note. The key might be incorrect.');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    // While the note is shown, count down to its expiry and to the sender's idle
+    // timeout, and clear the plaintext from state (and so the page) when either runs out
+    useEffect(() => {
+        if (!isRevealed) return;
+
+        const idleTimeout = contentMetadata.idleTimeout;
+        const markActive = () => {
+            lastActivity.current = Date.now();
+        };
+        const wipe = (reason: 'expired' | 'idle') => {
+            setDecryptedContent('');
+            setContentMetadata({ contentType: 'plain' });
+            setNoteKey('');
+            setEncryptedNote(null);
+            setIsRevealed(false);
+            setWipedReason(reason);
+        };
+        const tick = () => {
+            const current = Date.now();
+            setNow(current);
+            if (expiresAt !== null && current >= expiresAt * 1000) {
+                wipe('expired');
+            } else if (idleTimeout && current - lastActivity.current >= idleTimeout * 1000) {
+                wipe('idle');
             }
         };
 
-        fetchAndDecrypt();
-    }, [idKey]);
+        markActive();
+        tick();
+        for (const event of ACTIVITY_EVENTS) {
+            window.addEventListener(event, markActive, { passive: true });
+        }
+        const timer = setInterval(tick, 1000);
+        return () => {
+            clearInterval(timer);
+            for (const event of ACTIVITY_EVENTS) {
+                window.removeEventListener(event, markActive);
+            }
+        };
+    }, [isRevealed, expiresAt, contentMetadata.idleTimeout]);
+
+    const submitPassword = (e: FormEvent) => {
+        e.preventDefault();
+        if (password) {
+            revealNote(password);
+        }
+    };
+
+    const saveAttachment = async (attachment: AttachmentInfo) => {
+        setDownloadingId(attachment.id);
+
+        try {
+            const file = await downloadAttachment(attachment, noteKey);
+            setAttachmentNames(names => ({ ...names, [attachment.id]: file.name }));
+
+            const url = URL.createObjectURL(file);
+            const anchor = document.createElement('a');
+            anchor.href = url;
+            anchor.download = file.name;
+            anchor.click();
+            URL.revokeObjectURL(url);
+        } catch (err) {
+            console.error('Error downloading attachment:', err);
+            alert('Failed to download attachment. It may have expired.');
+        } finally {
+            setDownloadingId('');
+        }
+    };
 
     const copyToClipboard = () => {
         navigator.clipboard.writeText(decryptedContent);
@@ -89,7 +303,7 @@ function ViewNote() {
             <div className="h-screen flex items-center justify-center bg-black">
                 <div className="text-center">
                     <Loader2 className="w-12 h-12 text-emerald-400 animate-spin mx-auto mb-4" />
-                    <p className="text-slate-500">Decrypting your note...</p>
+                    <p className="text-slate-500">{meta ? 'Decrypting your note...' : 'Loading note...'}</p>
                 </div>
             </div>
         );
@@ -115,15 +329,135 @@ function ViewNote() {
         );
     }
 
+    if (wipedReason) {
+        return (
+            <div className="h-screen flex items-center justify-center bg-black">
+                <div className="text-center max-w-md mx-4">
+                    <div className="bg-[#0a0a0a] border-2 border-orange-500/30 p-6">
+                        <h2 className="text-xl font-bold text-orange-400 mb-3">Note cleared</h2>
+                        <p className="text-slate-300 mb-4 text-sm">
+                            {wipedReason === 'expired'
+                                ? 'This note has expired, so it was cleared from this page.'
+                                : 'This note was cleared from this page after a period of inactivity.'}
+                            {wipedReason === 'idle' && !isBurned && ' Open the link again to read it, if it has views left.'}
+                        </p>
+                        <button
+                            onClick={goHome}
+                            className="bg-emerald-600 hover:bg-emerald-500 text-white font-bold px-4 py-2 border-2 border-emerald-600 hover:border-emerald-500 transition-all flex items-center gap-2 mx-auto shadow-[2px_2px_0_0_rgba(0,0,0,0.3)] text-sm"
+                        >
+                            <ArrowLeft className="w-4 h-4" />
+                            Go Home
+                        </button>
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
+    if (!isRevealed && meta) {
+        return (
+            <div className="h-screen flex items-center justify-center bg-black">
+                <div className="text-center max-w-md w-full mx-4">
+                    <div className="bg-[#0a0a0a] border-2 border-emerald-500/30 p-6">
+                        <h2 className="text-xl font-bold text-emerald-400 mb-3">You've received an encrypted note</h2>
+                        <div className="text-slate-400 text-xs space-y-1 mb-4">
+                            <p>Expires {new Date(meta.expiresAt * 1000).toLocaleString()}</p>
+                            {meta.remainingViews !== null && (
+                                <p>
+                                    {meta.remainingViews} {meta.remainingViews === 1 ? 'view' : 'views'} remaining
+                                </p>
+                            )}
+                            {meta.attachments.length > 0 && (
+                                <p>
+                                    {meta.attachments.length} encrypted {meta.attachments.length === 1 ? 'attachment' : 'attachments'}
+                                </p>
+                            )}
+                        </div>
+                        {meta.remainingViews === 1 && !encryptedNote && (
+                            <div className="bg-black border-2 border-orange-500/30 p-3 mb-4 flex items-start gap-2 text-left">
+                                <Flame className="w-4 h-4 text-orange-400 shrink-0" />
+                                <p className="text-xs text-slate-400">
+                                    {recipientId ? 'Your link will stop working' : 'This note will be destroyed'} as soon as you {needsPassword ? 'unlock' : 'reveal'} it.
+                                    {needsPassword && ' If you mistype the password you can retry as long as you stay on this page.'}
+                                </p>
+                            </div>
+                        )}
+                        {needsPassword ? (
+                            <form onSubmit={submitPassword} className="text-left">
+                                <label className="block text-xs font-medium text-slate-300 mb-1.5">
+                                    This note is password protected
+                                </label>
+                                <input
+                                    type="password"
+                                    value={password}
+                                    onChange={(e) => setPassword(e.target.value)}
+                                    placeholder="Enter the password you were given"
+                                    autoFocus
+                                    className="w-full px-3 py-2 bg-black border-2 border-emerald-900/30 text-white placeholder-slate-600 focus:outline-none focus:border-emerald-500 transition-colors text-sm"
+                                />
+                                {passwordError && (
+                                    <p className="mt-1.5 text-xs text-red-400">{passwordError}</p>
+                                )}
+                                <button
+                                    type="submit"
+                                    disabled={!password}
+                                    className="mt-4 bg-emerald-600 hover:bg-emerald-500 disabled:bg-[#111111] disabled:border-emerald-900/30 disabled:cursor-not-allowed text-white font-bold px-4 py-2 border-2 border-emerald-600 hover:border-emerald-500 transition-all flex items-center gap-2 mx-auto shadow-[2px_2px_0_0_rgba(0,0,0,0.3)] text-sm"
+                                >
+                                    <Lock className="w-4 h-4" />
+                                    Unlock
+                                </button>
+                            </form>
+                        ) : (
+                            <button
+                                onClick={() => link?.key && revealNote(link.key)}
+                                className="bg-emerald-600 hover:bg-emerald-500 text-white font-bold px-4 py-2 border-2 border-emerald-600 hover:border-emerald-500 transition-all flex items-center gap-2 mx-auto shadow-[2px_2px_0_0_rgba(0,0,0,0.3)] text-sm"
+                            >
+                                <Eye className="w-4 h-4" />
+                                Click to reveal
+                            </button>
+                        )}
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
     return (
         <div className="h-screen flex flex-col bg-black text-white overflow-hidden">
             <nav className="bg-[#0a0a0a] border-b-2 border-emerald-500/30 px-4 py-2 flex items-center justify-between">
                 <div className="flex items-center gap-2">
                     <h1 className="text-lg font-bold text-emerald-400">{import.meta.env.VITE_SITE_NAME || "TXTOO"}</h1>
                     <span className="text-slate-500 text-xs">Viewing Note</span>
+                    {expiresAt !== null && (
+                        <span
+                            className="text-slate-400 text-xs font-mono flex items-center gap-1"
+                            title={`Expires ${new Date(expiresAt * 1000).toLocaleString()}`}
+                        >
+                            <Timer className="w-3 h-3" />
+                            Expires in {formatCountdown(expiresAt * 1000 - now)}
+                        </span>
+                    )}
                 </div>
 
                 <div className="flex gap-2">
+                    <button
+                        onClick={() => setIsBlurred(!isBlurred)}
+                        className="bg-[#111111] hover:bg-[#1a1a1a] text-white font-bold px-4 py-1.5 border-2 border-emerald-900/30 hover:border-emerald-500/30 transition-all flex items-center gap-2 shadow-[2px_2px_0_0_rgba(0,0,0,0.3)] text-sm"
+                        title={isBlurred ? 'Show the note' : 'Blur the note, e.g. while sharing your screen'}
+                    >
+                        {isBlurred ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+                        {isBlurred ? 'Unblur' : 'Blur'}
+                    </button>
+                    {contentMetadata.contentType !== 'plain' && (
+                        <button
+                            onClick={() => setShowRaw(!showRaw)}
+                            className="bg-[#111111] hover:bg-[#1a1a1a] text-white font-bold px-4 py-1.5 border-2 border-emerald-900/30 hover:border-emerald-500/30 transition-all flex items-center gap-2 shadow-[2px_2px_0_0_rgba(0,0,0,0.3)] text-sm"
+                            title={showRaw ? 'Show formatted' : 'Show raw text'}
+                        >
+                            {showRaw ? <Eye className="w-4 h-4" /> : <Code className="w-4 h-4" />}
+                            {showRaw ? 'Formatted' : 'Raw'}
+                        </button>
+                    )}
                     <button
                         onClick={copyToClipboard}
                         className="bg-emerald-600 hover:bg-emerald-500 text-white font-bold px-4 py-1.5 border-2 border-emerald-600 hover:border-emerald-500 transition-all flex items-center gap-2 shadow-[2px_2px_0_0_rgba(0,0,0,0.3)] text-sm"
@@ -141,12 +475,66 @@ function ViewNote() {
                 </div>
             </nav>
 
+            {isBurned && (
+                <div className="bg-[#0a0a0a] border-b-2 border-orange-500/30 px-4 py-2 flex items-center gap-2">
+                    <Flame className="w-4 h-4 text-orange-400 shrink-0" />
+                    <p className="text-xs text-orange-300">
+                        {recipientId ? 'Your link has now been used up.' : 'This note has now been destroyed.'} It can't be opened again, so copy anything you need before leaving this page.
+                    </p>
+                </div>
+            )}
+
+            {!!contentMetadata.idleTimeout && now - lastActivity.current > contentMetadata.idleTimeout * 1000 - IDLE_WARNING && (
+                <div className="bg-[#0a0a0a] border-b-2 border-orange-500/30 px-4 py-2 flex items-center gap-2">
+                    <Timer className="w-4 h-4 text-orange-400 shrink-0" />
+                    <p className="text-xs text-orange-300">
+                        This note will be cleared from the page in {formatCountdown(lastActivity.current + contentMetadata.idleTimeout * 1000 - now)} unless you move the mouse or press a key.
+                    </p>
+                </div>
+            )}
+
+            {encryptedNote && encryptedNote.attachments.length > 0 && (
+                <div className="bg-[#0a0a0a] border-b-2 border-emerald-500/30 px-4 py-2 flex flex-wrap items-center gap-2">
+                    <Paperclip className="w-4 h-4 text-emerald-400" />
+                    {encryptedNote.attachments.map((attachment, index) => (
+                        <button
+                            key={attachment.id}
+                            onClick={() => saveAttachment(attachment)}
+                            disabled={downloadingId === attachment.id}
+                            className="flex items-center gap-2 bg-black border-2 border-emerald-900/30 hover:border-emerald-500/30 px-2 py-1 text-xs transition-all disabled:cursor-wait"
+                        >
+                            {downloadingId === attachment.id
+                                ? <Loader2 className="w-4 h-4 text-emerald-400 animate-spin" />
+                                : <Download className="w-4 h-4 text-emerald-400" />}
+                            <span className="text-white max-w-[12rem] truncate">
+                                {attachmentNames[attachment.id] ?? `Attachment ${index + 1}`}
+                            </span>
+                            <span className="text-slate-500">{formatBytes(attachment.size)}</span>
+                        </button>
+                    ))}
+                </div>
+            )}
+
             <div className="flex-1 overflow-auto">
                 <div className="p-4">
-                    <div className="bg-[#0a0a0a] border-2 border-emerald-500/20 p-4">
-                        <pre className="text-white font-mono text-sm leading-relaxed whitespace-pre-wrap break-words">
-                            {decryptedContent}
-                        </pre>
+                    <div
+                        onClick={() => setIsBlurred(false)}
+                        title={isBlurred ? 'Hover to read, click to unblur' : undefined}
+                        className={`bg-[#0a0a0a] border-2 border-emerald-500/20 p-4 ${isBlurred ? 'blur-md hover:blur-none transition-[filter] cursor-pointer select-none' : ''}`}
+                    >
+                        {isRendered && contentMetadata.contentType === 'markdown' && (
+                            <div className="markdown-body" dangerouslySetInnerHTML={{ __html: renderedContent }} />
+                        )}
+                        {isRendered && contentMetadata.contentType === 'code' && (
+                            <pre className="font-mono text-sm leading-relaxed overflow-x-auto">
+                                <code className="hljs !bg-transparent !p-0" dangerouslySetInnerHTML={{ __html: renderedContent }} />
+                            </pre>
+                        )}
+                        {!isRendered && (
+                            <pre className="text-white font-mono text-sm leading-relaxed whitespace-pre-wrap break-words">
+                                {decryptedContent}
+                            </pre>
+                        )}
                     </div>
                 </div>
             </div>
@@ -0,0 +1,20 @@
+import { API_VERSION, decodeBinaryBody, type BinaryFetchResponse } from '../../shared/api';
+
+// Build a URL for a worker endpoint, e.g. apiUrl('/submit'). VITE_WORKERS_URL is
+// the worker's `/api` base; without it the API is expected on this origin.
+export function apiUrl(path: string): string {
+    const apiBase = (import.meta.env.VITE_WORKERS_URL || '/api').replace(/\/$/, '');
+    return `${apiBase}/${API_VERSION}${path}`;
+}
+
+/**
+ * Read a `/fetch/{id}` response requested with `Accept: application/octet-stream`,
+ * keeping the ciphertext as the raw bytes `decryptNoteStream` takes
+ */
+export async function readBinaryFetch(response: Response): Promise<{ fields: BinaryFetchResponse; cipherText: Uint8Array }> {
+    const body = decodeBinaryBody<BinaryFetchResponse>(new Uint8Array(await response.arrayBuffer()));
+    if (!body) {
+        throw new Error('Invalid note response');
+    }
+    return { fields: body.fields, cipherText: body.data };
+}
@@ -0,0 +1,80 @@
+import { apiUrl } from './api';
+import { encryptFile, decryptFile, type KeyMode } from './crypto';
+import type { ApiSuccess, AttachmentInfo, UploadRequest, UploadResponse } from '../../shared/api';
+
+export type { AttachmentInfo };
+
+// Limits enforced by the worker (the size limit applies to the encrypted file)
+export const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024;
+export const MAX_ATTACHMENTS = 5;
+
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Encrypt a file and upload it in chunks, returning the attachment ID to
+ * submit with the note
+ */
+export async function uploadAttachment(file: File, secret: string, keyMode: KeyMode): Promise<string> {
+    const encrypted = await encryptFile(file, secret, keyMode);
+
+    const response = await fetch(apiUrl('/attachments'), {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ size: encrypted.length } satisfies UploadRequest),
+    });
+    if (!response.ok) {
+        throw new Error(`Failed to start upload of ${file.name}`);
+    }
+
+    const { data }: ApiSuccess<UploadResponse> = await response.json();
+
+    for (let index = 0; index < data.chunkCount; index++) {
+        const chunk = encrypted.subarray(index * data.chunkSize, (index + 1) * data.chunkSize);
+        const chunkResponse = await fetch(apiUrl(`/attachments/${data.id}/chunks/${index}`), {
+            method: 'PUT',
+            headers: {
+                'Content-Type': 'application/octet-stream',
+            },
+            body: chunk as BufferSource,
+        });
+        if (!chunkResponse.ok) {
+            throw new Error(`Failed to upload ${file.name}`);
+        }
+    }
+
+    return data.id;
+}
+
+/**
+ * Download an attachment's chunks and decrypt them back into the original file
+ */
+export async function downloadAttachment(attachment: AttachmentInfo, secret: string): Promise<File> {
+    const encrypted = new Uint8Array(attachment.size);
+    let offset = 0;
+
+    for (let index = 0; index < attachment.chunkCount; index++) {
+        const response = await fetch(apiUrl(`/attachments/${attachment.id}/chunks/${index}`));
+        if (!response.ok) {
+            throw new Error('Failed to download attachment');
+        }
+
+        const chunk = new Uint8Array(await response.arrayBuffer());
+        if (offset + chunk.length > encrypted.length) {
+            throw new Error('Attachment is larger than expected');
+        }
+        encrypted.set(chunk, offset);
+        offset += chunk.length;
+    }
+
+    if (offset !== attachment.size) {
+        throw new Error('Attachment is incomplete');
+    }
+
+    return decryptFile(encrypted, secret);
+}
@@ -1,4 +1,92 @@
-function base64urlEncode(buffer: ArrayBuffer): string {
+// Envelope format versions. Version 0 is the original unversioned layout
+// (16-byte salt followed by the AES-GCM output, IV stored separately).
+// Version 2 has the same header as version 1, but its plaintext is a payload:
+// [metadata length u32 BE][metadata JSON][body]
+// Version 3 carries the same payload, encrypted in segments of SEGMENT_SIZE
+// bytes that are each their own AES-GCM message (see segmentIv), so it can be
+// decrypted as it arrives.
+const ENVELOPE_V1 = 1;
+const ENVELOPE_V2 = 2;
+const ENVELOPE_V3 = 3;
+
+// Key derivation functions that can be recorded in an envelope.
+// KDF_NONE means the secret already is a random 256-bit AES key.
+const KDF_NONE = 0;
+const KDF_PBKDF2_SHA256 = 1;
+
+// Iterations for new password-based envelopes (OWASP's recommendation for
+// PBKDF2-SHA256). v0 notes used 100,000, which is still accepted on decrypt.
+const PBKDF2_ITERATIONS = 600000;
+const V0_PBKDF2_ITERATIONS = 100000;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+// AES-GCM appends a 16-byte authentication tag to the ciphertext
+const GCM_TAG_LENGTH = 16;
+const RAW_KEY_LENGTH = 32;
+// Plaintext bytes per version 3 segment; the last one may be shorter
+const SEGMENT_SIZE = 64 * 1024;
+// Longest possible envelope header: PBKDF2 params with a 255-byte salt, and a 255-byte IV
+const MAX_HEADER_LENGTH = 3 + 5 + 255 + 255;
+// Compressed notes are refused past this size once decompressed, so a small
+// note can't expand into enough text to hang the viewer's tab
+const MAX_DECOMPRESSED_SIZE = 64 * 1024 * 1024;
+
+/**
+ * How the secret passed to `encryptText` becomes an AES key:
+ * - `password`: a human-chosen password, stretched with PBKDF2
+ * - `raw`: a base64url-encoded 256-bit key from `generateKey`, used directly
+ */
+export type KeyMode = 'password' | 'raw';
+
+type KdfParams =
+    | { id: typeof KDF_NONE }
+    | { id: typeof KDF_PBKDF2_SHA256; iterations: number; salt: Uint8Array };
+
+/**
+ * How a note's text should be displayed, stored inside its ciphertext so the
+ * server never learns it. `language` is set for `code` notes.
+ */
+export type ContentType = 'plain' | 'markdown' | 'code';
+
+const CONTENT_TYPES: ContentType[] = ['plain', 'markdown', 'code'];
+
+/**
+ * `CompressionStream` formats a note's text can be compressed with before it
+ * is encrypted. `deflate-raw` has the least overhead.
+ */
+export type Compression = 'deflate-raw' | 'gzip';
+
+const COMPRESSIONS: Compression[] = ['deflate-raw', 'gzip'];
+
+export interface NoteMetadata {
+    contentType: ContentType;
+    language?: string;
+    // Set when the text was compressed before encryption
+    compression?: Compression;
+    // Seconds without any interaction after which the viewer clears the note
+    idleTimeout?: number;
+    // Blur the note in the viewer until it is hovered or clicked
+    blur?: boolean;
+}
+
+/**
+ * Original name and MIME type of an attachment, stored inside its ciphertext
+ */
+export interface AttachmentMetadata {
+    name: string;
+    type: string;
+}
+
+interface Envelope {
+    version: number;
+    kdf: KdfParams;
+    iv: Uint8Array;
+    // Everything before the ciphertext, authenticated as AES-GCM additional data
+    header: Uint8Array;
+    data: Uint8Array;
+}
+
+export function base64urlEncode(buffer: ArrayBufferLike): string {
     const bytes = new Uint8Array(buffer);
     let binary = '';
     for (let i = 0; i < bytes.length; i++) {
@@ -10,7 +98,7 @@ function base64urlEncode(buffer: ArrayBuffer): string {
         .replace(/=/g, '');
 }
 
-function base64urlDecode(str: string): Uint8Array {
+export function base64urlDecode(str: string): Uint8Array {
     str = str.replace(/-/g, '+').replace(/_/g, '/');
     while (str.length % 4) {
         str += '=';
@@ -23,7 +111,27 @@ function base64urlDecode(str: string): Uint8Array {
     return bytes;
 }
 
-async function deriveKey(password: string, salt: Uint8Array): Promise<CryptoKey> {
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+    if (parts.length === 1) return parts[0];
+
+    const bytes = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        bytes.set(part, offset);
+        offset += part.length;
+    }
+    return bytes;
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+    if (a.length !== b.length) return false;
+    for (let i = 0; i < a.length; i++) {
+        if (a[i] !== b[i]) return false;
+    }
+    return true;
+}
+
+async function deriveKey(password: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
     const encoder = new TextEncoder();
     const passwordBuffer = encoder.encode(password);
 
@@ -39,7 +147,7 @@ async function deriveKey(password: string, salt: Uint8Array): Promise<CryptoKey>
         {
             name: 'PBKDF2',
             salt: salt as BufferSource,
-            iterations: 100000,
+            iterations,
             hash: 'SHA-256'
         },
         keyMaterial,
@@ -49,29 +157,386 @@ async function deriveKey(password: string, salt: Uint8Array): Promise<CryptoKey>
     );
 }
 
-export async function encryptText(text: string, password: string): Promise<{ cipherText: string; iv: string }> {
-    const encoder = new TextEncoder();
-    const data = encoder.encode(text);
+async function importRawKey(key: string): Promise<CryptoKey> {
+    const keyBytes = base64urlDecode(key);
+    if (keyBytes.length !== RAW_KEY_LENGTH) {
+        throw new Error('Invalid key length');
+    }
+
+    return crypto.subtle.importKey(
+        'raw',
+        keyBytes as BufferSource,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+}
+
+function getKey(secret: string, kdf: KdfParams): Promise<CryptoKey> {
+    return kdf.id === KDF_NONE
+        ? importRawKey(secret)
+        : deriveKey(secret, kdf.salt, kdf.iterations);
+}
 
-    const salt = crypto.getRandomValues(new Uint8Array(16));
-    const iv = crypto.getRandomValues(new Uint8Array(12));
+/**
+ * Generate a random 256-bit AES key, base64url-encoded for use in share links
+ * with the `raw` key mode
+ */
+export function generateKey(): string {
+    return base64urlEncode(crypto.getRandomValues(new Uint8Array(RAW_KEY_LENGTH)).buffer);
+}
 
-    const key = await deriveKey(password, salt);
+/**
+ * Serialize an envelope header:
+ *   [version][kdf id][kdf params][iv length][iv]
+ * where the PBKDF2 params are [iterations u32 BE][salt length][salt]
+ * and KDF_NONE has no params
+ */
+function encodeHeader(version: number, kdf: KdfParams, iv: Uint8Array): Uint8Array {
+    const paramsLength = kdf.id === KDF_PBKDF2_SHA256 ? 5 + kdf.salt.length : 0;
+    const header = new Uint8Array(3 + paramsLength + iv.length);
+    const view = new DataView(header.buffer);
+    let offset = 0;
 
-    const encryptedData = await crypto.subtle.encrypt(
+    header[offset++] = version;
+    header[offset++] = kdf.id;
+    if (kdf.id === KDF_PBKDF2_SHA256) {
+        view.setUint32(offset, kdf.iterations);
+        offset += 4;
+        header[offset++] = kdf.salt.length;
+        header.set(kdf.salt, offset);
+        offset += kdf.salt.length;
+    }
+    header[offset++] = iv.length;
+    header.set(iv, offset);
+
+    return header;
+}
+
+/**
+ * Parse an envelope, returning null if the bytes are not a well-formed
+ * envelope of a known version
+ */
+function parseEnvelope(bytes: Uint8Array): Envelope | null {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 0;
+
+    if (bytes.length < 2) return null;
+    const version = bytes[offset++];
+    if (version !== ENVELOPE_V1 && version !== ENVELOPE_V2 && version !== ENVELOPE_V3) return null;
+
+    let kdf: KdfParams;
+    const kdfId = bytes[offset++];
+    if (kdfId === KDF_NONE) {
+        kdf = { id: KDF_NONE };
+    } else if (kdfId === KDF_PBKDF2_SHA256) {
+        if (bytes.length < offset + 5) return null;
+        const iterations = view.getUint32(offset);
+        offset += 4;
+        const saltLength = bytes[offset++];
+        if (bytes.length < offset + saltLength) return null;
+        const salt = bytes.slice(offset, offset + saltLength);
+        offset += saltLength;
+        kdf = { id: KDF_PBKDF2_SHA256, iterations, salt };
+    } else {
+        return null;
+    }
+
+    if (bytes.length < offset + 1) return null;
+    const ivLength = bytes[offset++];
+    if (bytes.length < offset + ivLength) return null;
+    const iv = bytes.slice(offset, offset + ivLength);
+    offset += ivLength;
+
+    return {
+        version,
+        kdf,
+        iv,
+        header: bytes.slice(0, offset),
+        data: bytes.slice(offset)
+    };
+}
+
+function encodePayload(metadata: object, body: Uint8Array): Uint8Array {
+    const metadataBytes = new TextEncoder().encode(JSON.stringify(metadata));
+    const payload = new Uint8Array(4 + metadataBytes.length + body.length);
+    new DataView(payload.buffer).setUint32(0, metadataBytes.length);
+    payload.set(metadataBytes, 4);
+    payload.set(body, 4 + metadataBytes.length);
+    return payload;
+}
+
+function decodePayload(payload: Uint8Array): { metadata: Record<string, unknown>; body: Uint8Array } {
+    const metadataLength = new DataView(payload.buffer, payload.byteOffset, payload.byteLength).getUint32(0);
+    const metadataBytes = payload.subarray(4, 4 + metadataLength);
+    return {
+        metadata: JSON.parse(new TextDecoder().decode(metadataBytes)),
+        body: payload.subarray(4 + metadataLength)
+    };
+}
+
+async function compress(data: Uint8Array, format: Compression): Promise<Uint8Array> {
+    const stream = new Blob([data as BufferSource]).stream().pipeThrough(new CompressionStream(format));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function streamOf(bytes: Uint8Array): ReadableStream<Uint8Array> {
+    return new ReadableStream({
+        start(controller) {
+            controller.enqueue(bytes);
+            controller.close();
+        }
+    });
+}
+
+interface ByteReader {
+    // Up to `length` bytes, fewer only once the stream has ended
+    read(length: number): Promise<Uint8Array>;
+    // Put bytes back, to be read before the rest
+    unread(bytes: Uint8Array): void;
+    // Everything not read yet, as a stream
+    rest(): ReadableStream<Uint8Array>;
+    cancel(): Promise<void>;
+}
+
+// Reads a stream in pieces of the caller's choosing, whatever sizes it arrives in
+function byteReader(stream: ReadableStream<Uint8Array>): ByteReader {
+    const reader = stream.getReader();
+    let buffered: Uint8Array = new Uint8Array(0);
+    let done = false;
+
+    return {
+        async read(length) {
+            const parts = [buffered];
+            let available = buffered.length;
+            while (available < length && !done) {
+                const result = await reader.read();
+                if (result.done) {
+                    done = true;
+                } else {
+                    parts.push(result.value);
+                    available += result.value.length;
+                }
+            }
+
+            const bytes = concatBytes(parts);
+            buffered = bytes.subarray(Math.min(length, bytes.length));
+            return bytes.subarray(0, length);
+        },
+        unread(bytes) {
+            buffered = concatBytes([bytes, buffered]);
+        },
+        rest() {
+            return new ReadableStream({
+                pull: async controller => {
+                    if (buffered.length > 0) {
+                        controller.enqueue(buffered);
+                        buffered = new Uint8Array(0);
+                        return;
+                    }
+                    const result = await reader.read();
+                    if (result.done) {
+                        controller.close();
+                    } else {
+                        controller.enqueue(result.value);
+                    }
+                },
+                cancel: reason => reader.cancel(reason)
+            });
+        },
+        cancel: () => reader.cancel()
+    };
+}
+
+// Decode UTF-8 as it arrives, so the text is the only full copy of it.
+// Fails once more than `limit` bytes have been read.
+async function readText(stream: ReadableStream<Uint8Array>, limit = Infinity): Promise<string> {
+    const reader = stream.getReader();
+    const decoder = new TextDecoder();
+    let text = '';
+    let length = 0;
+
+    for (let result = await reader.read(); !result.done; result = await reader.read()) {
+        length += result.value.length;
+        if (length > limit) {
+            await reader.cancel();
+            throw new Error('Note is too large once decompressed');
+        }
+        text += decoder.decode(result.value, { stream: true });
+    }
+    return text + decoder.decode();
+}
+
+/**
+ * Size in bytes of `text` once compressed with `format`, so the sender can see
+ * what compression saves before encrypting
+ */
+export async function compressedSize(text: string, format: Compression): Promise<number> {
+    return (await compress(new TextEncoder().encode(text), format)).length;
+}
+
+/**
+ * Nonce of segment `index` of a version 3 envelope: its IV with the index
+ * XORed into bytes 7-10, and byte 11 flipped for the final segment. Segments
+ * can't be reordered, and cutting the ciphertext short at a segment boundary
+ * fails, as the new last segment wasn't encrypted as the final one.
+ */
+function segmentIv(iv: Uint8Array, index: number, final: boolean): Uint8Array {
+    const nonce = iv.slice();
+    const view = new DataView(nonce.buffer);
+    view.setUint32(7, view.getUint32(7) ^ index);
+    if (final) nonce[11] ^= 1;
+    return nonce;
+}
+
+async function encryptSegments(plaintext: Uint8Array, key: CryptoKey, iv: Uint8Array, header: Uint8Array): Promise<Uint8Array[]> {
+    const count = Math.max(1, Math.ceil(plaintext.length / SEGMENT_SIZE));
+    const segments: Uint8Array[] = [];
+
+    for (let index = 0; index < count; index++) {
+        const encrypted = await crypto.subtle.encrypt(
+            {
+                name: 'AES-GCM',
+                iv: segmentIv(iv, index, index === count - 1) as BufferSource,
+                additionalData: header as BufferSource
+            },
+            key,
+            plaintext.subarray(index * SEGMENT_SIZE, (index + 1) * SEGMENT_SIZE) as BufferSource
+        );
+        segments.push(new Uint8Array(encrypted));
+    }
+    return segments;
+}
+
+// The plaintext of a version 3 envelope whose header has been read, decrypted
+// a segment at a time as the stream is read
+function decryptSegments(reader: ByteReader, envelope: Envelope, key: CryptoKey): ReadableStream<Uint8Array> {
+    const segmentLength = SEGMENT_SIZE + GCM_TAG_LENGTH;
+    let segment: Uint8Array | null = null;
+    let index = 0;
+
+    return new ReadableStream({
+        pull: async controller => {
+            segment ??= await reader.read(segmentLength);
+            // Reading ahead is how the final segment is recognised
+            const next = segment.length === segmentLength ? await reader.read(segmentLength) : new Uint8Array(0);
+            const final = next.length === 0;
+
+            const decrypted = await crypto.subtle.decrypt(
+                {
+                    name: 'AES-GCM',
+                    iv: segmentIv(envelope.iv, index, final) as BufferSource,
+                    additionalData: envelope.header as BufferSource
+                },
+                key,
+                segment as BufferSource
+            );
+            controller.enqueue(new Uint8Array(decrypted));
+
+            if (final) {
+                controller.close();
+            } else {
+                segment = next;
+                index++;
+            }
+        },
+        cancel: () => reader.cancel()
+    });
+}
+
+/**
+ * Encrypt plaintext into a complete envelope (header followed by ciphertext)
+ */
+async function sealEnvelope(
+    plaintext: Uint8Array,
+    secret: string,
+    keyMode: KeyMode,
+    version: number
+): Promise<{ envelope: Uint8Array; iv: Uint8Array }> {
+    const kdf: KdfParams = keyMode === 'raw'
+        ? { id: KDF_NONE }
+        : {
+            id: KDF_PBKDF2_SHA256,
+            iterations: PBKDF2_ITERATIONS,
+            salt: crypto.getRandomValues(new Uint8Array(SALT_LENGTH))
+        };
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const header = encodeHeader(version, kdf, iv);
+
+    const key = await getKey(secret, kdf);
+
+    const encrypted = version === ENVELOPE_V3
+        ? await encryptSegments(plaintext, key, iv, header)
+        : [new Uint8Array(await crypto.subtle.encrypt(
+            {
+                name: 'AES-GCM',
+                iv: iv,
+                additionalData: header as BufferSource
+            },
+            key,
+            plaintext as BufferSource
+        ))];
+
+    return { envelope: concatBytes([header, ...encrypted]), iv };
+}
+
+async function decryptEnvelope(envelope: Envelope, secret: string): Promise<ArrayBuffer> {
+    const key = await getKey(secret, envelope.kdf);
+
+    return crypto.subtle.decrypt(
         {
             name: 'AES-GCM',
-            iv: iv
+            iv: envelope.iv as BufferSource,
+            additionalData: envelope.header as BufferSource
         },
         key,
-        data
+        envelope.data as BufferSource
     );
+}
+
+// Original format: salt prefix, fixed PBKDF2 parameters, IV stored separately
+async function decryptV0(combinedBuffer: Uint8Array, iv: Uint8Array, password: string): Promise<ArrayBuffer> {
+    const salt = combinedBuffer.slice(0, SALT_LENGTH);
+    const encryptedData = combinedBuffer.slice(SALT_LENGTH);
 
-    const combinedBuffer = new Uint8Array(salt.length + encryptedData.byteLength);
-    combinedBuffer.set(salt, 0);
-    combinedBuffer.set(new Uint8Array(encryptedData), salt.length);
+    const key = await deriveKey(password, salt, V0_PBKDF2_ITERATIONS);
 
-    const cipherText = base64urlEncode(combinedBuffer.buffer);
+    return crypto.subtle.decrypt(
+        {
+            name: 'AES-GCM',
+            iv: iv as BufferSource
+        },
+        key,
+        encryptedData
+    );
+}
+
+/**
+ * Encrypt a note's text. With `metadata` the note is a version 2 envelope that
+ * carries it, or version 3 once the payload is longer than one segment; without,
+ * a version 1 envelope of the bare text. When `metadata.compression` is set the
+ * text is compressed first, and since the flag is inside the ciphertext the
+ * server can't tell.
+ */
+export async function encryptText(
+    text: string,
+    secret: string,
+    keyMode: KeyMode = 'password',
+    metadata?: NoteMetadata
+): Promise<{ cipherText: string; iv: string }> {
+    const encoder = new TextEncoder();
+    const data = encoder.encode(text);
+
+    const payload = metadata
+        ? encodePayload(metadata, metadata.compression ? await compress(data, metadata.compression) : data)
+        : null;
+    // Short notes stay version 2, which viewers from before version 3 can read
+    const { envelope, iv } = payload
+        ? await sealEnvelope(payload, secret, keyMode, payload.length > SEGMENT_SIZE ? ENVELOPE_V3 : ENVELOPE_V2)
+        : await sealEnvelope(data, secret, keyMode, ENVELOPE_V1);
+
+    const cipherText = base64urlEncode(envelope.buffer);
+    // The IV is also sent on its own, as the API has always required it
     const ivString = base64urlEncode(iv.buffer);
 
     return {
@@ -80,24 +545,324 @@ export async function encryptText(text: string, password: string): Promise<{ cip
     };
 }
 
-export async function decryptText(cipherText: string, ivString: string, password: string): Promise<string> {
-    const combinedBuffer = base64urlDecode(cipherText);
+/**
+ * Length of the base64url cipherText that `encryptText` produces for a text of
+ * `bodyLength` bytes (after compression, if any), without doing the encryption
+ */
+export function encryptedLength(bodyLength: number, keyMode: KeyMode = 'password', metadata?: NoteMetadata): number {
+    const kdfParamsLength = keyMode === 'raw' ? 0 : 5 + SALT_LENGTH;
+    const headerLength = 3 + kdfParamsLength + IV_LENGTH;
+    const metadataLength = metadata ? 4 + new TextEncoder().encode(JSON.stringify(metadata)).length : 0;
+    const plaintextLength = metadataLength + bodyLength;
+    // Version 3 has a tag per segment
+    const tags = metadata && plaintextLength > SEGMENT_SIZE ? Math.ceil(plaintextLength / SEGMENT_SIZE) : 1;
+    const envelopeLength = headerLength + plaintextLength + tags * GCM_TAG_LENGTH;
+    return Math.ceil(envelopeLength * 4 / 3);
+}
+
+/**
+ * Length of the base64url cipherText that `encryptText` produces for
+ * uncompressed `text`, so the size limit can be checked while typing
+ */
+export function encryptedTextLength(text: string, keyMode: KeyMode = 'password', metadata?: NoteMetadata): number {
+    return encryptedLength(new TextEncoder().encode(text).length, keyMode, metadata);
+}
+
+/**
+ * Decrypt a note. `secret` is either a password or a raw key; the envelope
+ * records which, so callers don't need to know.
+ */
+export async function decryptText(cipherText: string, ivString: string, secret: string): Promise<string> {
+    return (await decryptNote(cipherText, ivString, secret)).text;
+}
+
+// A note's metadata, checking what the viewer will act on
+function noteMetadata(metadata: Record<string, unknown>): NoteMetadata {
+    const note = { contentType: 'plain', ...metadata } as NoteMetadata;
+    // A format this viewer doesn't know is shown as plain text rather than not at all
+    if (!CONTENT_TYPES.includes(note.contentType)) {
+        note.contentType = 'plain';
+    }
+    if (note.compression !== undefined && !COMPRESSIONS.includes(note.compression)) {
+        throw new Error('Unsupported compression');
+    }
+    // An idle timeout that can't be counted down is ignored rather than refused
+    if (note.idleTimeout !== undefined && !(Number.isFinite(note.idleTimeout) && note.idleTimeout > 0)) {
+        delete note.idleTimeout;
+    }
+    return note;
+}
+
+// The text of a payload's body, decompressed if its metadata says so
+function readBody(body: ReadableStream<Uint8Array>, metadata: NoteMetadata): Promise<string> {
+    return metadata.compression
+        ? readText((body as ReadableStream<BufferSource>).pipeThrough(new DecompressionStream(metadata.compression)), MAX_DECOMPRESSED_SIZE)
+        : readText(body);
+}
+
+/**
+ * Decrypt a note along with its display metadata. Notes without metadata
+ * (versions 0 and 1) are plain text.
+ */
+export async function decryptNote(
+    cipherText: string,
+    ivString: string,
+    secret: string
+): Promise<{ text: string; metadata: NoteMetadata }> {
+    return decryptNoteStream(base64urlDecode(cipherText), ivString, secret);
+}
+
+/**
+ * Decrypt a note from its raw ciphertext, or a stream of it such as the rest
+ * of a binary `/fetch` response. Version 3 notes are decrypted a segment at a
+ * time, so the plaintext is never held as bytes and as text at once; older
+ * versions are read whole first.
+ */
+export async function decryptNoteStream(
+    cipherText: Uint8Array | ReadableStream<Uint8Array>,
+    ivString: string,
+    secret: string
+): Promise<{ text: string; metadata: NoteMetadata }> {
     const iv = base64urlDecode(ivString);
+    const reader = byteReader(cipherText instanceof Uint8Array ? streamOf(cipherText) : cipherText);
+    const start = await reader.read(MAX_HEADER_LENGTH);
+
+    // A v0 ciphertext starts with a random salt, so it could happen to look like
+    // an envelope header. Only treat it as one when the embedded IV also matches
+    // the IV stored alongside it.
+    const envelope = parseEnvelope(start);
+    if (!envelope || !bytesEqual(envelope.iv, iv)) {
+        const combinedBuffer = concatBytes([start, await reader.read(Infinity)]);
+        return {
+            text: new TextDecoder().decode(await decryptV0(combinedBuffer, iv, secret)),
+            metadata: { contentType: 'plain' }
+        };
+    }
+
+    if (envelope.version !== ENVELOPE_V3) {
+        const whole = { ...envelope, data: concatBytes([envelope.data, await reader.read(Infinity)]) };
+        const decryptedData = new Uint8Array(await decryptEnvelope(whole, secret));
+        if (envelope.version !== ENVELOPE_V2) {
+            return { text: new TextDecoder().decode(decryptedData), metadata: { contentType: 'plain' } };
+        }
+
+        const payload = decodePayload(decryptedData);
+        const metadata = noteMetadata(payload.metadata);
+        return { text: await readBody(streamOf(payload.body), metadata), metadata };
+    }
+
+    if (envelope.iv.length !== IV_LENGTH) {
+        throw new Error('Invalid note format');
+    }
+    // What was read past the header is the start of the first segment
+    reader.unread(envelope.data);
+    const payload = byteReader(decryptSegments(reader, envelope, await getKey(secret, envelope.kdf)));
+
+    const prefix = await payload.read(4);
+    if (prefix.length < 4) {
+        throw new Error('Invalid note format');
+    }
+    const metadataLength = new DataView(prefix.buffer, prefix.byteOffset, prefix.byteLength).getUint32(0);
+    const metadata = noteMetadata(JSON.parse(new TextDecoder().decode(await payload.read(metadataLength))));
 
-    const salt = combinedBuffer.slice(0, 16);
-    const encryptedData = combinedBuffer.slice(16);
+    return { text: await readBody(payload.rest(), metadata), metadata };
+}
+
+/**
+ * Encrypt a file, keeping its name and MIME type inside the ciphertext.
+ * Returns a version 2 envelope, which carries its own IV.
+ */
+export async function encryptFile(file: File, secret: string, keyMode: KeyMode = 'password'): Promise<Uint8Array> {
+    const metadata: AttachmentMetadata = { name: file.name, type: file.type };
+    const body = new Uint8Array(await file.arrayBuffer());
+
+    const { envelope } = await sealEnvelope(encodePayload(metadata, body), secret, keyMode, ENVELOPE_V2);
+    return envelope;
+}
+
+/**
+ * Decrypt a file produced by `encryptFile`, restoring its name and MIME type
+ */
+export async function decryptFile(data: Uint8Array, secret: string): Promise<File> {
+    const envelope = parseEnvelope(data);
+    if (!envelope || envelope.version !== ENVELOPE_V2) {
+        throw new Error('Invalid attachment format');
+    }
 
-    const key = await deriveKey(password, salt);
+    const payload = decodePayload(new Uint8Array(await decryptEnvelope(envelope, secret)));
+    const metadata = payload.metadata as unknown as AttachmentMetadata;
+
+    return new File([payload.body as BufferSource], metadata.name, { type: metadata.type });
+}
+
+/**
+ * Wrap a note's raw key for one recipient, under a fresh random key that goes
+ * in that recipient's link. The wrapped key is a version 1 envelope of the
+ * key's bytes, stored by the worker, so revoking a recipient just deletes it.
+ */
+export async function wrapNoteKey(noteKey: string): Promise<{ recipientKey: string; wrappedKey: string }> {
+    const recipientKey = generateKey();
+    const { envelope } = await sealEnvelope(base64urlDecode(noteKey), recipientKey, 'raw', ENVELOPE_V1);
+    return { recipientKey, wrappedKey: base64urlEncode(envelope.buffer) };
+}
+
+/**
+ * Recover a note's key from the wrapped key the worker holds for a recipient
+ * and the key in their link
+ */
+export async function unwrapNoteKey(wrappedKey: string, recipientKey: string): Promise<string> {
+    const envelope = parseEnvelope(base64urlDecode(wrappedKey));
+    if (!envelope || envelope.version !== ENVELOPE_V1 || envelope.kdf.id !== KDF_NONE) {
+        throw new Error('Invalid wrapped key');
+    }
+
+    return base64urlEncode(await decryptEnvelope(envelope, recipientKey));
+}
+
+// Sealing to a public key: each message gets an ephemeral ECDH P-256 key, and
+// the shared secret is run through HKDF to get the AES-GCM key. A sealed
+// message is [ephemeral public key (65 bytes, uncompressed)][iv][ciphertext];
+// replies to secret requests leave out the IV, which is sent separately.
+const SEAL_CURVE = 'P-256';
+const SEAL_PUBLIC_KEY_LENGTH = 65;
+const SEAL_INFO = new TextEncoder().encode('txtoo-seal-v1');
+
+/**
+ * An ECDH key pair for sealing. Pass `extractable: false` for private keys
+ * that are stored as they are rather than wrapped (see `wrapPrivateKey`).
+ */
+export async function generateSealingKeyPair(extractable = true): Promise<CryptoKeyPair> {
+    return crypto.subtle.generateKey({ name: 'ECDH', namedCurve: SEAL_CURVE }, extractable, ['deriveBits']) as Promise<CryptoKeyPair>;
+}
+
+/**
+ * A sealing public key as base64url, short enough for a link fragment
+ */
+export async function exportPublicKey(publicKey: CryptoKey): Promise<string> {
+    return base64urlEncode(await crypto.subtle.exportKey('raw', publicKey) as ArrayBuffer);
+}
+
+async function importPublicKey(format: 'raw' | 'jwk', key: BufferSource | JsonWebKey): Promise<CryptoKey> {
+    const algorithm = { name: 'ECDH', namedCurve: SEAL_CURVE };
+    return format === 'jwk'
+        ? crypto.subtle.importKey('jwk', key as JsonWebKey, algorithm, false, [])
+        : crypto.subtle.importKey('raw', key as BufferSource, algorithm, false, []);
+}
+
+async function deriveSealKey(privateKey: CryptoKey, publicKey: CryptoKey): Promise<CryptoKey> {
+    // Passed as a variable, as Workers' types call the `public` member `$public`
+    const algorithm = { name: 'ECDH', public: publicKey };
+    const sharedSecret = await crypto.subtle.deriveBits(algorithm, privateKey, 256);
+    const hkdfKey = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey']);
+
+    return crypto.subtle.deriveKey(
+        { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: SEAL_INFO },
+        hkdfKey,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+}
+
+interface SealedParts {
+    ephemeralPublic: Uint8Array;
+    iv: Uint8Array;
+    encrypted: Uint8Array;
+}
+
+async function seal(text: string, publicKey: CryptoKey): Promise<SealedParts> {
+    const ephemeral = await generateSealingKeyPair();
+    const key = await deriveSealKey(ephemeral.privateKey, publicKey);
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+
+    const encryptedData = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv },
+        key,
+        new TextEncoder().encode(text)
+    );
+    const ephemeralPublic = new Uint8Array(await crypto.subtle.exportKey('raw', ephemeral.publicKey) as ArrayBuffer);
+
+    return { ephemeralPublic, iv, encrypted: new Uint8Array(encryptedData) };
+}
+
+async function open({ ephemeralPublic, iv, encrypted }: SealedParts, privateKey: CryptoKey): Promise<string> {
+    const key = await deriveSealKey(privateKey, await importPublicKey('raw', ephemeralPublic as BufferSource));
 
     const decryptedData = await crypto.subtle.decrypt(
-        {
-            name: 'AES-GCM',
-            iv: iv as BufferSource
-        },
+        { name: 'AES-GCM', iv: iv as BufferSource },
         key,
-        encryptedData
+        encrypted as BufferSource
     );
+    return new TextDecoder().decode(decryptedData);
+}
 
-    const decoder = new TextDecoder();
-    return decoder.decode(decryptedData);
+/**
+ * Encrypt text so that only the holder of the matching private key can read it
+ */
+export async function sealToPublicKey(text: string, publicKeyJwk: JsonWebKey): Promise<string> {
+    const { ephemeralPublic, iv, encrypted } = await seal(text, await importPublicKey('jwk', publicKeyJwk));
+
+    const sealed = new Uint8Array(ephemeralPublic.length + iv.length + encrypted.length);
+    sealed.set(ephemeralPublic, 0);
+    sealed.set(iv, ephemeralPublic.length);
+    sealed.set(encrypted, ephemeralPublic.length + iv.length);
+
+    return base64urlEncode(sealed.buffer);
+}
+
+/**
+ * Decrypt a message produced by `sealToPublicKey`
+ */
+export async function openSealed(sealed: string, privateKey: CryptoKey): Promise<string> {
+    const bytes = base64urlDecode(sealed);
+    return open({
+        ephemeralPublic: bytes.slice(0, SEAL_PUBLIC_KEY_LENGTH),
+        iv: bytes.slice(SEAL_PUBLIC_KEY_LENGTH, SEAL_PUBLIC_KEY_LENGTH + IV_LENGTH),
+        encrypted: bytes.slice(SEAL_PUBLIC_KEY_LENGTH + IV_LENGTH),
+    }, privateKey);
+}
+
+/**
+ * Seal a reply to a secret request's public key (from `exportPublicKey`).
+ * The IV is kept separate, as the worker stores it alongside the ciphertext.
+ */
+export async function sealReply(text: string, publicKey: string): Promise<{ cipherText: string; iv: string }> {
+    const { ephemeralPublic, iv, encrypted } = await seal(text, await importPublicKey('raw', base64urlDecode(publicKey) as BufferSource));
+
+    const sealed = new Uint8Array(ephemeralPublic.length + encrypted.length);
+    sealed.set(ephemeralPublic, 0);
+    sealed.set(encrypted, ephemeralPublic.length);
+
+    return { cipherText: base64urlEncode(sealed.buffer), iv: base64urlEncode(iv.buffer) };
+}
+
+/**
+ * Decrypt a reply produced by `sealReply`. A different private key rejects
+ * with an OperationError.
+ */
+export async function openReply(cipherText: string, iv: string, privateKey: CryptoKey): Promise<string> {
+    const bytes = base64urlDecode(cipherText);
+    return open({
+        ephemeralPublic: bytes.slice(0, SEAL_PUBLIC_KEY_LENGTH),
+        iv: base64urlDecode(iv),
+        encrypted: bytes.slice(SEAL_PUBLIC_KEY_LENGTH),
+    }, privateKey);
+}
+
+/**
+ * Encrypt a sealing private key under a passphrase, using the same envelope
+ * as password-protected notes
+ */
+export async function wrapPrivateKey(privateKey: CryptoKey, passphrase: string): Promise<{ cipherText: string; iv: string }> {
+    const pkcs8 = await crypto.subtle.exportKey('pkcs8', privateKey) as ArrayBuffer;
+    return encryptText(base64urlEncode(pkcs8), passphrase, 'password');
+}
+
+/**
+ * Recover a private key wrapped by `wrapPrivateKey`. A wrong passphrase
+ * rejects with an OperationError.
+ */
+export async function unwrapPrivateKey(wrapped: { cipherText: string; iv: string }, passphrase: string): Promise<CryptoKey> {
+    const pkcs8 = base64urlDecode(await decryptText(wrapped.cipherText, wrapped.iv, passphrase));
+    return crypto.subtle.importKey('pkcs8', pkcs8 as BufferSource, { name: 'ECDH', namedCurve: SEAL_CURVE }, false, ['deriveBits']);
 }
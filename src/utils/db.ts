@@ -0,0 +1,48 @@
+/**
+ * The app's IndexedDB database, shared by the note history and secret requests
+ */
+
+const DB_NAME = 'txtoo';
+const DB_VERSION = 2;
+
+export const ENTRIES_STORE = 'history';
+export const SETTINGS_STORE = 'settings';
+export const REQUESTS_STORE = 'requests';
+
+export function openDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = event => {
+            const db = request.result;
+            if (event.oldVersion < 1) {
+                db.createObjectStore(ENTRIES_STORE, { keyPath: 'id' });
+                db.createObjectStore(SETTINGS_STORE, { keyPath: 'name' });
+            }
+            if (event.oldVersion < 2) {
+                db.createObjectStore(REQUESTS_STORE, { keyPath: 'id' });
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+// Run one request against a store and resolve with its result once the transaction commits
+export async function withStore<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+    const db = await openDatabase();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const transaction = db.transaction(storeName, mode);
+            const request = action(transaction.objectStore(storeName));
+            transaction.oncomplete = () => resolve(request.result);
+            transaction.onerror = () => reject(transaction.error);
+            transaction.onabort = () => reject(transaction.error);
+        });
+    } finally {
+        db.close();
+    }
+}
@@ -0,0 +1,205 @@
+import { apiUrl } from './api';
+import { ENTRIES_STORE, SETTINGS_STORE, openDatabase, withStore } from './db';
+import type { ApiSuccess, NoteStatus, ReceiptResponse, StatusRequest, StatusResponse } from '../../shared/api';
+import {
+    generateSealingKeyPair,
+    openSealed,
+    sealToPublicKey,
+    unwrapPrivateKey,
+    wrapPrivateKey,
+} from './crypto';
+
+/**
+ * A note created in this browser, kept so its links can be found again
+ */
+export interface HistoryEntry {
+    id: string;
+    shareUrl: string;
+    manageUrl: string;
+    createdAt: number;
+    expiresAt: number;
+    passwordProtected: boolean;
+    // Notes shared with named recipients have a link per recipient instead of
+    // one share URL
+    recipients?: { label: string; url: string }[];
+    // Reads the note's receipt. Missing on notes created before receipts existed.
+    receiptToken?: string;
+}
+
+// Entries are stored in the clear, or sealed to the lock's public key once a
+// passphrase is set. Sealing only needs the public key, so new notes are
+// saved without asking for the passphrase; reading them needs the private key.
+interface StoredEntry {
+    id: string;
+    createdAt: number;
+    entry?: HistoryEntry;
+    sealed?: string;
+}
+
+interface HistoryLock {
+    name: 'lock';
+    publicKey: JsonWebKey;
+    privateKey: { cipherText: string; iv: string };
+}
+
+// A note's state on the worker, as returned by `/status`
+export type { NoteStatus };
+
+// Matches the worker's limit on IDs per status request
+const STATUS_BATCH_SIZE = 50;
+
+async function getLock(): Promise<HistoryLock | undefined> {
+    return withStore<HistoryLock | undefined>(SETTINGS_STORE, 'readonly', store => store.get('lock'));
+}
+
+async function toStored(entry: HistoryEntry, lock: HistoryLock | undefined): Promise<StoredEntry> {
+    return lock
+        ? { id: entry.id, createdAt: entry.createdAt, sealed: await sealToPublicKey(JSON.stringify(entry), lock.publicKey) }
+        : { id: entry.id, createdAt: entry.createdAt, entry };
+}
+
+/**
+ * Whether the history is encrypted under a passphrase
+ */
+export async function isHistoryLocked(): Promise<boolean> {
+    return !!(await getLock());
+}
+
+/**
+ * Decrypt the history's private key. Rejects with an OperationError if the
+ * passphrase is wrong.
+ */
+export async function unlockHistory(passphrase: string): Promise<CryptoKey> {
+    const lock = await getLock();
+    if (!lock) {
+        throw new Error('History is not locked');
+    }
+    return unwrapPrivateKey(lock.privateKey, passphrase);
+}
+
+export async function addHistoryEntry(entry: HistoryEntry): Promise<void> {
+    const stored = await toStored(entry, await getLock());
+    await withStore(ENTRIES_STORE, 'readwrite', store => store.put(stored));
+}
+
+export async function removeHistoryEntry(id: string): Promise<void> {
+    await withStore(ENTRIES_STORE, 'readwrite', store => store.delete(id));
+}
+
+/**
+ * All entries, newest first. Sealed entries need the unlocked private key.
+ */
+export async function loadHistory(privateKey: CryptoKey | null): Promise<HistoryEntry[]> {
+    const stored = await withStore<StoredEntry[]>(ENTRIES_STORE, 'readonly', store => store.getAll());
+
+    const entries = await Promise.all(stored.map(async item => {
+        if (item.entry) return item.entry;
+        if (!item.sealed || !privateKey) return null;
+        return JSON.parse(await openSealed(item.sealed, privateKey)) as HistoryEntry;
+    }));
+
+    return entries
+        .filter((entry): entry is HistoryEntry => entry !== null)
+        .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Encrypt the history under a new passphrase, or store it in the clear again
+ * when `passphrase` is null. `privateKey` must be the unlocked key if the
+ * history is currently locked.
+ */
+export async function setHistoryPassphrase(passphrase: string | null, privateKey: CryptoKey | null): Promise<CryptoKey | null> {
+    if (!privateKey && await isHistoryLocked()) {
+        throw new Error('Unlock the history first');
+    }
+    const entries = await loadHistory(privateKey);
+
+    let lock: HistoryLock | undefined;
+    let newPrivateKey: CryptoKey | null = null;
+    if (passphrase) {
+        const keyPair = await generateSealingKeyPair();
+        lock = {
+            name: 'lock',
+            publicKey: await crypto.subtle.exportKey('jwk', keyPair.publicKey),
+            privateKey: await wrapPrivateKey(keyPair.privateKey, passphrase),
+        };
+        newPrivateKey = keyPair.privateKey;
+    }
+
+    const stored = await Promise.all(entries.map(entry => toStored(entry, lock)));
+
+    const db = await openDatabase();
+    try {
+        await new Promise<void>((resolve, reject) => {
+            const transaction = db.transaction([ENTRIES_STORE, SETTINGS_STORE], 'readwrite');
+            const entriesStore = transaction.objectStore(ENTRIES_STORE);
+            const settingsStore = transaction.objectStore(SETTINGS_STORE);
+
+            entriesStore.clear();
+            stored.forEach(item => entriesStore.put(item));
+            if (lock) {
+                settingsStore.put(lock);
+            } else {
+                settingsStore.delete('lock');
+            }
+
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(transaction.error);
+            transaction.onabort = () => reject(transaction.error);
+        });
+    } finally {
+        db.close();
+    }
+
+    return newPrivateKey;
+}
+
+/**
+ * Look up which notes still exist, without fetching their ciphertext or
+ * counting a view
+ */
+export async function fetchNoteStatuses(ids: string[]): Promise<Record<string, NoteStatus>> {
+    const statuses: Record<string, NoteStatus> = {};
+
+    for (let i = 0; i < ids.length; i += STATUS_BATCH_SIZE) {
+        const response = await fetch(apiUrl('/status'), {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ ids: ids.slice(i, i + STATUS_BATCH_SIZE) } satisfies StatusRequest),
+        });
+        if (!response.ok) {
+            throw new Error('Failed to check note status');
+        }
+
+        const result: ApiSuccess<StatusResponse> = await response.json();
+        result.data.notes.forEach(note => {
+            statuses[note.id] = note;
+        });
+    }
+
+    return statuses;
+}
+
+/**
+ * The receipts of the entries that have a receipt token, by note ID. Receipts
+ * that are gone are left out.
+ */
+export async function fetchReceipts(entries: HistoryEntry[]): Promise<Record<string, ReceiptResponse>> {
+    const receipts: Record<string, ReceiptResponse> = {};
+
+    await Promise.all(entries.filter(entry => entry.receiptToken).map(async entry => {
+        const response = await fetch(apiUrl(`/receipts/${entry.id}`), {
+            headers: {
+                Authorization: `Bearer ${entry.receiptToken}`,
+            },
+        });
+        if (response.ok) {
+            const result: ApiSuccess<ReceiptResponse> = await response.json();
+            receipts[entry.id] = result.data;
+        }
+    }));
+
+    return receipts;
+}
@@ -0,0 +1,21 @@
+// Limits enforced by the worker's /submit validation. Keep these in step with
+// MAX_CIPHERTEXT_SIZE and MAX_TTL in workers/wrangler.jsonc.
+export const MAX_CIPHERTEXT_SIZE = Number(import.meta.env.VITE_MAX_CIPHERTEXT_SIZE) || 1048576;
+export const MIN_TTL = 180;
+export const MAX_TTL = Number(import.meta.env.VITE_MAX_TTL) || 2592000;
+
+// Expiry choices offered in the UI, leaving out any beyond MAX_TTL
+export const TTL_OPTIONS: { value: number; label: string }[] = [
+    { value: 180, label: '3 Mins' },
+    { value: 600, label: '10 Mins' },
+    { value: 1800, label: '30 Mins' },
+    { value: 3600, label: '1 Hour' },
+    { value: 21600, label: '6 Hours' },
+    { value: 43200, label: '12 Hours' },
+    { value: 86400, label: '24 Hours (Default)' },
+    { value: 604800, label: '7 Days' },
+    { value: 2592000, label: '30 Days' },
+].filter(option => option.value <= MAX_TTL);
+
+// Most people one note can be shared with, each with their own link
+export const MAX_RECIPIENTS = 20;
@@ -0,0 +1,71 @@
+import { apiUrl } from './api';
+import type {
+    ApiResult,
+    DeleteNoteResponse,
+    DeleteRecipientResponse,
+    RecipientStatus,
+    RecipientsResponse,
+    UpdateNoteRequest,
+    UpdateNoteResponse,
+} from '../../shared/api';
+
+async function manageRequest<T>(path: string, token: string, init: RequestInit = {}): Promise<T> {
+    const response = await fetch(apiUrl(path), {
+        ...init,
+        headers: {
+            ...init.headers,
+            Authorization: `Bearer ${token}`,
+        },
+    });
+
+    const result: ApiResult<T> | null = await response.json().catch(() => null);
+    if (!response.ok || !result || result.type === 'error') {
+        throw new Error(result?.type === 'error' ? result.message : 'Request failed');
+    }
+    return result.data;
+}
+
+/**
+ * Delete a note (and its attachments) before it expires, using the manage
+ * token returned when it was submitted
+ */
+export async function revokeNote(id: string, token: string): Promise<void> {
+    await manageRequest<DeleteNoteResponse>(`/notes/${id}`, token, { method: 'DELETE' });
+}
+
+/**
+ * Make a note expire `ttl` seconds from now, returning the new expiry
+ */
+export async function updateNoteTtl(id: string, token: string, ttl: number): Promise<number> {
+    const body: UpdateNoteRequest = { ttl };
+    const data = await manageRequest<UpdateNoteResponse>(`/notes/${id}`, token, {
+        method: 'PATCH',
+        headers: {
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+    });
+    return data.expiresAt;
+}
+
+/**
+ * The note's recipients and their remaining views, in the order they were added
+ */
+export async function listRecipients(id: string, token: string): Promise<RecipientStatus[]> {
+    const data = await manageRequest<RecipientsResponse>(`/notes/${id}/recipients`, token);
+    return data.recipients;
+}
+
+/**
+ * Revoke one recipient's link. Returns true if that left nobody able to open
+ * the note, so it was deleted as well.
+ */
+export async function revokeRecipient(id: string, recipientId: string, token: string): Promise<boolean> {
+    const data = await manageRequest<DeleteRecipientResponse>(`/notes/${id}/recipients/${recipientId}`, token, { method: 'DELETE' });
+    return data.noteDeleted;
+}
+
+// Management links keep the token in the fragment, like note keys
+export function manageUrl(baseUrl: string, id: string, token: string): string {
+    return `${baseUrl}/manage/${id}#${token}`;
+}
@@ -0,0 +1,110 @@
+import { Marked, type Tokens } from 'marked';
+import DOMPurify from 'dompurify';
+import hljs from 'highlight.js/lib/core';
+import bash from 'highlight.js/lib/languages/bash';
+import css from 'highlight.js/lib/languages/css';
+import diff from 'highlight.js/lib/languages/diff';
+import go from 'highlight.js/lib/languages/go';
+import java from 'highlight.js/lib/languages/java';
+import javascript from 'highlight.js/lib/languages/javascript';
+import json from 'highlight.js/lib/languages/json';
+import plaintext from 'highlight.js/lib/languages/plaintext';
+import python from 'highlight.js/lib/languages/python';
+import rust from 'highlight.js/lib/languages/rust';
+import sql from 'highlight.js/lib/languages/sql';
+import typescript from 'highlight.js/lib/languages/typescript';
+import xml from 'highlight.js/lib/languages/xml';
+import yaml from 'highlight.js/lib/languages/yaml';
+
+/**
+ * Languages offered for code notes. Only these are bundled, which keeps
+ * highlight.js small.
+ */
+export const CODE_LANGUAGES: { value: string; label: string }[] = [
+    { value: 'bash', label: 'Shell' },
+    { value: 'css', label: 'CSS' },
+    { value: 'diff', label: 'Diff' },
+    { value: 'go', label: 'Go' },
+    { value: 'xml', label: 'HTML / XML' },
+    { value: 'java', label: 'Java' },
+    { value: 'javascript', label: 'JavaScript' },
+    { value: 'json', label: 'JSON' },
+    { value: 'python', label: 'Python' },
+    { value: 'rust', label: 'Rust' },
+    { value: 'sql', label: 'SQL' },
+    { value: 'typescript', label: 'TypeScript' },
+    { value: 'yaml', label: 'YAML' },
+];
+
+hljs.registerLanguage('bash', bash);
+hljs.registerLanguage('css', css);
+hljs.registerLanguage('diff', diff);
+hljs.registerLanguage('go', go);
+hljs.registerLanguage('java', java);
+hljs.registerLanguage('javascript', javascript);
+hljs.registerLanguage('json', json);
+hljs.registerLanguage('plaintext', plaintext);
+hljs.registerLanguage('python', python);
+hljs.registerLanguage('rust', rust);
+hljs.registerLanguage('sql', sql);
+hljs.registerLanguage('typescript', typescript);
+hljs.registerLanguage('xml', xml);
+hljs.registerLanguage('yaml', yaml);
+
+// Elements that would load something from another server, or run code, as soon
+// as the note is rendered. Links are kept, as they only load when clicked.
+const FORBIDDEN_TAGS = [
+    'img', 'picture', 'source', 'video', 'audio', 'track', 'iframe', 'frame', 'object',
+    'embed', 'link', 'style', 'meta', 'base', 'form', 'input', 'button', 'svg', 'math',
+];
+const FORBIDDEN_ATTRIBUTES = ['style', 'src', 'srcset', 'poster', 'background', 'action', 'formaction'];
+
+const purifier = DOMPurify();
+
+// Open links in a new tab without telling the target where they came from
+purifier.addHook('afterSanitizeAttributes', node => {
+    if (node.tagName === 'A' && node.hasAttribute('href')) {
+        node.setAttribute('target', '_blank');
+        node.setAttribute('rel', 'noopener noreferrer nofollow');
+    }
+});
+
+function sanitize(html: string): string {
+    return purifier.sanitize(html, {
+        FORBID_TAGS: FORBIDDEN_TAGS,
+        FORBID_ATTR: FORBIDDEN_ATTRIBUTES,
+        ALLOW_DATA_ATTR: false,
+    });
+}
+
+/**
+ * Highlight code as HTML. Unknown languages are escaped without highlighting.
+ */
+export function highlightCode(code: string, language?: string): string {
+    const html = hljs.highlight(code, {
+        language: language && hljs.getLanguage(language) ? language : 'plaintext',
+        ignoreIllegals: true,
+    }).value;
+    return sanitize(html);
+}
+
+const markdown = new Marked({
+    gfm: true,
+    breaks: true,
+    renderer: {
+        // Images would be fetched from wherever they point, so show them as links
+        image({ href, text }: Tokens.Image): string {
+            return `<a href="${encodeURI(href)}">${text || href}</a>`;
+        },
+        code({ text, lang }: Tokens.Code): string {
+            return `<pre><code class="hljs">${highlightCode(text, lang)}</code></pre>`;
+        },
+    },
+});
+
+/**
+ * Render Markdown as sanitized HTML with no remote resources
+ */
+export function renderMarkdown(text: string): string {
+    return sanitize(markdown.parse(text, { async: false }));
+}
@@ -0,0 +1,133 @@
+import { apiUrl } from './api';
+import { exportPublicKey, generateSealingKeyPair, openReply, sealReply } from './crypto';
+import { REQUESTS_STORE, withStore } from './db';
+import type {
+    ApiResult,
+    ReplyRequest,
+    ReplyResponse,
+    SecretReplyResponse,
+    SecretRequestInput,
+    SecretRequestResponse,
+    SecretRequestStatusResponse,
+} from '../../shared/api';
+
+/**
+ * A request for a secret, created in this browser. The private key is stored
+ * non-extractable, so it can decrypt the reply but never leaves IndexedDB.
+ */
+export interface SecretRequest {
+    id: string;
+    // What was asked for, only ever kept locally
+    label: string;
+    link: string;
+    token: string;
+    privateKey: CryptoKey;
+    createdAt: number;
+    expiresAt: number;
+}
+
+async function requestJson<T>(path: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(apiUrl(path), init);
+    const result: ApiResult<T> | null = await response.json().catch(() => null);
+    if (!response.ok || !result || result.type === 'error') {
+        throw new Error(result?.type === 'error' ? result.message : 'Request failed');
+    }
+    return result.data;
+}
+
+// Request links carry the public key in the fragment, like note keys
+export function requestLink(baseUrl: string, id: string, publicKey: string): string {
+    return `${baseUrl}/r/${id}#${publicKey}`;
+}
+
+/**
+ * Open a request on the worker and keep its key and token in this browser
+ */
+export async function createSecretRequest(label: string, ttl: number, baseUrl: string): Promise<SecretRequest> {
+    const keyPair = await generateSealingKeyPair(false);
+    const created = await requestJson<SecretRequestResponse>('/requests', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ttl } satisfies SecretRequestInput),
+    });
+
+    const request: SecretRequest = {
+        id: created.id,
+        label,
+        link: requestLink(baseUrl, created.id, await exportPublicKey(keyPair.publicKey)),
+        token: created.token,
+        privateKey: keyPair.privateKey,
+        createdAt: Math.floor(Date.now() / 1000),
+        expiresAt: created.expiresAt,
+    };
+    await withStore(REQUESTS_STORE, 'readwrite', store => store.put(request));
+    return request;
+}
+
+/**
+ * Requests created in this browser, newest first
+ */
+export async function listSecretRequests(): Promise<SecretRequest[]> {
+    const requests = await withStore<SecretRequest[]>(REQUESTS_STORE, 'readonly', store => store.getAll());
+    return requests.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Whether a request is still open, or null if it is gone
+ */
+export async function getSecretRequestStatus(id: string): Promise<SecretRequestStatusResponse | null> {
+    const response = await fetch(apiUrl(`/requests/${id}`));
+    if (response.status === 404) {
+        return null;
+    }
+    if (!response.ok) {
+        throw new Error('Failed to check request');
+    }
+    const result: ApiResult<SecretRequestStatusResponse> = await response.json();
+    return result.type === 'success' ? result.data : null;
+}
+
+/**
+ * Seal `text` to the requester's public key and send it as the request's reply
+ */
+export async function sendReply(id: string, publicKey: string, text: string): Promise<void> {
+    const sealed: ReplyRequest = await sealReply(text, publicKey);
+    await requestJson<ReplyResponse>(`/requests/${id}/reply`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(sealed),
+    });
+}
+
+/**
+ * Fetch and decrypt the reply to one of this browser's requests
+ */
+export async function readReply(request: SecretRequest): Promise<{ text: string; repliedAt: number }> {
+    const reply = await requestJson<SecretReplyResponse>(`/requests/${request.id}/reply`, {
+        headers: {
+            Authorization: `Bearer ${request.token}`,
+        },
+    });
+    return { text: await openReply(reply.cipherText, reply.iv, request.privateKey), repliedAt: reply.repliedAt };
+}
+
+/**
+ * Close a request on the worker, deleting any reply, and forget it locally.
+ * Requests that have already expired are just forgotten.
+ */
+export async function deleteSecretRequest(request: SecretRequest): Promise<void> {
+    const response = await fetch(apiUrl(`/requests/${request.id}`), {
+        method: 'DELETE',
+        headers: {
+            Authorization: `Bearer ${request.token}`,
+        },
+    });
+    if (!response.ok && response.status !== 404) {
+        throw new Error('Failed to delete request');
+    }
+    await withStore(REQUESTS_STORE, 'readwrite', store => store.delete(request.id));
+}
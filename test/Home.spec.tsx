@@ -0,0 +1,83 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { describe, it, expect, vi } from 'vitest';
+import { decodeBinaryBody, type BinarySubmitRequest } from '../shared/api';
+import Home from '../src/Home';
+import { decryptNoteStream } from '../src/utils/crypto';
+
+// History lives in IndexedDB, which jsdom doesn't have
+vi.mock(import('../src/utils/history'), async importOriginal => ({
+    ...(await importOriginal()),
+    addHistoryEntry: vi.fn(async () => {}),
+}));
+
+// Stand in for the worker's /submit, recording what was sent to it
+function mockSubmit(response: Response): { bodies: Uint8Array[]; urls: string[] } {
+    const calls = { bodies: [] as Uint8Array[], urls: [] as string[] };
+    vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+        calls.urls.push(String(input));
+        calls.bodies.push(init?.body as Uint8Array);
+        return response;
+    });
+    return calls;
+}
+
+function submitResponse(id: string): Response {
+    return Response.json({
+        type: 'success',
+        status: 200,
+        data: { id, expiresAt: 1, maxViews: null, requiresPassword: false, manageToken: 'token', recipients: [], receiptToken: 'receipt' },
+    });
+}
+
+function renderHome() {
+    render(<MemoryRouter><Home /></MemoryRouter>);
+    return screen.getByPlaceholderText(/Write your text note here/);
+}
+
+describe('Home', () => {
+    it('encrypts the note in the browser and puts the key only in the link', async () => {
+        const calls = mockSubmit(submitResponse('noteId123456'));
+        const text = 'database password: 🔑 hunter2';
+
+        fireEvent.change(renderHome(), { target: { value: text } });
+        fireEvent.click(screen.getByRole('button', { name: /submit/i }));
+        await screen.findByText('Note Encrypted');
+
+        expect(calls.urls).toEqual(['/api/v1/submit']);
+        const submitted = decodeBinaryBody<BinarySubmitRequest>(calls.bodies[0]);
+        expect(submitted?.fields).toMatchObject({ ttl: 86400, requiresPassword: false });
+        // Neither the text nor the key reaches the worker
+        expect(new TextDecoder().decode(calls.bodies[0])).not.toContain('hunter2');
+
+        const shareUrl = new URL((screen.getByDisplayValue(/\/n\/noteId123456#/) as HTMLInputElement).value);
+        const key = decodeURIComponent(shareUrl.hash.slice(1));
+        expect(JSON.stringify(submitted?.fields)).not.toContain(key);
+
+        const note = await decryptNoteStream(submitted!.data, submitted!.fields.iv, key);
+        expect(note).toEqual({ text, metadata: { contentType: 'plain' } });
+    });
+
+    it('shows why the worker rejected a note', async () => {
+        mockSubmit(Response.json(
+            { type: 'error', status: 422, code: 'validation_failed', message: 'ttl must be an integer between 180 and 2592000 seconds' },
+            { status: 422 }
+        ));
+        const alert = vi.spyOn(window, 'alert').mockImplementation(() => {});
+
+        fireEvent.change(renderHome(), { target: { value: 'secret' } });
+        fireEvent.click(screen.getByRole('button', { name: /submit/i }));
+
+        await vi.waitFor(() => expect(alert).toHaveBeenCalledWith('Submission failed: ttl must be an integer between 180 and 2592000 seconds'));
+        expect(screen.queryByText('Note Encrypted')).toBeNull();
+    });
+
+    it('keeps the submit button disabled until there is something to send', () => {
+        const textarea = renderHome();
+        const submit = screen.getByRole('button', { name: /submit/i }) as HTMLButtonElement;
+        expect(submit.disabled).toBe(true);
+
+        fireEvent.change(textarea, { target: { value: 'x' } });
+        expect(submit.disabled).toBe(false);
+    });
+});
@@ -0,0 +1,144 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import { describe, it, expect, vi } from 'vitest';
+import { BINARY_CONTENT_TYPE, encodeBinaryBody, type BinaryFetchResponse, type MetaResponse } from '../shared/api';
+import ViewNote from '../src/ViewNote';
+import { base64urlDecode, encryptText, generateKey, type KeyMode, type NoteMetadata } from '../src/utils/crypto';
+
+const ID = 'viewNote1234';
+
+interface NoteOptions {
+    requiresPassword?: boolean;
+    metadata?: NoteMetadata;
+    expiresAt?: number;
+}
+
+// Stand in for the worker's /meta and /fetch of one note, counting fetches
+async function mockNote(text: string, secret: string, keyMode: KeyMode, options: NoteOptions = {}) {
+    const { requiresPassword = false, metadata = { contentType: 'plain' }, expiresAt = 2000000000 } = options;
+    const { cipherText, iv } = await encryptText(text, secret, keyMode, metadata);
+    const meta: MetaResponse = { id: ID, expiresAt, maxViews: 1, remainingViews: 1, requiresPassword, attachments: [] };
+    const fields: BinaryFetchResponse = { ...meta, remainingViews: 0, iv, attachments: [], burned: true };
+    const fetches: string[] = [];
+
+    vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+        const url = String(input);
+        fetches.push(url);
+        if (url === `/api/v1/meta/${ID}`) {
+            return Response.json({ type: 'success', status: 200, data: meta });
+        }
+        expect(url).toBe(`/api/v1/fetch/${ID}`);
+        expect(new Headers(init?.headers).get('Accept')).toBe(BINARY_CONTENT_TYPE);
+        return new Response(encodeBinaryBody(fields, base64urlDecode(cipherText)) as BufferSource, {
+            headers: { 'Content-Type': BINARY_CONTENT_TYPE },
+        });
+    });
+    return fetches;
+}
+
+function renderAt(path: string) {
+    render(
+        <MemoryRouter initialEntries={[path]}>
+            <Routes>
+                <Route path="/n/:id" element={<ViewNote />} />
+            </Routes>
+        </MemoryRouter>
+    );
+}
+
+async function revealWithKey(key: string) {
+    renderAt(`/n/${ID}#${encodeURIComponent(key)}`);
+    fireEvent.click(await screen.findByRole('button', { name: /click to reveal/i }));
+}
+
+describe('ViewNote', () => {
+    it('fetches and decrypts the note only once it is revealed', async () => {
+        const key = generateKey();
+        const fetches = await mockNote('the launch codes 🚀', key, 'raw');
+
+        renderAt(`/n/${ID}#${encodeURIComponent(key)}`);
+        const reveal = await screen.findByRole('button', { name: /click to reveal/i });
+        // Opening the link only loads metadata, which isn't a view
+        expect(fetches).toEqual([`/api/v1/meta/${ID}`]);
+        fireEvent.click(reveal);
+
+        expect(await screen.findByText('the launch codes 🚀')).toBeTruthy();
+        expect(fetches).toEqual([`/api/v1/meta/${ID}`, `/api/v1/fetch/${ID}`]);
+    });
+
+    it('reports a key that does not decrypt the note', async () => {
+        await mockNote('secret', generateKey(), 'raw');
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+
+        renderAt(`/n/${ID}#${encodeURIComponent(generateKey())}`);
+        fireEvent.click(await screen.findByRole('button', { name: /click to reveal/i }));
+
+        expect(await screen.findByText('Failed to decrypt note. The key might be incorrect.')).toBeTruthy();
+    });
+
+    it('lets a wrong password be retried without another view', async () => {
+        const fetches = await mockNote('behind a password', 'correct horse', 'password', { requiresPassword: true });
+
+        renderAt(`/n/${ID}`);
+        const input = await screen.findByPlaceholderText('Enter the password you were given');
+        fireEvent.change(input, { target: { value: 'wrong' } });
+        fireEvent.click(screen.getByRole('button', { name: /unlock/i }));
+        expect(await screen.findByText('Incorrect password. Please try again.')).toBeTruthy();
+
+        fireEvent.change(screen.getByPlaceholderText('Enter the password you were given'), { target: { value: 'correct horse' } });
+        fireEvent.click(screen.getByRole('button', { name: /unlock/i }));
+        expect(await screen.findByText('behind a password')).toBeTruthy();
+        expect(fetches.filter(url => url.includes('/fetch/'))).toHaveLength(1);
+    });
+
+    it('counts down to expiry and clears the note when it expires', async () => {
+        const key = generateKey();
+        await mockNote('expiring soon', key, 'raw', { expiresAt: Math.floor(Date.now() / 1000) + 2 });
+
+        await revealWithKey(key);
+        expect(await screen.findByText('expiring soon')).toBeTruthy();
+        expect(screen.getByText(/Expires in 00:0[0-2]/)).toBeTruthy();
+
+        expect(await screen.findByText(/This note has expired/, {}, { timeout: 5000 })).toBeTruthy();
+        expect(document.body.textContent).not.toContain('expiring soon');
+    });
+
+    it('clears the note after the sender\'s idle timeout', async () => {
+        const key = generateKey();
+        await mockNote('do not leave me open', key, 'raw', { metadata: { contentType: 'plain', idleTimeout: 1 } });
+
+        await revealWithKey(key);
+        expect(await screen.findByText('do not leave me open')).toBeTruthy();
+        expect(screen.getByText(/will be cleared from the page/)).toBeTruthy();
+
+        expect(await screen.findByText(/after a period of inactivity/, {}, { timeout: 5000 })).toBeTruthy();
+        expect(document.body.textContent).not.toContain('do not leave me open');
+    });
+
+    it('blurs the note until it is clicked when the sender asks', async () => {
+        const key = generateKey();
+        await mockNote('over the shoulder', key, 'raw', { metadata: { contentType: 'plain', blur: true } });
+
+        await revealWithKey(key);
+        await screen.findByText('over the shoulder');
+        const content = screen.getByTitle('Hover to read, click to unblur');
+        expect(content.className).toContain('blur-md');
+
+        fireEvent.click(content);
+        expect(content.className).not.toContain('blur-md');
+        // and the viewer can blur it again, e.g. before sharing their screen
+        fireEvent.click(screen.getByRole('button', { name: /^blur$/i }));
+        expect(content.className).toContain('blur-md');
+    });
+
+    it('says so when the note is gone', async () => {
+        vi.spyOn(globalThis, 'fetch').mockResolvedValue(Response.json(
+            { type: 'error', status: 404, code: 'not_found', message: 'Text not found' },
+            { status: 404 }
+        ));
+
+        renderAt(`/n/${ID}#${generateKey()}`);
+
+        expect(await screen.findByText('Note not found or has expired')).toBeTruthy();
+    });
+});
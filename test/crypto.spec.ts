@@ -0,0 +1,187 @@
+import { describe, it, expect } from 'vitest';
+import {
+    base64urlDecode,
+    base64urlEncode,
+    decryptFile,
+    decryptNote,
+    decryptNoteStream,
+    encryptFile,
+    encryptText,
+    encryptedTextLength,
+    exportPublicKey,
+    generateKey,
+    generateSealingKeyPair,
+    openReply,
+    sealReply,
+    type NoteMetadata,
+} from '../src/utils/crypto';
+
+const PLAIN: NoteMetadata = { contentType: 'plain' };
+// Multi-byte characters of every UTF-8 length, joiners and right-to-left text
+const UNICODE = 'héllo wörld — 日本語のテキスト 👩‍💻🔐 مرحبا́\n';
+
+// Flip one bit of a base64url ciphertext's byte at `index` (negative counts from the end)
+function tamper(cipherText: string, index: number): string {
+    const bytes = base64urlDecode(cipherText);
+    bytes[index < 0 ? bytes.length + index : index] ^= 1;
+    return base64urlEncode(bytes.buffer);
+}
+
+describe('Note encryption', () => {
+    it('round-trips text under a raw key', async () => {
+        const key = generateKey();
+        const { cipherText, iv } = await encryptText('hello', key, 'raw', PLAIN);
+
+        expect(await decryptNote(cipherText, iv, key)).toEqual({ text: 'hello', metadata: PLAIN });
+    });
+
+    it('round-trips text under a password', async () => {
+        const metadata: NoteMetadata = { contentType: 'code', language: 'typescript' };
+        const { cipherText, iv } = await encryptText('const x = 1;', 'correct horse', 'password', metadata);
+
+        expect(await decryptNote(cipherText, iv, 'correct horse')).toEqual({ text: 'const x = 1;', metadata });
+    });
+
+    it('round-trips notes without metadata as plain text', async () => {
+        const key = generateKey();
+        const { cipherText, iv } = await encryptText('bare', key, 'raw');
+
+        expect(base64urlDecode(cipherText)[0]).toBe(1);
+        expect(await decryptNote(cipherText, iv, key)).toEqual({ text: 'bare', metadata: PLAIN });
+    });
+
+    it('keeps unicode intact, also across segment boundaries', async () => {
+        const key = generateKey();
+        const short = await encryptText(UNICODE, key, 'raw', PLAIN);
+        expect((await decryptNote(short.cipherText, short.iv, key)).text).toBe(UNICODE);
+
+        // Long enough for several segments, with characters split between them
+        const long = UNICODE.repeat(3000);
+        const encrypted = await encryptText(long, key, 'raw', PLAIN);
+        expect(base64urlDecode(encrypted.cipherText)[0]).toBe(3);
+        expect((await decryptNote(encrypted.cipherText, encrypted.iv, key)).text === long).toBe(true);
+    });
+
+    it('round-trips compressed notes', async () => {
+        const key = generateKey();
+        const text = 'GET /api/v1/fetch/abc123 200\n'.repeat(1000);
+        const metadata: NoteMetadata = { contentType: 'plain', compression: 'gzip' };
+        const { cipherText, iv } = await encryptText(text, key, 'raw', metadata);
+
+        expect(cipherText.length).toBeLessThan(text.length / 10);
+        expect(await decryptNote(cipherText, iv, key)).toEqual({ text, metadata });
+    });
+
+    it('shows notes in a format it does not know as plain text', async () => {
+        const key = generateKey();
+        const metadata = { contentType: 'latex' } as unknown as NoteMetadata;
+        const { cipherText, iv } = await encryptText('$e^{i\\pi} + 1 = 0$', key, 'raw', metadata);
+
+        expect(await decryptNote(cipherText, iv, key)).toEqual({ text: '$e^{i\\pi} + 1 = 0$', metadata: PLAIN });
+    });
+
+    it('carries viewer settings, ignoring an idle timeout it cannot use', async () => {
+        const key = generateKey();
+        const metadata: NoteMetadata = { contentType: 'plain', idleTimeout: 300, blur: true };
+        const valid = await encryptText('hi', key, 'raw', metadata);
+        expect((await decryptNote(valid.cipherText, valid.iv, key)).metadata).toEqual(metadata);
+
+        const invalid = await encryptText('hi', key, 'raw', { contentType: 'plain', idleTimeout: -1 });
+        expect((await decryptNote(invalid.cipherText, invalid.iv, key)).metadata).toEqual(PLAIN);
+    });
+
+    it('rejects the wrong key or password', async () => {
+        const raw = await encryptText('secret', generateKey(), 'raw', PLAIN);
+        await expect(decryptNote(raw.cipherText, raw.iv, generateKey())).rejects.toThrow();
+
+        const password = await encryptText('secret', 'right', 'password', PLAIN);
+        await expect(decryptNote(password.cipherText, password.iv, 'wrong')).rejects.toThrow();
+    });
+
+    it('rejects tampered ciphertext, headers and segments', async () => {
+        const { cipherText, iv } = await encryptText('secret', 'password', 'password', PLAIN);
+        // The last byte is in the tag, and byte 5 is the lowest of the PBKDF2 iterations
+        await expect(decryptNote(tamper(cipherText, -1), iv, 'password')).rejects.toThrow();
+        await expect(decryptNote(tamper(cipherText, 5), iv, 'password')).rejects.toThrow();
+
+        const key = generateKey();
+        const long = await encryptText('x'.repeat(200000), key, 'raw', PLAIN);
+        const envelope = base64urlDecode(long.cipherText);
+        // Swap the first two segments, after the 15-byte header of a raw key
+        const segment = 65536 + 16;
+        const swapped = envelope.slice();
+        swapped.set(envelope.subarray(15 + segment, 15 + 2 * segment), 15);
+        swapped.set(envelope.subarray(15, 15 + segment), 15 + segment);
+        await expect(decryptNoteStream(swapped, long.iv, key)).rejects.toThrow();
+        await expect(decryptNoteStream(envelope.subarray(0, 15 + segment), long.iv, key)).rejects.toThrow();
+    });
+
+    it('decrypts from a stream arriving in arbitrary pieces', async () => {
+        const key = generateKey();
+        const text = UNICODE.repeat(2000);
+        const { cipherText, iv } = await encryptText(text, key, 'raw', { contentType: 'markdown' });
+        const envelope = base64urlDecode(cipherText);
+
+        const stream = new ReadableStream<Uint8Array>({
+            start(controller) {
+                for (let offset = 0; offset < envelope.length; offset += 1000) {
+                    controller.enqueue(envelope.slice(offset, offset + 1000));
+                }
+                controller.close();
+            }
+        });
+        const note = await decryptNoteStream(stream, iv, key);
+        expect(note.metadata).toEqual({ contentType: 'markdown' });
+        expect(note.text === text).toBe(true);
+    });
+
+    it('decrypts notes from before envelopes were versioned', async () => {
+        // v0: [16-byte salt][AES-GCM output], 100,000 PBKDF2 iterations, no header
+        const salt = crypto.getRandomValues(new Uint8Array(16));
+        const iv = crypto.getRandomValues(new Uint8Array(12));
+        const material = await crypto.subtle.importKey('raw', new TextEncoder().encode('old password'), 'PBKDF2', false, ['deriveKey']);
+        const key = await crypto.subtle.deriveKey(
+            { name: 'PBKDF2', salt, iterations: 100000, hash: 'SHA-256' },
+            material,
+            { name: 'AES-GCM', length: 256 },
+            false,
+            ['encrypt']
+        );
+        const encrypted = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode('legacy')));
+        const combined = new Uint8Array([...salt, ...encrypted]);
+
+        const note = await decryptNote(base64urlEncode(combined.buffer), base64urlEncode(iv.buffer), 'old password');
+        expect(note).toEqual({ text: 'legacy', metadata: PLAIN });
+    });
+
+    it('predicts the ciphertext length for the size limit', async () => {
+        for (const text of ['', 'short', UNICODE.repeat(2000)]) {
+            for (const keyMode of ['raw', 'password'] as const) {
+                const secret = keyMode === 'raw' ? generateKey() : 'password';
+                const { cipherText } = await encryptText(text, secret, keyMode, PLAIN);
+                expect(encryptedTextLength(text, keyMode, PLAIN)).toBe(cipherText.length);
+            }
+        }
+    });
+});
+
+describe('Attachments and replies', () => {
+    it('round-trips a file with its name and type', async () => {
+        const key = generateKey();
+        const file = new File(['a,b\n1,2\n'], 'data.csv', { type: 'text/csv' });
+
+        const decrypted = await decryptFile(await encryptFile(file, key, 'raw'), key);
+        expect(decrypted.name).toBe('data.csv');
+        expect(decrypted.type).toBe('text/csv');
+        expect(await decrypted.text()).toBe('a,b\n1,2\n');
+    });
+
+    it('seals replies that only the private key opens', async () => {
+        const keyPair = await generateSealingKeyPair();
+        const other = await generateSealingKeyPair();
+        const { cipherText, iv } = await sealReply(UNICODE, await exportPublicKey(keyPair.publicKey));
+
+        expect(await openReply(cipherText, iv, keyPair.privateKey)).toBe(UNICODE);
+        await expect(openReply(cipherText, iv, other.privateKey)).rejects.toThrow();
+    });
+});
@@ -0,0 +1,18 @@
+import { Blob, File } from 'node:buffer';
+import { webcrypto } from 'node:crypto';
+import { cleanup } from '@testing-library/react';
+import { afterEach } from 'vitest';
+
+// jsdom's crypto only has getRandomValues; the app needs SubtleCrypto too
+Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+// and jsdom's Blob and File can't be read as streams or buffers
+Object.assign(globalThis, { Blob, File });
+// Failed decryption throws Node's DOMException, which the app checks for by class
+const nodeDOMException = await webcrypto.subtle
+    .importKey('raw', new Uint8Array(0), 'AES-GCM', false, ['encrypt'])
+    .catch((err: DOMException) => err.constructor);
+Object.defineProperty(globalThis, 'DOMException', { value: nodeDOMException, configurable: true, writable: true });
+
+afterEach(() => {
+    cleanup();
+});
@@ -0,0 +1,16 @@
+import { defineConfig } from 'vite';
+
+// Bundles the command-line client into a single Node script
+export default defineConfig({
+    build: {
+        ssr: 'cli/txtoo.ts',
+        outDir: 'dist/cli',
+        target: 'node20',
+        rollupOptions: {
+            output: {
+                entryFileNames: 'txtoo.js',
+                banner: '#!/usr/bin/env node',
+            },
+        },
+    },
+});
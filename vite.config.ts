@@ -7,4 +7,10 @@ export default defineConfig({
     optimizeDeps: {
         exclude: ['lucide-react'],
     },
+    server: {
+        // The API from `wrangler dev`, which serves it alongside the built app
+        proxy: {
+            '/api': 'http://localhost:8787',
+        },
+    },
 });
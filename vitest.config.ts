@@ -0,0 +1,16 @@
+import { defineConfig } from 'vitest/config';
+import react from '@vitejs/plugin-react';
+
+// Unit and component tests for the frontend, run in jsdom. The worker has its
+// own suite in workers/, and the browser tests in e2e/ run with Playwright.
+export default defineConfig({
+    plugins: [react()],
+    test: {
+        environment: 'jsdom',
+        include: ['test/**/*.spec.{ts,tsx}'],
+        setupFiles: ['test/setup.ts'],
+        restoreMocks: true,
+        // Password-based tests run PBKDF2 at 600,000 iterations
+        testTimeout: 20000,
+    },
+});
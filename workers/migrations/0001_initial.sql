@@ -1,3 +1,7 @@
+-- The schema as it was first deployed, from the old schema.sql. Databases
+-- created from that file already have this table, so it is only created if
+-- missing, and later migrations add everything since.
+
 -- Encrypted text storage table
 CREATE TABLE IF NOT EXISTS texts (
     id TEXT PRIMARY KEY,
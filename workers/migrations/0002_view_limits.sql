@@ -0,0 +1,3 @@
+-- Burn-after-reading and view limits: a NULL max_views is unlimited
+ALTER TABLE texts ADD COLUMN max_views INTEGER;
+ALTER TABLE texts ADD COLUMN view_count INTEGER NOT NULL DEFAULT 0;
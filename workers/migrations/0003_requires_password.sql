@@ -0,0 +1,2 @@
+-- 1 if the viewer must prompt for a password rather than take the key from the link
+ALTER TABLE texts ADD COLUMN requires_password INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,13 @@
+-- Encrypted file attachments, stored as chunks in R2
+-- note_id is NULL until the upload is claimed by a submitted note
+CREATE TABLE IF NOT EXISTS attachments (
+    id TEXT PRIMARY KEY,
+    note_id TEXT,
+    size INTEGER NOT NULL,
+    chunk_count INTEGER NOT NULL,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_attachments_note_id ON attachments(note_id);
+CREATE INDEX IF NOT EXISTS idx_attachments_expires_at ON attachments(expires_at);
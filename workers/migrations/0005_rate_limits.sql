@@ -0,0 +1,8 @@
+-- Per-IP request counters for rate limiting, one row per client, scope and window
+-- key is "{scope}:{ip}", and old windows are deleted by the scheduled purge
+CREATE TABLE IF NOT EXISTS rate_limits (
+    key TEXT NOT NULL,
+    window_start INTEGER NOT NULL,
+    count INTEGER NOT NULL,
+    PRIMARY KEY (key, window_start)
+);
@@ -0,0 +1,3 @@
+-- SHA-256 (hex) of the owner's manage token, NULL for notes from before
+-- manage tokens, which can't be revoked
+ALTER TABLE texts ADD COLUMN manage_token_hash TEXT;
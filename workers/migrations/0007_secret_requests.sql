@@ -0,0 +1,14 @@
+-- Requests for someone else to send the requester a secret
+-- The reply is sealed to the requester's public key and stored as a row in texts
+-- (reply_id), and only the holder of the request token can read it back
+CREATE TABLE IF NOT EXISTS secret_requests (
+    id TEXT PRIMARY KEY,
+    -- SHA-256 (hex) of the requester's token
+    token_hash TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL,
+    reply_id TEXT,
+    replied_at INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_secret_requests_expires_at ON secret_requests(expires_at);
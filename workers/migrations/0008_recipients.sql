@@ -0,0 +1,15 @@
+-- Named recipients of a note, each with their own link and view count
+-- wrapped_key is the note's key encrypted under a key that only the recipient's
+-- link carries, so deleting the row revokes that link alone. Rows are removed
+-- with their note, and orphans are deleted by the scheduled purge
+CREATE TABLE IF NOT EXISTS recipients (
+    id TEXT PRIMARY KEY,
+    note_id TEXT NOT NULL,
+    -- Order the recipients were listed in when the note was submitted
+    position INTEGER NOT NULL,
+    wrapped_key TEXT NOT NULL,
+    max_views INTEGER,
+    view_count INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_recipients_note_id ON recipients(note_id);
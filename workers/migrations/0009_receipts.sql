@@ -0,0 +1,24 @@
+-- Read receipts, one per note, kept for a week after the note expires
+-- Only times are recorded, never who viewed the note. webhook is the sender's
+-- webhook URL encrypted under a key derived from the WEBHOOK_SECRET secret
+CREATE TABLE IF NOT EXISTS receipts (
+    note_id TEXT PRIMARY KEY,
+    -- SHA-256 (hex) of the sender's receipt token
+    token_hash TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    -- The note's expiry, kept in step when its TTL is changed
+    expires_at INTEGER NOT NULL,
+    first_viewed_at INTEGER,
+    webhook TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_receipts_expires_at ON receipts(expires_at);
+
+-- Each view of a note, through its own link or one of its recipients' links
+CREATE TABLE IF NOT EXISTS receipt_views (
+    note_id TEXT NOT NULL,
+    viewed_at INTEGER NOT NULL,
+    recipient_id TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_receipt_views_note_id ON receipt_views(note_id);
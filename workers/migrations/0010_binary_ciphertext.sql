@@ -0,0 +1,25 @@
+-- Store note ciphertext and IVs as bytes rather than base64url text, which is
+-- a third larger. SQLite can't change a column's type, so the table is rebuilt.
+-- Existing rows are copied unchanged and keep their base64url text, which the
+-- worker still reads (see src/encoding.ts).
+CREATE TABLE texts_binary (
+    id TEXT PRIMARY KEY,
+    cipher_text BLOB NOT NULL,
+    iv BLOB NOT NULL,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL,
+    max_views INTEGER,
+    view_count INTEGER NOT NULL DEFAULT 0,
+    requires_password INTEGER NOT NULL DEFAULT 0,
+    -- SHA-256 (hex) of the owner's manage token
+    manage_token_hash TEXT
+);
+
+INSERT INTO texts_binary (id, cipher_text, iv, created_at, expires_at, max_views, view_count, requires_password, manage_token_hash)
+SELECT id, cipher_text, iv, created_at, expires_at, max_views, view_count, requires_password, manage_token_hash FROM texts;
+
+DROP TABLE texts;
+
+ALTER TABLE texts_binary RENAME TO texts;
+
+CREATE INDEX IF NOT EXISTS idx_expires_at ON texts(expires_at);
@@ -0,0 +1,14 @@
+-- Ciphertexts too large for a single D1 value are split over ordered rows in
+-- text_chunks (see src/text-chunks.ts). A chunked text keeps an empty
+-- cipher_text and records how many chunks it has, so a missing one is noticed.
+-- A burned text's chunks outlive its row while they are streamed, so they get a
+-- delete_after time before which the purge leaves them alone.
+ALTER TABLE texts ADD COLUMN chunk_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS text_chunks (
+    text_id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    data BLOB NOT NULL,
+    delete_after INTEGER,
+    PRIMARY KEY (text_id, position)
+);
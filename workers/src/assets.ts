@@ -0,0 +1,63 @@
+/**
+ * The frontend, served from the Vite build by the ASSETS binding
+ * The Worker runs before the asset server for every request (see
+ * `run_worker_first` in wrangler.jsonc), so /api paths reach the router and
+ * everything else comes here. App routes such as /n/{id}, /to/{recipientId},
+ * /manage/{id} and /r/{id} have no file of their own and get index.html,
+ * leaving the route to the single-page app.
+ */
+
+// Only what the app itself loads. Keys are derived and notes decrypted in
+// this document, so no script from anywhere else may run in it.
+export const HTML_CSP = [
+	"default-src 'self'",
+	"script-src 'self'",
+	"style-src 'self'",
+	"img-src 'self' data: blob:",
+	"connect-src 'self'",
+	"object-src 'none'",
+	"base-uri 'none'",
+	"form-action 'self'",
+	"frame-ancestors 'none'"
+].join('; ');
+
+// Vite puts content-hashed files under /assets, so a given URL never changes
+const IMMUTABLE_PREFIX = '/assets/';
+
+// Paths whose last segment has an extension are files, and a missing file is a
+// 404 rather than the app
+function isAppRoute(path: string): boolean {
+	return !/\.[A-Za-z0-9]+$/.test(path);
+}
+
+function withAssetHeaders(response: Response, path: string): Response {
+	const headers = new Headers(response.headers);
+	headers.set('X-Content-Type-Options', 'nosniff');
+	headers.set('Referrer-Policy', 'no-referrer');
+
+	if (headers.get('Content-Type')?.startsWith('text/html')) {
+		headers.set('Content-Security-Policy', HTML_CSP);
+		// Always revalidate, so a deploy is picked up on the next load
+		headers.set('Cache-Control', 'no-cache');
+	} else if (response.ok && path.startsWith(IMMUTABLE_PREFIX)) {
+		headers.set('Cache-Control', 'public, max-age=31536000, immutable');
+	}
+
+	return new Response(response.body, { status: response.status, statusText: response.statusText, headers });
+}
+
+/**
+ * Serve a request for the frontend from `assets`, falling back to index.html
+ * for app routes
+ */
+export async function serveAsset(request: Request, assets: Fetcher): Promise<Response> {
+	const url = new URL(request.url);
+	let response = await assets.fetch(request);
+
+	if (response.status === 404 && (request.method === 'GET' || request.method === 'HEAD') && isAppRoute(url.pathname)) {
+		// "/" rather than "/index.html", which the asset server redirects to "/"
+		response = await assets.fetch(new Request(new URL('/', url), request));
+	}
+
+	return withAssetHeaders(response, url.pathname);
+}
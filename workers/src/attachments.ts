@@ -0,0 +1,307 @@
+/**
+ * Encrypted file attachments
+ * Files are encrypted client-side and uploaded to R2 in chunks before the note
+ * is submitted. Submitting the note claims them, after which they can only be
+ * downloaded, and they expire together with the note.
+ */
+
+import type { AttachmentInfo, AttachmentSummary, ChunkUploadResponse, UploadResponse } from '../../shared/api';
+import { getConfig } from './config';
+import type { Env } from './env';
+import { generateId } from './id';
+import { errorResponse, successResponse } from './http';
+import type { Route, RouteContext } from './router';
+import { isBodyTooLarge } from './validation';
+
+// Size of each uploaded chunk (the last chunk may be smaller)
+export const CHUNK_SIZE = 4 * 1024 * 1024;
+// Largest encrypted attachment accepted
+export const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024;
+// Maximum number of attachments on a single note
+export const MAX_ATTACHMENTS = 5;
+// How long an upload can wait to be claimed by a note (seconds)
+const UNCLAIMED_TTL = 3600;
+// How long a burned note's attachments stay downloadable after its last view (seconds)
+const BURN_GRACE_PERIOD = 600;
+
+const CHUNK_INDEX = /^\d+$/;
+
+function chunkKey(id: string, index: number): string {
+	return `attachments/${id}/${index}`;
+}
+
+function expectedChunkSize(size: number, chunkCount: number, index: number): number {
+	return index < chunkCount - 1 ? CHUNK_SIZE : size - CHUNK_SIZE * (chunkCount - 1);
+}
+
+/**
+ * Delete an attachment's chunks from R2 and its row from D1
+ */
+export async function deleteAttachment(env: Env, id: string, chunkCount: number): Promise<void> {
+	const keys = Array.from({ length: chunkCount }, (_, index) => chunkKey(id, index));
+	await env.BLOBS.delete(keys);
+	await env.DB.prepare('DELETE FROM attachments WHERE id = ?').bind(id).run();
+}
+
+/**
+ * Check that every attachment can be claimed by a new note: it exists, has not
+ * been claimed or expired, and all of its chunks have been uploaded.
+ * Returns an error message, or null if all are ready.
+ */
+export async function checkAttachmentsReady(env: Env, ids: string[]): Promise<string | null> {
+	const now = Math.floor(Date.now() / 1000);
+
+	for (const id of ids) {
+		const row = await env.DB.prepare(
+			'SELECT chunk_count, note_id, expires_at FROM attachments WHERE id = ?'
+		)
+			.bind(id)
+			.first();
+
+		if (!row || row.note_id !== null || (row.expires_at as number) < now) {
+			return `Attachment not found: ${id}`;
+		}
+
+		const uploaded = await env.BLOBS.list({ prefix: `attachments/${id}/` });
+		if (uploaded.objects.length !== row.chunk_count) {
+			return `Attachment upload is incomplete: ${id}`;
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Statements that attach uploads to a note, run in the same batch as the
+ * note's INSERT so the attachments share its expiry
+ */
+export function claimAttachments(env: Env, ids: string[], noteId: string, expiresAt: number): D1PreparedStatement[] {
+	return ids.map(id =>
+		env.DB.prepare('UPDATE attachments SET note_id = ?, expires_at = ? WHERE id = ? AND note_id IS NULL')
+			.bind(noteId, expiresAt, id)
+	);
+}
+
+/**
+ * Attachment metadata for a note, as returned by the fetch endpoints
+ */
+export async function listAttachments(env: Env, noteId: string): Promise<AttachmentInfo[]> {
+	const { results } = await env.DB.prepare(
+		'SELECT id, size, chunk_count FROM attachments WHERE note_id = ? ORDER BY created_at, id'
+	)
+		.bind(noteId)
+		.all();
+
+	return results.map(row => ({
+		id: row.id as string,
+		size: row.size as number,
+		chunkCount: row.chunk_count as number
+	}));
+}
+
+/**
+ * Sizes of a note's attachments, as returned by the meta endpoints. These
+ * don't count a view, so they leave out the IDs needed to download them.
+ */
+export async function summarizeAttachments(env: Env, noteId: string): Promise<AttachmentSummary[]> {
+	return (await listAttachments(env, noteId)).map(({ size }) => ({ size }));
+}
+
+/**
+ * Give a burned note's attachments a short grace period instead of deleting
+ * them outright, so the viewer can still download them after the last view
+ */
+export async function expireAttachmentsSoon(env: Env, noteId: string, now: number): Promise<void> {
+	await env.DB.prepare('UPDATE attachments SET expires_at = MIN(expires_at, ?) WHERE note_id = ?')
+		.bind(now + BURN_GRACE_PERIOD, noteId)
+		.run();
+}
+
+/**
+ * Delete one batch of expired attachments, claimed or not, along with their
+ * chunks. Returns how many attachments and chunks were removed.
+ */
+export async function purgeExpiredAttachments(
+	env: Env,
+	now: number,
+	limit: number
+): Promise<{ attachments: number; chunks: number }> {
+	const { results } = await env.DB.prepare(
+		'SELECT id, chunk_count FROM attachments WHERE expires_at < ? ORDER BY expires_at LIMIT ?'
+	)
+		.bind(now, limit)
+		.all();
+
+	if (results.length === 0) {
+		return { attachments: 0, chunks: 0 };
+	}
+
+	const keys = results.flatMap(row =>
+		Array.from({ length: row.chunk_count as number }, (_, index) => chunkKey(row.id as string, index))
+	);
+	await env.BLOBS.delete(keys);
+	await env.DB.batch(
+		results.map(row => env.DB.prepare('DELETE FROM attachments WHERE id = ?').bind(row.id))
+	);
+
+	return { attachments: results.length, chunks: keys.length };
+}
+
+// POST /attachments - Start an upload
+async function createUpload({ request, env, corsHeaders }: RouteContext): Promise<Response> {
+	let body: { size?: unknown };
+	try {
+		body = await request.json();
+	} catch {
+		return errorResponse(400, 'Invalid JSON body', corsHeaders);
+	}
+	const { size } = body;
+
+	if (!Number.isInteger(size) || (size as number) < 1) {
+		return errorResponse(400, 'size must be a positive integer', corsHeaders);
+	}
+	if ((size as number) > MAX_ATTACHMENT_SIZE) {
+		return errorResponse(413, `Attachment exceeds the maximum size of ${MAX_ATTACHMENT_SIZE} bytes`, corsHeaders);
+	}
+
+	const id = generateId(getConfig(env).idLength);
+	const now = Math.floor(Date.now() / 1000);
+	const chunkCount = Math.ceil((size as number) / CHUNK_SIZE);
+
+	await env.DB.prepare(
+		'INSERT INTO attachments (id, size, chunk_count, created_at, expires_at) VALUES (?, ?, ?, ?, ?)'
+	)
+		.bind(id, size, chunkCount, now, now + UNCLAIMED_TTL)
+		.run();
+
+	return successResponse<UploadResponse>({ id, chunkSize: CHUNK_SIZE, chunkCount }, corsHeaders);
+}
+
+// PUT /attachments/{id}/chunks/{index} - Upload one chunk
+async function uploadChunk({ request, env, params, corsHeaders }: RouteContext): Promise<Response> {
+	const { id } = params;
+	if (!CHUNK_INDEX.test(params.index)) {
+		return errorResponse(400, 'Chunk index out of range', corsHeaders);
+	}
+	const index = Number(params.index);
+
+	const now = Math.floor(Date.now() / 1000);
+	const row = await env.DB.prepare(
+		'SELECT size, chunk_count, note_id, expires_at FROM attachments WHERE id = ?'
+	)
+		.bind(id)
+		.first();
+
+	if (!row || (row.expires_at as number) < now) {
+		return errorResponse(404, 'Attachment not found', corsHeaders);
+	}
+	if (row.note_id !== null) {
+		return errorResponse(409, 'Attachment has already been submitted', corsHeaders);
+	}
+
+	const chunkCount = row.chunk_count as number;
+	if (index >= chunkCount) {
+		return errorResponse(400, 'Chunk index out of range', corsHeaders);
+	}
+
+	const expectedSize = expectedChunkSize(row.size as number, chunkCount, index);
+	if (isBodyTooLarge(request, expectedSize)) {
+		return errorResponse(413, `Chunk exceeds its expected size of ${expectedSize} bytes`, corsHeaders);
+	}
+
+	const data = await request.arrayBuffer();
+	if (data.byteLength !== expectedSize) {
+		return errorResponse(400, 'Unexpected chunk size', corsHeaders);
+	}
+
+	await env.BLOBS.put(chunkKey(id, index), data);
+
+	return successResponse<ChunkUploadResponse>({ id, index }, corsHeaders);
+}
+
+// GET /attachments/{id}/chunks/{index} - Download one chunk
+async function downloadChunk({ env, params, corsHeaders }: RouteContext): Promise<Response> {
+	const { id } = params;
+	if (!CHUNK_INDEX.test(params.index)) {
+		return errorResponse(404, 'Attachment not found', corsHeaders);
+	}
+	const index = Number(params.index);
+
+	const now = Math.floor(Date.now() / 1000);
+	const row = await env.DB.prepare(
+		'SELECT chunk_count, note_id, expires_at FROM attachments WHERE id = ?'
+	)
+		.bind(id)
+		.first();
+
+	// Unclaimed uploads are never downloadable
+	if (!row || row.note_id === null) {
+		return errorResponse(404, 'Attachment not found', corsHeaders);
+	}
+
+	if ((row.expires_at as number) < now) {
+		await deleteAttachment(env, id, row.chunk_count as number);
+		return errorResponse(410, 'Attachment has expired', corsHeaders);
+	}
+
+	const object = await env.BLOBS.get(chunkKey(id, index));
+	if (!object) {
+		return errorResponse(404, 'Attachment not found', corsHeaders);
+	}
+
+	return new Response(object.body, {
+		status: 200,
+		headers: {
+			...corsHeaders,
+			'Content-Type': 'application/octet-stream',
+			'Content-Length': String(object.size)
+		}
+	});
+}
+
+export const attachmentRoutes: Route[] = [
+	{
+		method: 'POST',
+		path: '/attachments',
+		handler: createUpload,
+		failure: 'Failed to start upload',
+		// Each upload reserves up to MAX_ATTACHMENT_SIZE of storage
+		rateLimit: 'submit',
+		doc: {
+			summary: 'Start an attachment upload',
+			description: `Files are encrypted client-side and uploaded in ${CHUNK_SIZE}-byte chunks. Unclaimed uploads expire after an hour.`,
+			tag: 'Attachments',
+			requestBody: 'UploadRequest',
+			response: 'UploadResponse',
+			errors: [400, 413]
+		}
+	},
+	{
+		method: 'PUT',
+		path: '/attachments/:id/chunks/:index',
+		handler: uploadChunk,
+		failure: 'Failed to transfer attachment',
+		rateLimit: 'upload',
+		doc: {
+			summary: 'Upload one chunk of an attachment',
+			tag: 'Attachments',
+			requestBody: 'binary',
+			response: 'ChunkUploadResponse',
+			errors: [400, 404, 409, 413]
+		}
+	},
+	{
+		method: 'GET',
+		path: '/attachments/:id/chunks/:index',
+		handler: downloadChunk,
+		failure: 'Failed to transfer attachment',
+		rateLimit: 'fetch',
+		doc: {
+			summary: 'Download one chunk of an attachment',
+			description: 'Only attachments that belong to a submitted note can be downloaded.',
+			tag: 'Attachments',
+			response: 'binary',
+			errors: [404, 410]
+		}
+	}
+];
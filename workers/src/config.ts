@@ -0,0 +1,57 @@
+/**
+ * Deployment settings read from Env
+ * Each setting can be changed under `vars` in wrangler.jsonc. Unset or invalid
+ * values fall back to the defaults below rather than failing requests.
+ */
+
+import type { Env } from './env';
+import { MIN_TTL } from './validation';
+
+export const DEFAULT_ALLOWED_ORIGINS = ['*'];
+// 30 days
+export const DEFAULT_MAX_TTL = 2592000;
+// Default maximum length of the base64url cipherText
+export const DEFAULT_MAX_CIPHERTEXT_SIZE = 1048576;
+// 12 base64url characters is ~72 bits of entropy
+export const DEFAULT_ID_LENGTH = 12;
+export const DEFAULT_SITE_NAME = 'TXToo';
+
+// Shorter IDs could be guessed; longer ones would not pass the API's ID checks
+const MIN_ID_LENGTH = 8;
+const MAX_ID_LENGTH = 64;
+
+export interface Config {
+	// Hostnames (which also match their subdomains) or exact origins allowed to
+	// call the API from another origin. ['*'] allows any.
+	allowedOrigins: string[];
+	// Longest TTL a note or secret request can be given, in seconds
+	maxTtl: number;
+	// Maximum length of a note's base64url cipherText, in characters
+	maxCiphertextSize: number;
+	// Length of generated note, recipient, request and attachment IDs
+	idLength: number;
+	// Shown in the API overview and the OpenAPI document
+	siteName: string;
+}
+
+function parseInteger(value: string | undefined, fallback: number, min: number, max = Number.MAX_SAFE_INTEGER): number {
+	if (value === undefined || value === '') return fallback;
+	const parsed = Number(value);
+	return Number.isInteger(parsed) && parsed >= min && parsed <= max ? parsed : fallback;
+}
+
+function parseList(value: string | undefined, fallback: string[]): string[] {
+	const items = (value ?? '').split(',').map(item => item.trim()).filter(item => item.length > 0);
+	return items.length > 0 ? items : fallback;
+}
+
+export function getConfig(env: Env): Config {
+	return {
+		allowedOrigins: parseList(env.ALLOWED_ORIGINS, DEFAULT_ALLOWED_ORIGINS),
+		// Never below the shortest TTL the API accepts
+		maxTtl: parseInteger(env.MAX_TTL, DEFAULT_MAX_TTL, MIN_TTL),
+		maxCiphertextSize: parseInteger(env.MAX_CIPHERTEXT_SIZE, DEFAULT_MAX_CIPHERTEXT_SIZE, 1),
+		idLength: parseInteger(env.ID_LENGTH, DEFAULT_ID_LENGTH, MIN_ID_LENGTH, MAX_ID_LENGTH),
+		siteName: env.SITE_NAME?.trim() || DEFAULT_SITE_NAME
+	};
+}
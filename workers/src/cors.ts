@@ -0,0 +1,59 @@
+/**
+ * Cross-origin access to the API
+ * Allowed origins come from ALLOWED_ORIGINS (see config.ts). Requests from any
+ * other origin, preflights included, are rejected before they reach a route.
+ * Requests without an Origin header, such as the CLI's, are not cross-origin
+ * browser requests and are always let through.
+ */
+
+import type { Config } from './config';
+
+const ALLOW_METHODS = 'GET, POST, PUT, PATCH, DELETE, OPTIONS';
+const ALLOW_HEADERS = 'Content-Type, Cache-Control, Authorization, X-Requested-With';
+const EXPOSE_HEADERS = 'Retry-After';
+
+/**
+ * Whether `origin` may call the API. Entries in `allowedOrigins` are either
+ * full origins, matched exactly, or hostnames, which also match their
+ * subdomains on any scheme and port. The worker's own origin is always allowed.
+ */
+export function isOriginAllowed(origin: string, requestUrl: URL, allowedOrigins: string[]): boolean {
+	if (allowedOrigins.includes('*') || origin === requestUrl.origin) {
+		return true;
+	}
+
+	let originHost: string;
+	try {
+		originHost = new URL(origin).hostname;
+	} catch {
+		// Browsers send "null" from sandboxed frames and file:// pages
+		return false;
+	}
+
+	return allowedOrigins.some(allowed => allowed.includes('://')
+		? origin === allowed.replace(/\/$/, '')
+		: originHost === allowed || originHost.endsWith(`.${allowed}`));
+}
+
+/**
+ * CORS headers for a request, or null if its origin is not allowed
+ */
+export function getCorsHeaders(request: Request, config: Config): Record<string, string> | null {
+	const origin = request.headers.get('Origin');
+	const wildcard = config.allowedOrigins.includes('*');
+
+	if (origin && !isOriginAllowed(origin, new URL(request.url), config.allowedOrigins)) {
+		return null;
+	}
+
+	return {
+		// With a list of origins, the allowed one is echoed back, so caches must
+		// keep responses for different origins apart
+		...(wildcard
+			? { 'Access-Control-Allow-Origin': '*' }
+			: { ...(origin && { 'Access-Control-Allow-Origin': origin }), Vary: 'Origin' }),
+		'Access-Control-Allow-Methods': ALLOW_METHODS,
+		'Access-Control-Allow-Headers': ALLOW_HEADERS,
+		'Access-Control-Expose-Headers': EXPOSE_HEADERS
+	};
+}
@@ -0,0 +1,69 @@
+/**
+ * base64url and the stored form of ciphertext
+ * Notes' cipher_text and iv are BLOB columns (migration 0010). A value is
+ * stored as bytes when its base64url decodes to them and encodes back to the
+ * same text. Anything else, including rows written before the migration, is
+ * stored and served back as the text it was submitted as.
+ */
+
+const BASE64URL_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+// Bytes passed to String.fromCharCode at once, well under the argument limit
+const ENCODE_CHUNK = 0x8000;
+
+export function toBase64Url(bytes: Uint8Array): string {
+	let binary = '';
+	for (let offset = 0; offset < bytes.length; offset += ENCODE_CHUNK) {
+		binary += String.fromCharCode(...bytes.subarray(offset, offset + ENCODE_CHUNK));
+	}
+	return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '');
+}
+
+export function fromBase64Url(value: string): Uint8Array {
+	const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+	return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+/**
+ * Length of the unpadded base64url encoding of `byteLength` bytes
+ */
+export function base64UrlLength(byteLength: number): number {
+	return Math.ceil(byteLength * 4 / 3);
+}
+
+// Whether a base64url string is exactly what encoding its bytes would give:
+// not a length no bytes encode to, and no stray bits in its last character
+function isCanonicalBase64Url(value: string): boolean {
+	const remainder = value.length % 4;
+	if (remainder === 0) return true;
+	if (remainder === 1) return false;
+
+	const last = BASE64URL_ALPHABET.indexOf(value[value.length - 1]);
+	return (last & (remainder === 2 ? 0x0f : 0x03)) === 0;
+}
+
+/**
+ * The value to bind for a cipher_text or iv column, given the validated
+ * base64url text or the raw bytes of a binary submit
+ */
+export function toStored(value: string | Uint8Array): Uint8Array | string {
+	if (typeof value !== 'string') return value;
+	return isCanonicalBase64Url(value) ? fromBase64Url(value) : value;
+}
+
+/**
+ * A cipher_text or iv column as base64url, for JSON responses
+ */
+export function storedToBase64Url(value: unknown): string {
+	return typeof value === 'string' ? value : toBase64Url(storedToBytes(value));
+}
+
+/**
+ * A cipher_text or iv column as bytes, for binary responses
+ */
+export function storedToBytes(value: unknown): Uint8Array {
+	if (typeof value === 'string') return fromBase64Url(value);
+	if (value instanceof ArrayBuffer) return new Uint8Array(value);
+	// D1 has returned BLOBs as arrays of byte values
+	if (Array.isArray(value)) return Uint8Array.from(value as number[]);
+	return value as Uint8Array;
+}
@@ -0,0 +1,23 @@
+export interface Env {
+	DB: D1Database;
+	BLOBS: R2Bucket;
+	// The frontend's build, served for every path outside /api (unset when it is hosted elsewhere)
+	ASSETS?: Fetcher;
+	// Comma-separated hostnames or origins allowed to call the API cross-origin ("*" allows any)
+	ALLOWED_ORIGINS?: string;
+	// Longest TTL a note or secret request can be given, in seconds
+	MAX_TTL?: string;
+	// Maximum length of a note's base64url cipherText, in characters
+	MAX_CIPHERTEXT_SIZE?: string;
+	// Length of generated IDs, between 8 and 64 characters
+	ID_LENGTH?: string;
+	// Name shown in the API overview and OpenAPI document
+	SITE_NAME?: string;
+	// Rate limit window in seconds, and requests allowed per IP in each window (0 disables)
+	RATE_LIMIT_WINDOW?: string;
+	RATE_LIMIT_SUBMIT?: string;
+	RATE_LIMIT_UPLOAD?: string;
+	RATE_LIMIT_FETCH?: string;
+	// Secret the stored webhook URLs are encrypted under, set with `wrangler secret put` (unset disables webhooks)
+	WEBHOOK_SECRET?: string;
+}
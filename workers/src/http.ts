@@ -0,0 +1,107 @@
+/**
+ * Response helpers for the standard `{ type, status, message, data }` JSON shape
+ */
+
+import { BINARY_CONTENT_TYPE, encodeBinaryBody, type ApiErrorCode, type ApiError } from '../../shared/api';
+
+// Every error carries a code derived from its status, so clients can branch on
+// `code` without parsing messages
+export const ERROR_CODES: Record<number, ApiErrorCode> = {
+	400: 'bad_request',
+	401: 'unauthorized',
+	403: 'forbidden',
+	404: 'not_found',
+	405: 'method_not_allowed',
+	409: 'conflict',
+	410: 'expired',
+	413: 'payload_too_large',
+	422: 'validation_failed',
+	429: 'rate_limited',
+	500: 'internal_error'
+};
+
+// Sent with every response. The API only returns JSON and binary chunks, so
+// nothing it serves should ever load resources, be framed or be sniffed as HTML.
+export const SECURITY_HEADERS: Record<string, string> = {
+	'Content-Security-Policy': "default-src 'none'; frame-ancestors 'none'",
+	'Referrer-Policy': 'no-referrer',
+	'X-Content-Type-Options': 'nosniff'
+};
+
+/**
+ * Copy of `response` with SECURITY_HEADERS set
+ */
+export function withSecurityHeaders(response: Response): Response {
+	const secured = new Response(response.body, response);
+	for (const [name, value] of Object.entries(SECURITY_HEADERS)) {
+		secured.headers.set(name, value);
+	}
+	return secured;
+}
+
+export function jsonResponse(
+	body: object,
+	status: number,
+	corsHeaders: Record<string, string>
+): Response {
+	return new Response(JSON.stringify(body), {
+		status,
+		headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+	});
+}
+
+export function successResponse<T extends object>(data: T, corsHeaders: Record<string, string>): Response {
+	return jsonResponse({ type: 'success', status: 200, data }, 200, corsHeaders);
+}
+
+/**
+ * Success response in the binary framing of shared/api.ts: `fields` as JSON,
+ * followed by `data`. A stream is passed through as it is read, after the fields.
+ */
+export function binaryResponse<T extends object>(
+	fields: T,
+	data: Uint8Array | ReadableStream<Uint8Array>,
+	corsHeaders: Record<string, string>
+): Response {
+	const body = data instanceof ReadableStream
+		? prependBytes(encodeBinaryBody(fields, new Uint8Array(0)), data)
+		: encodeBinaryBody(fields, data);
+	return new Response(body, {
+		status: 200,
+		headers: { ...corsHeaders, 'Content-Type': BINARY_CONTENT_TYPE }
+	});
+}
+
+// `first`, then everything `rest` yields
+function prependBytes(first: Uint8Array, rest: ReadableStream<Uint8Array>): ReadableStream<Uint8Array> {
+	const reader = rest.getReader();
+	let started = false;
+
+	return new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			if (!started) {
+				started = true;
+				controller.enqueue(first);
+				return;
+			}
+
+			const { done, value } = await reader.read();
+			if (done) {
+				controller.close();
+			} else {
+				controller.enqueue(value);
+			}
+		},
+		cancel: reason => reader.cancel(reason)
+	});
+}
+
+export function errorResponse(
+	status: number,
+	message: string,
+	corsHeaders: Record<string, string>,
+	extra: Pick<ApiError, 'errors'> = {}
+): Response {
+	const body: ApiError = { type: 'error', status, code: ERROR_CODES[status] ?? 'internal_error', message, ...extra };
+	return jsonResponse(body, status, corsHeaders);
+}
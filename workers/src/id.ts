@@ -0,0 +1,17 @@
+/**
+ * Generate a cryptographically secure, URL-safe ID
+ * Uses Web Crypto API to generate random bytes and encodes them as base64url
+ * Default length of 12 characters provides ~72 bits of entropy (281 trillion combinations)
+ */
+export function generateId(length: number = 12): string {
+	const bytes = new Uint8Array(Math.ceil(length * 3 / 4));
+	crypto.getRandomValues(bytes);
+
+	// Convert to base64url (URL-safe base64)
+	const base64 = btoa(String.fromCharCode(...bytes))
+		.replace(/\+/g, '-')
+		.replace(/\//g, '_')
+		.replace(/=/g, '');
+
+	return base64.substring(0, length);
+}
@@ -0,0 +1,250 @@
+/**
+ * Owner management of a submitted note
+ * /api/submit hands the creator a secret manage token, of which only a SHA-256
+ * hash is stored. Presenting the token as a Bearer credential lets the owner
+ * revoke the note, revoke individual recipients, or change how long it lives.
+ */
+
+import type {
+	DeleteNoteResponse,
+	DeleteRecipientResponse,
+	RecipientsResponse,
+	UpdateNoteResponse
+} from '../../shared/api';
+import { getConfig } from './config';
+import type { Env } from './env';
+import { deleteAttachment } from './attachments';
+import { errorResponse, successResponse } from './http';
+import { generateId } from './id';
+import { updateReceiptExpiry } from './receipts';
+import { deleteNoteIfUnreachable } from './recipients';
+import type { Route, RouteContext } from './router';
+import { deleteTextChunks } from './text-chunks';
+import { ttlError } from './validation';
+
+// 43 base64url characters is 256 bits
+const MANAGE_TOKEN_LENGTH = 43;
+
+async function hashToken(token: string): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+	return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Create a manage token for a new note, returning the token for the owner and
+ * the hash to store
+ */
+export async function createManageToken(): Promise<{ token: string; hash: string }> {
+	const token = generateId(MANAGE_TOKEN_LENGTH);
+	return { token, hash: await hashToken(token) };
+}
+
+/**
+ * The request's Bearer token, or null if it has none
+ */
+export function getBearerToken(request: Request): string | null {
+	return request.headers.get('Authorization')?.match(/^Bearer (\S+)$/)?.[1] ?? null;
+}
+
+/**
+ * Compare a presented token against a stored hash in constant time.
+ * A missing hash never matches.
+ */
+export async function tokenMatches(storedHash: string | null, token: string): Promise<boolean> {
+	const stored = new TextEncoder().encode(storedHash ?? '');
+	const presented = new TextEncoder().encode(await hashToken(token));
+	return stored.byteLength === presented.byteLength && crypto.subtle.timingSafeEqual(stored, presented);
+}
+
+/**
+ * Check the request's Bearer token against the note's stored hash.
+ * Returns an error response, or null if the caller owns the note.
+ */
+async function authorize(
+	request: Request,
+	env: Env,
+	id: string,
+	now: number,
+	corsHeaders: Record<string, string>
+): Promise<Response | null> {
+	const token = getBearerToken(request);
+	if (!token) {
+		return errorResponse(401, 'Missing manage token', corsHeaders);
+	}
+
+	const row = await env.DB.prepare('SELECT manage_token_hash, expires_at FROM texts WHERE id = ?')
+		.bind(id)
+		.first();
+
+	if (!row || (row.expires_at as number) < now) {
+		return errorResponse(404, 'Text not found', corsHeaders);
+	}
+
+	// Notes created before manage tokens existed cannot be managed
+	if (!(await tokenMatches(row.manage_token_hash as string | null, token))) {
+		return errorResponse(403, 'Invalid manage token', corsHeaders);
+	}
+
+	return null;
+}
+
+// DELETE /notes/{id} - Revoke a note and its attachments
+async function deleteNote({ request, env, params, corsHeaders }: RouteContext): Promise<Response> {
+	const { id } = params;
+	const authError = await authorize(request, env, id, Math.floor(Date.now() / 1000), corsHeaders);
+	if (authError) {
+		return authError;
+	}
+
+	const { results } = await env.DB.prepare('SELECT id, chunk_count FROM attachments WHERE note_id = ?')
+		.bind(id)
+		.all();
+
+	await env.DB.batch([
+		env.DB.prepare('DELETE FROM texts WHERE id = ?').bind(id),
+		deleteTextChunks(env, id),
+		env.DB.prepare('DELETE FROM recipients WHERE note_id = ?').bind(id)
+	]);
+	for (const attachment of results) {
+		await deleteAttachment(env, attachment.id as string, attachment.chunk_count as number);
+	}
+
+	return successResponse<DeleteNoteResponse>({ id, deleted: true }, corsHeaders);
+}
+
+// PATCH /notes/{id} - Set a new TTL, counted from now
+async function updateNote({ request, env, params, corsHeaders }: RouteContext): Promise<Response> {
+	const { id } = params;
+	const now = Math.floor(Date.now() / 1000);
+	const authError = await authorize(request, env, id, now, corsHeaders);
+	if (authError) {
+		return authError;
+	}
+
+	let body: { ttl?: unknown };
+	try {
+		body = await request.json();
+	} catch {
+		return errorResponse(400, 'Invalid JSON body', corsHeaders);
+	}
+
+	const { ttl } = body;
+	const invalidTtl = ttlError(ttl, getConfig(env).maxTtl);
+	if (invalidTtl) {
+		return errorResponse(422, `ttl ${invalidTtl}`, corsHeaders);
+	}
+
+	const expiresAt = now + (ttl as number);
+	await env.DB.batch([
+		env.DB.prepare('UPDATE texts SET expires_at = ? WHERE id = ?').bind(expiresAt, id),
+		env.DB.prepare('UPDATE attachments SET expires_at = ? WHERE note_id = ?').bind(expiresAt, id),
+		updateReceiptExpiry(env, id, expiresAt)
+	]);
+
+	return successResponse<UpdateNoteResponse>({ id, expiresAt }, corsHeaders);
+}
+
+// GET /notes/{id}/recipients - Each recipient's remaining views
+async function listRecipients({ request, env, params, corsHeaders }: RouteContext): Promise<Response> {
+	const { id } = params;
+	const authError = await authorize(request, env, id, Math.floor(Date.now() / 1000), corsHeaders);
+	if (authError) {
+		return authError;
+	}
+
+	const { results } = await env.DB.prepare(
+		'SELECT id, position, max_views, view_count FROM recipients WHERE note_id = ? ORDER BY position'
+	)
+		.bind(id)
+		.all();
+
+	return successResponse<RecipientsResponse>({
+		recipients: results.map(row => ({
+			id: row.id as string,
+			position: row.position as number,
+			maxViews: row.max_views as number | null,
+			remainingViews: row.max_views === null ? null : (row.max_views as number) - (row.view_count as number)
+		}))
+	}, corsHeaders);
+}
+
+// DELETE /notes/{id}/recipients/{recipientId} - Revoke one recipient's link
+async function deleteRecipient({ request, env, params, corsHeaders }: RouteContext): Promise<Response> {
+	const { id, recipientId } = params;
+	const now = Math.floor(Date.now() / 1000);
+	const authError = await authorize(request, env, id, now, corsHeaders);
+	if (authError) {
+		return authError;
+	}
+
+	// Deleting the wrapped key is what revokes the link
+	const { meta } = await env.DB.prepare('DELETE FROM recipients WHERE id = ? AND note_id = ?')
+		.bind(recipientId, id)
+		.run();
+	if (meta.changes === 0) {
+		return errorResponse(404, 'Recipient not found', corsHeaders);
+	}
+
+	const noteDeleted = await deleteNoteIfUnreachable(env, id, now);
+	return successResponse<DeleteRecipientResponse>({ id: recipientId, deleted: true, noteDeleted }, corsHeaders);
+}
+
+export const manageRoutes: Route[] = [
+	{
+		method: 'DELETE',
+		path: '/notes/:id',
+		handler: deleteNote,
+		failure: 'Failed to revoke note',
+		doc: {
+			summary: 'Revoke a note',
+			description: 'Deletes the note and its attachments immediately.',
+			tag: 'Management',
+			response: 'DeleteNoteResponse',
+			errors: [401, 403, 404],
+			auth: true
+		}
+	},
+	{
+		method: 'PATCH',
+		path: '/notes/:id',
+		handler: updateNote,
+		failure: 'Failed to update note',
+		doc: {
+			summary: 'Change when a note expires',
+			description: 'The new TTL is counted from now and also applies to the note\'s attachments.',
+			tag: 'Management',
+			requestBody: 'UpdateNoteRequest',
+			response: 'UpdateNoteResponse',
+			errors: [400, 401, 403, 404, 422],
+			auth: true
+		}
+	},
+	{
+		method: 'GET',
+		path: '/notes/:id/recipients',
+		handler: listRecipients,
+		failure: 'Failed to retrieve recipients',
+		doc: {
+			summary: 'List a note\'s recipients',
+			description: 'Returns each recipient\'s remaining views, in the order they were submitted. Revoked recipients are not listed.',
+			tag: 'Management',
+			response: 'RecipientsResponse',
+			errors: [401, 403, 404],
+			auth: true
+		}
+	},
+	{
+		method: 'DELETE',
+		path: '/notes/:id/recipients/:recipientId',
+		handler: deleteRecipient,
+		failure: 'Failed to revoke recipient',
+		doc: {
+			summary: 'Revoke one recipient\'s link',
+			description: 'The other recipients\' links keep working. Once no recipient can open the note any more, the note is deleted too.',
+			tag: 'Management',
+			response: 'DeleteRecipientResponse',
+			errors: [401, 403, 404],
+			auth: true
+		}
+	}
+];
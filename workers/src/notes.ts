@@ -0,0 +1,290 @@
+/**
+ * Storing and retrieving encrypted notes
+ * The worker only ever sees ciphertext; keys stay in the share link's fragment
+ * or with the people the password was given to.
+ */
+
+import {
+	BINARY_CONTENT_TYPE,
+	decodeBinaryBody,
+	type BinaryFetchResponse,
+	type BinarySubmitRequest,
+	type FetchResponse,
+	type MetaResponse,
+	type SubmitResponse
+} from '../../shared/api';
+import {
+	checkAttachmentsReady,
+	claimAttachments,
+	expireAttachmentsSoon,
+	listAttachments,
+	summarizeAttachments
+} from './attachments';
+import { getConfig } from './config';
+import { storedToBase64Url, storedToBytes, toStored } from './encoding';
+import { binaryResponse, errorResponse, successResponse } from './http';
+import { generateId } from './id';
+import { createManageToken } from './manage';
+import { createReceipt, notifyExpired, recordView, webhooksEnabled } from './receipts';
+import { insertRecipients } from './recipients';
+import type { Route, RouteContext } from './router';
+import { expireTextChunksSoon, hasAllChunks, readCiphertext, storeCiphertext, streamChunks } from './text-chunks';
+import { isBodyTooLarge, validateSubmit, validationErrorResponse } from './validation';
+
+function remainingViews(row: Record<string, unknown>): number | null {
+	return row.max_views === null ? null : (row.max_views as number) - (row.view_count as number);
+}
+
+// A submit's fields, with the ciphertext as bytes for the binary form, or why
+// the body can't be read
+async function readSubmitBody(request: Request): Promise<{ body: unknown } | { error: string }> {
+	if (request.headers.get('Content-Type')?.startsWith(BINARY_CONTENT_TYPE)) {
+		const framed = decodeBinaryBody<BinarySubmitRequest>(new Uint8Array(await request.arrayBuffer()));
+		return framed ? { body: { ...framed.fields, cipherText: framed.data } } : { error: 'Invalid binary body' };
+	}
+
+	try {
+		return { body: await request.json() };
+	} catch {
+		return { error: 'Invalid JSON body' };
+	}
+}
+
+// POST /submit - Store encrypted data, as JSON or in the binary framing
+async function submitNote({ request, env, corsHeaders }: RouteContext): Promise<Response> {
+	const config = getConfig(env);
+	if (isBodyTooLarge(request, config.maxCiphertextSize)) {
+		return errorResponse(413, `Request body exceeds the maximum size of ${config.maxCiphertextSize} characters`, corsHeaders);
+	}
+
+	const read = await readSubmitBody(request);
+	if ('error' in read) {
+		return errorResponse(400, read.error, corsHeaders);
+	}
+	const { body } = read;
+
+	const validation = validateSubmit(body, config);
+	if (!validation.ok) {
+		return validationErrorResponse(validation, corsHeaders);
+	}
+	const {
+		ttl,
+		cipherText,
+		iv,
+		requiresPassword,
+		attachments: attachmentIds,
+		recipients: wrappedKeys,
+		webhookUrl
+	} = validation.value;
+	// With recipients, the view limit applies to each of their links instead of the note
+	const maxViews = wrappedKeys.length > 0 ? null : validation.value.maxViews;
+
+	if (webhookUrl && !webhooksEnabled(env)) {
+		const message = 'webhooks are not enabled on this server';
+		return errorResponse(422, `webhookUrl ${message}`, corsHeaders, { errors: [{ field: 'webhookUrl', message }] });
+	}
+
+	const attachmentError = await checkAttachmentsReady(env, attachmentIds);
+	if (attachmentError) {
+		return errorResponse(400, attachmentError, corsHeaders);
+	}
+
+	// Generate unique ID
+	const id = generateId(config.idLength);
+	// Only the creator gets the token; the database keeps its hash
+	const manageToken = await createManageToken();
+	const now = Math.floor(Date.now() / 1000);
+	const expiresAt = now + ttl;
+
+	const stored = storeCiphertext(env, id, toStored(cipherText));
+	const recipients = insertRecipients(env, id, wrappedKeys, validation.value.maxViews, config.idLength);
+	const receipt = await createReceipt(env, id, now, expiresAt, webhookUrl);
+
+	// Store encrypted data in D1, with its chunks if it is large, claiming any
+	// uploaded attachments and adding recipients and the receipt in the same batch
+	await env.DB.batch([
+		env.DB.prepare(
+			'INSERT INTO texts (id, cipher_text, iv, created_at, expires_at, max_views, requires_password, manage_token_hash, chunk_count) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)'
+		)
+			.bind(id, stored.cipherText, toStored(iv), now, expiresAt, maxViews, requiresPassword ? 1 : 0, manageToken.hash, stored.chunkCount),
+		...stored.statements,
+		...claimAttachments(env, attachmentIds, id, expiresAt),
+		...recipients.statements,
+		receipt.statement
+	]);
+
+	return successResponse<SubmitResponse>({
+		id,
+		expiresAt,
+		maxViews,
+		requiresPassword,
+		manageToken: manageToken.token,
+		recipients: recipients.ids,
+		receiptToken: receipt.token
+	}, corsHeaders);
+}
+
+// GET /meta/{id} - Note metadata without the ciphertext
+// Does not count as a view, so link previews and the reveal screen can call it freely
+async function getMeta({ env, ctx, params, corsHeaders }: RouteContext): Promise<Response> {
+	const { id } = params;
+	const now = Math.floor(Date.now() / 1000);
+
+	const result = await env.DB.prepare(
+		'SELECT id, expires_at, max_views, view_count, requires_password FROM texts WHERE id = ?'
+	)
+		.bind(id)
+		.first();
+
+	if (!result) {
+		return errorResponse(404, 'Text not found', corsHeaders);
+	}
+
+	if ((result.expires_at as number) < now) {
+		await env.DB.prepare('DELETE FROM texts WHERE id = ?').bind(id).run();
+		ctx.waitUntil(notifyExpired(env, [id], now));
+		return errorResponse(410, 'Text has expired', corsHeaders);
+	}
+
+	return successResponse<MetaResponse>({
+		id: result.id as string,
+		expiresAt: result.expires_at as number,
+		maxViews: result.max_views as number | null,
+		remainingViews: remainingViews(result),
+		requiresPassword: result.requires_password === 1,
+		attachments: await summarizeAttachments(env, id)
+	}, corsHeaders);
+}
+
+// GET /fetch/{id} - Retrieve encrypted data, counting a view
+// Answers in the binary framing when the client accepts application/octet-stream
+async function fetchNote({ request, env, ctx, params, corsHeaders }: RouteContext): Promise<Response> {
+	const { id } = params;
+	const now = Math.floor(Date.now() / 1000);
+
+	// A note with a missing chunk can't be served, so this is checked before
+	// a view is used up on it
+	const stored = await env.DB.prepare('SELECT chunk_count FROM texts WHERE id = ? AND chunk_count > 0')
+		.bind(id)
+		.first();
+	if (stored && !(await hasAllChunks(env, id, stored.chunk_count as number))) {
+		return errorResponse(500, 'Stored note is incomplete', corsHeaders);
+	}
+
+	// Count the view and fetch in a single statement so concurrent
+	// requests cannot both read a note that has a view limit. Notes with
+	// recipients are only fetched through the recipients' own links.
+	const result = await env.DB.prepare(
+		`UPDATE texts SET view_count = view_count + 1
+		WHERE id = ? AND expires_at >= ? AND (max_views IS NULL OR view_count < max_views)
+		AND NOT EXISTS (SELECT 1 FROM recipients WHERE recipients.note_id = texts.id)
+		RETURNING id, cipher_text, iv, expires_at, max_views, view_count, requires_password, chunk_count`
+	)
+		.bind(id, now)
+		.first();
+
+	if (!result) {
+		const existing = await env.DB.prepare('SELECT expires_at FROM texts WHERE id = ?')
+			.bind(id)
+			.first();
+
+		// Check if expired
+		if (existing && (existing.expires_at as number) < now) {
+			// Delete expired entry
+			await env.DB.prepare('DELETE FROM texts WHERE id = ?').bind(id).run();
+			ctx.waitUntil(notifyExpired(env, [id], now));
+			return errorResponse(410, 'Text has expired', corsHeaders);
+		}
+
+		// Missing, or its last view was just consumed by another request
+		return errorResponse(404, 'Text not found', corsHeaders);
+	}
+
+	const chunkCount = result.chunk_count as number;
+
+	// Destroy the note once its final view has been handed out. Its chunks are
+	// still needed for this response, and are deleted once it has been sent.
+	const burned = result.max_views !== null && (result.view_count as number) >= (result.max_views as number);
+	if (burned) {
+		await env.DB.batch([
+			env.DB.prepare('DELETE FROM texts WHERE id = ?').bind(id),
+			expireTextChunksSoon(env, id, now)
+		]);
+		await expireAttachmentsSoon(env, id, now);
+	}
+	await recordView(env, ctx, id, now, { recipientId: null, burned });
+
+	const fields: BinaryFetchResponse = {
+		id: result.id as string,
+		iv: storedToBase64Url(result.iv),
+		expiresAt: result.expires_at as number,
+		remainingViews: remainingViews(result),
+		requiresPassword: result.requires_password === 1,
+		attachments: await listAttachments(env, id),
+		burned
+	};
+
+	if (request.headers.get('Accept')?.includes(BINARY_CONTENT_TYPE)) {
+		// Chunked notes are streamed from D1 a chunk at a time
+		const data = chunkCount > 0 ? streamChunks(env, id, chunkCount, burned) : storedToBytes(result.cipher_text);
+		return binaryResponse(fields, data, corsHeaders);
+	}
+	// Null if the note was revoked since the check above
+	const cipherText = await readCiphertext(env, id, result, burned);
+	if (cipherText === null) {
+		return errorResponse(500, 'Stored note is incomplete', corsHeaders);
+	}
+	return successResponse<FetchResponse>({
+		...fields,
+		cipher_text: storedToBase64Url(cipherText)
+	}, corsHeaders);
+}
+
+export const noteRoutes: Route[] = [
+	{
+		method: 'POST',
+		path: '/submit',
+		handler: submitNote,
+		failure: 'Failed to store data',
+		rateLimit: 'submit',
+		doc: {
+			summary: 'Store an encrypted note',
+			description: 'Returns the note ID, a manage token and a receipt token. Only the tokens\' hashes are stored, so they cannot be recovered later. As application/octet-stream, the body is [fields length u32 BE][SubmitRequest JSON without cipherText][ciphertext bytes].',
+			tag: 'Notes',
+			requestBody: 'SubmitRequest',
+			response: 'SubmitResponse',
+			errors: [400, 413, 422],
+			binary: 'request'
+		}
+	},
+	{
+		method: 'GET',
+		path: '/meta/:id',
+		handler: getMeta,
+		failure: 'Failed to retrieve metadata',
+		// Shares the fetch limit, as both can be used to probe for IDs
+		rateLimit: 'fetch',
+		doc: {
+			summary: 'Get a note\'s metadata',
+			description: 'Does not return the ciphertext and does not count as a view. Attachments are listed by size only; their IDs come with the ciphertext from /fetch/{id}.',
+			tag: 'Notes',
+			response: 'MetaResponse',
+			errors: [404, 410]
+		}
+	},
+	{
+		method: 'GET',
+		path: '/fetch/:id',
+		handler: fetchNote,
+		failure: 'Failed to retrieve data',
+		rateLimit: 'fetch',
+		doc: {
+			summary: 'Fetch a note\'s ciphertext',
+			description: 'Counts as a view. A note is deleted once its last view has been fetched. Notes with recipients return 404 here and are fetched through /recipients/{id}/fetch. With `Accept: application/octet-stream`, the response is [fields length u32 BE][FetchResponse JSON without cipher_text][ciphertext bytes], streamed as it is read for large notes.',
+			tag: 'Notes',
+			response: 'FetchResponse',
+			errors: [404, 410],
+			binary: 'response'
+		}
+	}
+];
@@ -0,0 +1,408 @@
+/**
+ * OpenAPI 3.1 document for /api/v1, generated from the route table
+ * Paths and operations come from each route's `doc`; the schemas below mirror
+ * the types in shared/api.ts.
+ */
+
+import { API_VERSION } from '../../shared/api';
+import { ERROR_CODES } from './http';
+import { MAX_ATTACHMENT_SIZE, MAX_ATTACHMENTS } from './attachments';
+import type { Config } from './config';
+import { MAX_RECIPIENTS } from './recipients';
+import type { Route, RouteDoc } from './router';
+import { MAX_STATUS_IDS } from './status';
+import { MAX_WEBHOOK_URL_LENGTH, MIN_TTL } from './validation';
+
+type Schema = Record<string, unknown>;
+
+const ID: Schema = { type: 'string', pattern: '^[A-Za-z0-9_-]+$' };
+const TIMESTAMP: Schema = { type: 'integer', description: 'Unix time in seconds' };
+const NULLABLE_COUNT: Schema = { type: ['integer', 'null'], description: 'null when the note has no view limit' };
+// The longest TTL depends on the deployment, so it is filled in per document
+const TTL: Schema = { $ref: '#/components/schemas/Ttl' };
+
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+	400: 'Malformed request',
+	401: 'Missing token',
+	403: 'Invalid token',
+	404: 'Not found',
+	405: 'Method not allowed',
+	409: 'Conflict',
+	410: 'Expired',
+	413: 'Payload too large',
+	422: 'Validation failed',
+	429: 'Rate limited. Retry after the number of seconds in the Retry-After header.',
+	500: 'Internal error'
+};
+
+const SCHEMAS: Record<string, Schema> = {
+	Error: {
+		type: 'object',
+		required: ['type', 'status', 'code', 'message'],
+		properties: {
+			type: { const: 'error' },
+			status: { type: 'integer' },
+			code: { type: 'string', enum: Object.values(ERROR_CODES) },
+			message: { type: 'string' },
+			errors: {
+				type: 'array',
+				description: 'Per-field problems, on 413 and 422 responses',
+				items: {
+					type: 'object',
+					required: ['field', 'message'],
+					properties: { field: { type: 'string' }, message: { type: 'string' } }
+				}
+			}
+		}
+	},
+	AttachmentInfo: {
+		type: 'object',
+		required: ['id', 'size', 'chunkCount'],
+		properties: { id: ID, size: { type: 'integer' }, chunkCount: { type: 'integer' } }
+	},
+	AttachmentSummary: {
+		type: 'object',
+		required: ['size'],
+		properties: { size: { type: 'integer' } }
+	},
+	SubmitRequest: {
+		type: 'object',
+		required: ['ttl', 'cipherText', 'iv'],
+		properties: {
+			ttl: { ...TTL, description: 'Seconds until the note expires' },
+			cipherText: { type: 'string', pattern: '^[A-Za-z0-9_-]+$', description: 'Base64url ciphertext' },
+			iv: { type: 'string', pattern: '^[A-Za-z0-9_-]{16}$', description: 'Base64url 12-byte AES-GCM IV' },
+			burnAfterReading: { type: 'boolean', description: 'Shorthand for maxViews: 1' },
+			maxViews: { type: 'integer', minimum: 1 },
+			requiresPassword: { type: 'boolean', description: 'The link carries no key, so viewers are asked for a password' },
+			attachments: { type: 'array', maxItems: MAX_ATTACHMENTS, items: ID },
+			recipients: {
+				type: 'array',
+				maxItems: MAX_RECIPIENTS,
+				items: { type: 'string', pattern: '^[A-Za-z0-9_-]+$' },
+				description: 'The note\'s key wrapped once per recipient. Each recipient gets their own link, and maxViews applies to each link.'
+			},
+			webhookUrl: {
+				type: 'string',
+				format: 'uri',
+				pattern: '^https://',
+				maxLength: MAX_WEBHOOK_URL_LENGTH,
+				description: 'Called with a WebhookPayload when the note is viewed or expires. Rejected with 422 when the server has webhooks disabled.'
+			}
+		}
+	},
+	SubmitResponse: {
+		type: 'object',
+		required: ['id', 'expiresAt', 'maxViews', 'requiresPassword', 'manageToken', 'recipients', 'receiptToken'],
+		properties: {
+			id: ID,
+			expiresAt: TIMESTAMP,
+			maxViews: { type: ['integer', 'null'] },
+			requiresPassword: { type: 'boolean' },
+			manageToken: { type: 'string', description: 'Bearer token for managing the note. Only returned here.' },
+			recipients: { type: 'array', items: ID, description: 'Recipient IDs, in the order of the submitted wrapped keys' },
+			receiptToken: { type: 'string', description: 'Bearer token for reading the note\'s receipt. Only returned here.' }
+		}
+	},
+	MetaResponse: {
+		type: 'object',
+		required: ['id', 'expiresAt', 'maxViews', 'remainingViews', 'requiresPassword', 'attachments'],
+		properties: {
+			id: ID,
+			expiresAt: TIMESTAMP,
+			maxViews: { type: ['integer', 'null'] },
+			remainingViews: NULLABLE_COUNT,
+			requiresPassword: { type: 'boolean' },
+			attachments: { type: 'array', items: { $ref: '#/components/schemas/AttachmentSummary' } }
+		}
+	},
+	FetchResponse: {
+		type: 'object',
+		required: ['id', 'cipher_text', 'iv', 'expiresAt', 'remainingViews', 'requiresPassword', 'attachments', 'burned'],
+		properties: {
+			id: ID,
+			cipher_text: { type: 'string' },
+			iv: { type: 'string' },
+			expiresAt: TIMESTAMP,
+			remainingViews: NULLABLE_COUNT,
+			requiresPassword: { type: 'boolean' },
+			attachments: { type: 'array', items: { $ref: '#/components/schemas/AttachmentInfo' } },
+			burned: { type: 'boolean', description: 'This was the last view and the note has been deleted' }
+		}
+	},
+	RecipientFetchResponse: {
+		allOf: [
+			{ $ref: '#/components/schemas/FetchResponse' },
+			{
+				type: 'object',
+				required: ['wrappedKey'],
+				properties: { wrappedKey: { type: 'string', description: 'The note\'s key, wrapped under the key in this recipient\'s link' } }
+			}
+		]
+	},
+	StatusRequest: {
+		type: 'object',
+		required: ['ids'],
+		properties: { ids: { type: 'array', maxItems: MAX_STATUS_IDS, items: ID } }
+	},
+	StatusResponse: {
+		type: 'object',
+		required: ['notes'],
+		properties: {
+			notes: {
+				type: 'array',
+				items: {
+					type: 'object',
+					required: ['id', 'status', 'expiresAt', 'remainingViews'],
+					properties: {
+						id: ID,
+						status: { type: 'string', enum: ['active', 'expired', 'not_found'] },
+						expiresAt: { type: ['integer', 'null'] },
+						remainingViews: NULLABLE_COUNT
+					}
+				}
+			}
+		}
+	},
+	UpdateNoteRequest: {
+		type: 'object',
+		required: ['ttl'],
+		properties: { ttl: TTL }
+	},
+	UpdateNoteResponse: {
+		type: 'object',
+		required: ['id', 'expiresAt'],
+		properties: { id: ID, expiresAt: TIMESTAMP }
+	},
+	DeleteNoteResponse: {
+		type: 'object',
+		required: ['id', 'deleted'],
+		properties: { id: ID, deleted: { const: true } }
+	},
+	RecipientsResponse: {
+		type: 'object',
+		required: ['recipients'],
+		properties: {
+			recipients: {
+				type: 'array',
+				items: {
+					type: 'object',
+					required: ['id', 'position', 'maxViews', 'remainingViews'],
+					properties: {
+						id: ID,
+						position: { type: 'integer', minimum: 0 },
+						maxViews: { type: ['integer', 'null'] },
+						remainingViews: NULLABLE_COUNT
+					}
+				}
+			}
+		}
+	},
+	DeleteRecipientResponse: {
+		type: 'object',
+		required: ['id', 'deleted', 'noteDeleted'],
+		properties: {
+			id: ID,
+			deleted: { const: true },
+			noteDeleted: { type: 'boolean', description: 'No other recipient could still open the note, so it was deleted too' }
+		}
+	},
+	ReceiptResponse: {
+		type: 'object',
+		required: ['id', 'createdAt', 'expiresAt', 'firstViewedAt', 'viewCount', 'views', 'webhook'],
+		properties: {
+			id: ID,
+			createdAt: TIMESTAMP,
+			expiresAt: TIMESTAMP,
+			firstViewedAt: { type: ['integer', 'null'], description: 'Unix time in seconds, or null if the note has not been viewed' },
+			viewCount: { type: 'integer', minimum: 0 },
+			views: {
+				type: 'array',
+				items: {
+					type: 'object',
+					required: ['viewedAt', 'recipientId'],
+					properties: {
+						viewedAt: TIMESTAMP,
+						recipientId: { type: ['string', 'null'], description: 'Set when the view came through a recipient\'s link' }
+					}
+				}
+			},
+			webhook: { type: 'boolean', description: 'Whether a webhook was registered for the note' }
+		}
+	},
+	WebhookPayload: {
+		type: 'object',
+		description: 'Body of the POST sent to a note\'s webhookUrl',
+		required: ['event', 'id', 'at', 'recipientId', 'burned'],
+		properties: {
+			event: { type: 'string', enum: ['viewed', 'expired'] },
+			id: ID,
+			at: TIMESTAMP,
+			recipientId: { type: ['string', 'null'] },
+			burned: { type: 'boolean', description: 'The view used up the link it came through' }
+		}
+	},
+	UploadRequest: {
+		type: 'object',
+		required: ['size'],
+		properties: {
+			size: { type: 'integer', minimum: 1, maximum: MAX_ATTACHMENT_SIZE, description: 'Encrypted size in bytes' }
+		}
+	},
+	UploadResponse: {
+		type: 'object',
+		required: ['id', 'chunkSize', 'chunkCount'],
+		properties: { id: ID, chunkSize: { type: 'integer' }, chunkCount: { type: 'integer' } }
+	},
+	ChunkUploadResponse: {
+		type: 'object',
+		required: ['id', 'index'],
+		properties: { id: ID, index: { type: 'integer' } }
+	},
+	SecretRequestInput: {
+		type: 'object',
+		required: ['ttl'],
+		properties: {
+			ttl: { ...TTL, description: 'Seconds the request stays open, and its reply is kept' }
+		}
+	},
+	SecretRequestResponse: {
+		type: 'object',
+		required: ['id', 'expiresAt', 'token'],
+		properties: {
+			id: ID,
+			expiresAt: TIMESTAMP,
+			token: { type: 'string', description: 'Bearer token for reading the reply. Only returned here.' }
+		}
+	},
+	SecretRequestStatusResponse: {
+		type: 'object',
+		required: ['id', 'expiresAt', 'replied'],
+		properties: { id: ID, expiresAt: TIMESTAMP, replied: { type: 'boolean' } }
+	},
+	ReplyRequest: {
+		type: 'object',
+		required: ['cipherText', 'iv'],
+		properties: {
+			cipherText: { type: 'string', pattern: '^[A-Za-z0-9_-]+$', description: 'Base64url ephemeral public key followed by the ciphertext' },
+			iv: { type: 'string', pattern: '^[A-Za-z0-9_-]{16}$' }
+		}
+	},
+	ReplyResponse: {
+		type: 'object',
+		required: ['id', 'repliedAt'],
+		properties: { id: ID, repliedAt: TIMESTAMP }
+	},
+	SecretReplyResponse: {
+		type: 'object',
+		required: ['id', 'cipherText', 'iv', 'repliedAt'],
+		properties: { id: ID, cipherText: { type: 'string' }, iv: { type: 'string' }, repliedAt: TIMESTAMP }
+	},
+	DeleteSecretRequestResponse: {
+		type: 'object',
+		required: ['id', 'deleted'],
+		properties: { id: ID, deleted: { const: true } }
+	}
+};
+
+// Wrap a data schema in the standard success envelope
+function successSchema(name: string): Schema {
+	return {
+		type: 'object',
+		required: ['type', 'status', 'data'],
+		properties: {
+			type: { const: 'success' },
+			status: { const: 200 },
+			data: { $ref: `#/components/schemas/${name}` }
+		}
+	};
+}
+
+function operation(route: Route & { doc: RouteDoc }): Schema {
+	const { doc } = route;
+	const parameters = [...route.path.matchAll(/:([A-Za-z]+)/g)].map(([, name]) => ({
+		name,
+		in: 'path',
+		required: true,
+		schema: name === 'index' ? { type: 'integer', minimum: 0 } : ID
+	}));
+
+	const binary = { 'application/octet-stream': { schema: { type: 'string', format: 'binary' } } };
+
+	const responses: Record<string, Schema> = {
+		200: doc.response === 'binary'
+			? { description: 'Success', content: binary }
+			: {
+				description: 'Success',
+				content: {
+					'application/json': { schema: successSchema(doc.response) },
+					...(doc.binary === 'response' && binary)
+				}
+			}
+	};
+	const errorStatuses = [...doc.errors, ...(route.rateLimit ? [429] : []), 500];
+	for (const status of errorStatuses) {
+		responses[status] = {
+			description: ERROR_DESCRIPTIONS[status],
+			content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } }
+		};
+	}
+
+	return {
+		operationId: `${route.method.toLowerCase()}${route.path.replace(/\/:?([A-Za-z]+)/g, (_, part: string) => part[0].toUpperCase() + part.slice(1))}`,
+		summary: doc.summary,
+		...(doc.description && { description: doc.description }),
+		tags: [doc.tag],
+		...(parameters.length > 0 && { parameters }),
+		...(doc.requestBody && {
+			requestBody: {
+				required: true,
+				content: doc.requestBody === 'binary'
+					? binary
+					: {
+						'application/json': { schema: { $ref: `#/components/schemas/${doc.requestBody}` } },
+						...(doc.binary === 'request' && binary)
+					}
+			}
+		}),
+		...(doc.auth && { security: [{ manageToken: [] }] }),
+		responses
+	};
+}
+
+/**
+ * Build the OpenAPI document for `routes`, served from `serverUrl` with the
+ * deployment's `config`
+ */
+export function buildOpenApiDocument(routes: Route[], serverUrl: string, config: Config): Schema {
+	const paths: Record<string, Record<string, Schema>> = {};
+	for (const route of routes) {
+		if (!route.doc) continue;
+		const path = route.path.replace(/:([A-Za-z]+)/g, '{$1}') || '/';
+		paths[path] = { ...paths[path], [route.method.toLowerCase()]: operation(route as Route & { doc: RouteDoc }) };
+	}
+
+	return {
+		openapi: '3.1.0',
+		info: {
+			title: `${config.siteName} API`,
+			version: API_VERSION,
+			description: 'Stores end-to-end encrypted notes. Everything sent to this API is already encrypted, and keys never leave the client.'
+		},
+		servers: [{ url: serverUrl }],
+		paths,
+		components: {
+			schemas: {
+				...SCHEMAS,
+				Ttl: { type: 'integer', minimum: MIN_TTL, maximum: config.maxTtl, description: 'Lifetime in seconds' }
+			},
+			securitySchemes: {
+				manageToken: {
+					type: 'http',
+					scheme: 'bearer',
+					description: 'The manageToken or receiptToken returned when a note was submitted, or the token returned when a secret request was created'
+				}
+			}
+		}
+	};
+}
@@ -0,0 +1,92 @@
+/**
+ * Scheduled cleanup of expired data
+ * Expired notes are otherwise only deleted when someone requests them, so the
+ * cron trigger sweeps up everything that was never fetched again.
+ */
+
+import type { Env } from './env';
+import { purgeExpiredAttachments } from './attachments';
+import { purgeRateLimits } from './rate-limit';
+import { notifyExpired, purgeExpiredReceipts } from './receipts';
+import { purgeOrphanedRecipients } from './recipients';
+import { purgeExpiredRequests } from './requests';
+import { purgeOrphanedTextChunks } from './text-chunks';
+
+// Rows deleted per statement, keeping each query well inside D1's limits
+const TEXT_BATCH_SIZE = 500;
+// R2 deletes at most 1000 keys per call; attachments have at most 7 chunks each
+const ATTACHMENT_BATCH_SIZE = 100;
+// Stop after this many batches so one run stays inside the Worker's CPU limit;
+// anything left over is picked up by the next run
+const MAX_BATCHES = 20;
+
+export interface PurgeResult {
+	texts: number;
+	textChunks: number;
+	attachments: number;
+	chunks: number;
+	recipients: number;
+	receipts: number;
+	requests: number;
+	rateLimits: number;
+	durationMs: number;
+}
+
+/**
+ * Delete every note, attachment and secret request that expired before `now`,
+ * the chunks and recipients of notes that are gone, receipts past their retention, and
+ * rate limit counters for windows that have ended. Webhooks of the expired
+ * notes are notified before this resolves.
+ */
+export async function purgeExpired(env: Env, now: number): Promise<PurgeResult> {
+	const startedAt = Date.now();
+	const result: PurgeResult = {
+		texts: 0,
+		textChunks: 0,
+		attachments: 0,
+		chunks: 0,
+		recipients: 0,
+		receipts: 0,
+		requests: 0,
+		rateLimits: 0,
+		durationMs: 0
+	};
+
+	for (let batch = 0; batch < MAX_BATCHES; batch++) {
+		const { results } = await env.DB.prepare(
+			'DELETE FROM texts WHERE id IN (SELECT id FROM texts WHERE expires_at < ? LIMIT ?) RETURNING id'
+		)
+			.bind(now, TEXT_BATCH_SIZE)
+			.all();
+
+		result.texts += results.length;
+		await notifyExpired(env, results.map(row => row.id as string), now);
+		if (results.length < TEXT_BATCH_SIZE) break;
+	}
+
+	// Large texts' chunks go with their text, and so do those of texts deleted
+	// when they were fetched, once nothing can still be streaming them
+	result.textChunks = await purgeOrphanedTextChunks(env, now);
+
+	// Attachments of expired notes share the note's expiry, so they are covered
+	// here too, along with uploads that were never claimed
+	for (let batch = 0; batch < MAX_BATCHES; batch++) {
+		const deleted = await purgeExpiredAttachments(env, now, ATTACHMENT_BATCH_SIZE);
+
+		result.attachments += deleted.attachments;
+		result.chunks += deleted.chunks;
+		if (deleted.attachments < ATTACHMENT_BATCH_SIZE) break;
+	}
+
+	// Recipients go with their note
+	result.recipients = await purgeOrphanedRecipients(env);
+	result.receipts = await purgeExpiredReceipts(env, now);
+	// Replies are rows in texts with their request's expiry, so they went above
+	result.requests = await purgeExpiredRequests(env, now);
+	result.rateLimits = await purgeRateLimits(env, now);
+
+	result.durationMs = Date.now() - startedAt;
+	console.log('Purged expired data:', JSON.stringify(result));
+
+	return result;
+}
@@ -0,0 +1,93 @@
+/**
+ * Per-IP rate limiting backed by a D1 counter table
+ * Each client gets a fixed window per scope; the counter is incremented with a
+ * single upsert, so concurrent requests cannot slip past the limit.
+ */
+
+import type { Env } from './env';
+import { errorResponse } from './http';
+
+export type RateLimitScope = 'submit' | 'upload' | 'fetch';
+
+// Defaults when the corresponding Env vars are unset
+const DEFAULT_WINDOW = 60;
+const DEFAULT_LIMITS: Record<RateLimitScope, number> = {
+	submit: 10,
+	// An attachment at the size limit takes seven chunks
+	upload: 60,
+	fetch: 60
+};
+
+const LIMIT_VARS: Record<RateLimitScope, 'RATE_LIMIT_SUBMIT' | 'RATE_LIMIT_UPLOAD' | 'RATE_LIMIT_FETCH'> = {
+	submit: 'RATE_LIMIT_SUBMIT',
+	upload: 'RATE_LIMIT_UPLOAD',
+	fetch: 'RATE_LIMIT_FETCH'
+};
+
+function parseCount(value: string | undefined, fallback: number): number {
+	if (value === undefined || value === '') return fallback;
+	const parsed = Number(value);
+	return Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+export function getRateLimitWindow(env: Env): number {
+	return parseCount(env.RATE_LIMIT_WINDOW, DEFAULT_WINDOW) || DEFAULT_WINDOW;
+}
+
+// Requests allowed per window for a scope; 0 turns the limit off
+function getRateLimit(env: Env, scope: RateLimitScope): number {
+	return parseCount(env[LIMIT_VARS[scope]], DEFAULT_LIMITS[scope]);
+}
+
+/**
+ * Count a request, as `cost` hits, against the client's limit for `scope`.
+ * Returns null if it is allowed, or the number of seconds until the window resets.
+ */
+export async function checkRateLimit(
+	request: Request,
+	env: Env,
+	scope: RateLimitScope,
+	now: number,
+	cost = 1
+): Promise<number | null> {
+	const limit = getRateLimit(env, scope);
+	if (limit === 0) {
+		return null;
+	}
+
+	const window = getRateLimitWindow(env);
+	const windowStart = now - (now % window);
+	// Cloudflare always sets this header; local tools may not
+	const ip = request.headers.get('CF-Connecting-IP') ?? 'unknown';
+
+	const row = await env.DB.prepare(
+		`INSERT INTO rate_limits (key, window_start, count) VALUES (?, ?, ?)
+		ON CONFLICT (key, window_start) DO UPDATE SET count = count + ?
+		RETURNING count`
+	)
+		.bind(`${scope}:${ip}`, windowStart, cost, cost)
+		.first();
+
+	if ((row?.count as number) <= limit) {
+		return null;
+	}
+
+	return windowStart + window - now;
+}
+
+export function rateLimitResponse(retryAfter: number, corsHeaders: Record<string, string>): Response {
+	return errorResponse(429, 'Too many requests, please try again later', {
+		...corsHeaders,
+		'Retry-After': String(retryAfter)
+	});
+}
+
+/**
+ * Delete counters for windows that have already ended
+ */
+export async function purgeRateLimits(env: Env, now: number): Promise<number> {
+	const { meta } = await env.DB.prepare('DELETE FROM rate_limits WHERE window_start < ?')
+		.bind(now - getRateLimitWindow(env))
+		.run();
+	return meta.changes;
+}
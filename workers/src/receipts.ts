@@ -0,0 +1,272 @@
+/**
+ * Read receipts and access notifications for senders
+ * Every note gets a receipt: when it was first opened and the time of each
+ * view, never who opened it or from where. /api/submit hands the sender a
+ * receipt token, of which only a hash is stored, to read the receipt with.
+ *
+ * A sender can also give a webhook URL to be called when the note is viewed
+ * or expires. The worker has to be able to call it, so it cannot be hashed.
+ * It is encrypted under a key derived from the WEBHOOK_SECRET secret instead,
+ * and webhooks are disabled when that is not set.
+ */
+
+import type { ReceiptResponse, ReceiptView, WebhookPayload } from '../../shared/api';
+import { fromBase64Url, toBase64Url } from './encoding';
+import type { Env } from './env';
+import { errorResponse, successResponse } from './http';
+import { createManageToken, getBearerToken, tokenMatches } from './manage';
+import type { Route, RouteContext } from './router';
+
+// Receipts outlive their note by a week, so a burned or expired note can still
+// be checked on
+export const RECEIPT_RETENTION = 604800;
+
+// Give up on a webhook that takes longer than this, in milliseconds
+const WEBHOOK_TIMEOUT = 5000;
+// AES-GCM IV length in bytes
+const IV_LENGTH = 12;
+
+/**
+ * Whether this deployment can deliver webhooks
+ */
+export function webhooksEnabled(env: Env): boolean {
+	return !!env.WEBHOOK_SECRET;
+}
+
+async function webhookKey(secret: string): Promise<CryptoKey> {
+	const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), 'HKDF', false, ['deriveKey']);
+	return crypto.subtle.deriveKey(
+		{ name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: new TextEncoder().encode('txtoo-webhook-url') },
+		material,
+		{ name: 'AES-GCM', length: 256 },
+		false,
+		['encrypt', 'decrypt']
+	);
+}
+
+// The note ID is authenticated alongside the URL, so a stored URL cannot be
+// moved onto another note's receipt
+async function encryptWebhookUrl(secret: string, noteId: string, url: string): Promise<string> {
+	const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+	const cipherText = await crypto.subtle.encrypt(
+		{ name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(noteId) },
+		await webhookKey(secret),
+		new TextEncoder().encode(url)
+	);
+
+	const sealed = new Uint8Array(IV_LENGTH + cipherText.byteLength);
+	sealed.set(iv);
+	sealed.set(new Uint8Array(cipherText), IV_LENGTH);
+	return toBase64Url(sealed);
+}
+
+async function decryptWebhookUrl(secret: string, noteId: string, sealed: string): Promise<string> {
+	const bytes = fromBase64Url(sealed);
+	const plainText = await crypto.subtle.decrypt(
+		{ name: 'AES-GCM', iv: bytes.slice(0, IV_LENGTH), additionalData: new TextEncoder().encode(noteId) },
+		await webhookKey(secret),
+		bytes.slice(IV_LENGTH)
+	);
+	return new TextDecoder().decode(plainText);
+}
+
+/**
+ * Create the receipt for a new note, returning the token for the sender and
+ * the statement to run in the note's insert batch
+ */
+export async function createReceipt(
+	env: Env,
+	noteId: string,
+	now: number,
+	expiresAt: number,
+	webhookUrl: string | null
+): Promise<{ token: string; statement: D1PreparedStatement }> {
+	const token = await createManageToken();
+	const webhook = webhookUrl && env.WEBHOOK_SECRET
+		? await encryptWebhookUrl(env.WEBHOOK_SECRET, noteId, webhookUrl)
+		: null;
+
+	return {
+		token: token.token,
+		statement: env.DB.prepare(
+			'INSERT INTO receipts (note_id, token_hash, created_at, expires_at, webhook) VALUES (?, ?, ?, ?, ?)'
+		)
+			.bind(noteId, token.hash, now, expiresAt, webhook)
+	};
+}
+
+// POST the event to the receipt's webhook. Failures are logged without the
+// URL and never retried.
+async function deliverWebhook(env: Env, noteId: string, webhook: string, payload: WebhookPayload): Promise<void> {
+	if (!env.WEBHOOK_SECRET) {
+		return;
+	}
+
+	try {
+		const url = await decryptWebhookUrl(env.WEBHOOK_SECRET, noteId, webhook);
+		const response = await fetch(url, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json',
+				'User-Agent': 'TXToo-Webhook'
+			},
+			body: JSON.stringify(payload),
+			signal: AbortSignal.timeout(WEBHOOK_TIMEOUT)
+		});
+		if (!response.ok) {
+			console.error(`Webhook for ${payload.event} returned ${response.status}`);
+		}
+	} catch (error) {
+		console.error(`Webhook for ${payload.event} failed:`, error instanceof Error ? error.message : error);
+	}
+}
+
+/**
+ * Record a view on the note's receipt, and notify its webhook in the
+ * background. `recipientId` is set when the view came through a recipient's link.
+ * A failure is logged rather than thrown: the note may already be burned, and
+ * its reader must still get it.
+ */
+export async function recordView(
+	env: Env,
+	ctx: ExecutionContext,
+	noteId: string,
+	now: number,
+	view: { recipientId: string | null; burned: boolean }
+): Promise<void> {
+	let receipt: D1Result;
+	try {
+		[, receipt] = await env.DB.batch([
+			env.DB.prepare('INSERT INTO receipt_views (note_id, viewed_at, recipient_id) SELECT note_id, ?, ? FROM receipts WHERE note_id = ?')
+				.bind(now, view.recipientId, noteId),
+			env.DB.prepare(
+				'UPDATE receipts SET first_viewed_at = COALESCE(first_viewed_at, ?) WHERE note_id = ? RETURNING webhook'
+			)
+				.bind(now, noteId)
+		]);
+	} catch (error) {
+		console.error('Failed to record a view:', error);
+		return;
+	}
+
+	const webhook = (receipt.results[0] as Record<string, unknown> | undefined)?.webhook as string | null | undefined;
+	if (webhook) {
+		ctx.waitUntil(deliverWebhook(env, noteId, webhook, {
+			event: 'viewed',
+			id: noteId,
+			at: now,
+			recipientId: view.recipientId,
+			burned: view.burned
+		}));
+	}
+}
+
+/**
+ * Notify the webhooks of notes that were deleted because they expired.
+ * Resolves once every delivery has finished.
+ */
+export async function notifyExpired(env: Env, noteIds: string[], now: number): Promise<void> {
+	if (noteIds.length === 0 || !webhooksEnabled(env)) {
+		return;
+	}
+
+	const { results } = await env.DB.prepare(
+		`SELECT note_id, expires_at, webhook FROM receipts
+		WHERE webhook IS NOT NULL AND note_id IN (SELECT value FROM json_each(?))`
+	)
+		.bind(JSON.stringify(noteIds))
+		.all();
+
+	await Promise.all(results.map(receipt => deliverWebhook(env, receipt.note_id as string, receipt.webhook as string, {
+		event: 'expired',
+		id: receipt.note_id as string,
+		at: Math.min(receipt.expires_at as number, now),
+		recipientId: null,
+		burned: false
+	})));
+}
+
+/**
+ * Keep a receipt's expiry in step with its note's, after the owner changes the TTL
+ */
+export function updateReceiptExpiry(env: Env, noteId: string, expiresAt: number): D1PreparedStatement {
+	return env.DB.prepare('UPDATE receipts SET expires_at = ? WHERE note_id = ?').bind(expiresAt, noteId);
+}
+
+/**
+ * Delete receipts, and their views, whose note expired more than
+ * RECEIPT_RETENTION seconds before `now`
+ */
+export async function purgeExpiredReceipts(env: Env, now: number): Promise<number> {
+	const cutoff = now - RECEIPT_RETENTION;
+	const [, receipts] = await env.DB.batch([
+		env.DB.prepare(
+			'DELETE FROM receipt_views WHERE note_id IN (SELECT note_id FROM receipts WHERE expires_at < ?)'
+		)
+			.bind(cutoff),
+		env.DB.prepare('DELETE FROM receipts WHERE expires_at < ?').bind(cutoff)
+	]);
+	return receipts.meta.changes;
+}
+
+// GET /receipts/{id} - When the note was opened, for the holder of its receipt token
+async function getReceipt({ request, env, params, corsHeaders }: RouteContext): Promise<Response> {
+	const { id } = params;
+	const now = Math.floor(Date.now() / 1000);
+
+	const token = getBearerToken(request);
+	if (!token) {
+		return errorResponse(401, 'Missing receipt token', corsHeaders);
+	}
+
+	const receipt = await env.DB.prepare(
+		'SELECT note_id, token_hash, created_at, expires_at, first_viewed_at, webhook FROM receipts WHERE note_id = ?'
+	)
+		.bind(id)
+		.first();
+
+	if (!receipt || (receipt.expires_at as number) + RECEIPT_RETENTION < now) {
+		return errorResponse(404, 'Receipt not found', corsHeaders);
+	}
+	if (!(await tokenMatches(receipt.token_hash as string, token))) {
+		return errorResponse(403, 'Invalid receipt token', corsHeaders);
+	}
+
+	const { results } = await env.DB.prepare(
+		'SELECT viewed_at, recipient_id FROM receipt_views WHERE note_id = ? ORDER BY viewed_at, rowid'
+	)
+		.bind(id)
+		.all();
+
+	const views: ReceiptView[] = results.map(view => ({
+		viewedAt: view.viewed_at as number,
+		recipientId: view.recipient_id as string | null
+	}));
+
+	return successResponse<ReceiptResponse>({
+		id,
+		createdAt: receipt.created_at as number,
+		expiresAt: receipt.expires_at as number,
+		firstViewedAt: receipt.first_viewed_at as number | null,
+		viewCount: views.length,
+		views,
+		webhook: receipt.webhook !== null
+	}, corsHeaders);
+}
+
+export const receiptRoutes: Route[] = [
+	{
+		method: 'GET',
+		path: '/receipts/:id',
+		handler: getReceipt,
+		failure: 'Failed to retrieve receipt',
+		doc: {
+			summary: 'Get a note\'s read receipt',
+			description: 'When the note was first opened and the time of every view. Authenticated with the receiptToken returned by /submit. Receipts are kept for a week after the note expires, even if it was burned or revoked first.',
+			tag: 'Receipts',
+			response: 'ReceiptResponse',
+			errors: [401, 403, 404],
+			auth: true
+		}
+	}
+];
@@ -0,0 +1,228 @@
+/**
+ * Named recipients of a note
+ * A note can be shared with several people, each with their own link. The
+ * note's key is wrapped once per recipient under a key that only that
+ * recipient's link carries, and the wrapped keys are stored here with a view
+ * count each. Deleting a recipient's row revokes their link without touching
+ * anyone else's.
+ */
+
+import type { MetaResponse, RecipientFetchResponse } from '../../shared/api';
+import { expireAttachmentsSoon, listAttachments, summarizeAttachments } from './attachments';
+import { storedToBase64Url } from './encoding';
+import type { Env } from './env';
+import { errorResponse, successResponse } from './http';
+import { generateId } from './id';
+import { recordView } from './receipts';
+import type { Route, RouteContext } from './router';
+import { deleteTextChunks, hasAllChunks, readCiphertext } from './text-chunks';
+
+export const MAX_RECIPIENTS = 20;
+
+function remainingViews(row: Record<string, unknown>): number | null {
+	return row.max_views === null ? null : (row.max_views as number) - (row.view_count as number);
+}
+
+/**
+ * Statements storing a new note's recipients, to run in the note's insert
+ * batch. Each recipient gets the note's view limit.
+ */
+export function insertRecipients(
+	env: Env,
+	noteId: string,
+	wrappedKeys: string[],
+	maxViews: number | null,
+	idLength: number
+): { ids: string[]; statements: D1PreparedStatement[] } {
+	const ids = wrappedKeys.map(() => generateId(idLength));
+	const statements = wrappedKeys.map((wrappedKey, position) =>
+		env.DB.prepare(
+			'INSERT INTO recipients (id, note_id, position, wrapped_key, max_views) VALUES (?, ?, ?, ?, ?)'
+		)
+			.bind(ids[position], noteId, position, wrappedKey, maxViews)
+	);
+	return { ids, statements };
+}
+
+/**
+ * Delete a note once none of its recipients can open it any more, giving its
+ * attachments the same grace period as a burned note. Returns whether the note
+ * was deleted.
+ */
+export async function deleteNoteIfUnreachable(env: Env, noteId: string, now: number): Promise<boolean> {
+	const { meta } = await env.DB.prepare(
+		`DELETE FROM texts WHERE id = ? AND NOT EXISTS (
+			SELECT 1 FROM recipients WHERE note_id = ? AND (max_views IS NULL OR view_count < max_views)
+		)`
+	)
+		.bind(noteId, noteId)
+		.run();
+
+	if (meta.changes === 0) {
+		return false;
+	}
+
+	await env.DB.batch([
+		env.DB.prepare('DELETE FROM recipients WHERE note_id = ?').bind(noteId),
+		deleteTextChunks(env, noteId)
+	]);
+	await expireAttachmentsSoon(env, noteId, now);
+	return true;
+}
+
+/**
+ * Delete recipients whose note has been deleted or purged
+ */
+export async function purgeOrphanedRecipients(env: Env): Promise<number> {
+	const { meta } = await env.DB.prepare(
+		'DELETE FROM recipients WHERE NOT EXISTS (SELECT 1 FROM texts WHERE texts.id = recipients.note_id)'
+	).run();
+	return meta.changes;
+}
+
+// Why a recipient's link doesn't work: missing, expired, or used up
+async function recipientError(
+	env: Env,
+	id: string,
+	now: number,
+	corsHeaders: Record<string, string>
+): Promise<Response> {
+	const existing = await env.DB.prepare(
+		'SELECT texts.expires_at FROM recipients JOIN texts ON texts.id = recipients.note_id WHERE recipients.id = ?'
+	)
+		.bind(id)
+		.first();
+
+	if (existing && (existing.expires_at as number) < now) {
+		return errorResponse(410, 'Text has expired', corsHeaders);
+	}
+	return errorResponse(404, 'Text not found', corsHeaders);
+}
+
+// GET /recipients/{id} - A recipient's view of the note's metadata
+// Like /meta/{id}, this does not count as a view
+async function getRecipientMeta({ env, params, corsHeaders }: RouteContext): Promise<Response> {
+	const { id } = params;
+	const now = Math.floor(Date.now() / 1000);
+
+	const result = await env.DB.prepare(
+		`SELECT recipients.note_id, recipients.max_views, recipients.view_count, texts.expires_at
+		FROM recipients JOIN texts ON texts.id = recipients.note_id
+		WHERE recipients.id = ? AND texts.expires_at >= ?
+		AND (recipients.max_views IS NULL OR recipients.view_count < recipients.max_views)`
+	)
+		.bind(id, now)
+		.first();
+
+	if (!result) {
+		return recipientError(env, id, now, corsHeaders);
+	}
+
+	// The note's own ID is never revealed to recipients
+	return successResponse<MetaResponse>({
+		id,
+		expiresAt: result.expires_at as number,
+		maxViews: result.max_views as number | null,
+		remainingViews: remainingViews(result),
+		requiresPassword: false,
+		attachments: await summarizeAttachments(env, result.note_id as string)
+	}, corsHeaders);
+}
+
+// GET /recipients/{id}/fetch - The note's ciphertext and this recipient's wrapped key, counting a view
+async function fetchForRecipient({ env, ctx, params, corsHeaders }: RouteContext): Promise<Response> {
+	const { id } = params;
+	const now = Math.floor(Date.now() / 1000);
+
+	// As /fetch does, check that the note is whole before counting a view
+	const stored = await env.DB.prepare(
+		`SELECT texts.id, texts.chunk_count FROM recipients JOIN texts ON texts.id = recipients.note_id
+		WHERE recipients.id = ? AND texts.chunk_count > 0`
+	)
+		.bind(id)
+		.first();
+	if (stored && !(await hasAllChunks(env, stored.id as string, stored.chunk_count as number))) {
+		return errorResponse(500, 'Stored note is incomplete', corsHeaders);
+	}
+
+	// Count the view in the same statement that checks the limit, as /fetch does
+	const recipient = await env.DB.prepare(
+		`UPDATE recipients SET view_count = view_count + 1
+		WHERE id = ? AND (max_views IS NULL OR view_count < max_views)
+		AND note_id IN (SELECT id FROM texts WHERE expires_at >= ?)
+		RETURNING note_id, wrapped_key, max_views, view_count`
+	)
+		.bind(id, now)
+		.first();
+
+	if (!recipient) {
+		return recipientError(env, id, now, corsHeaders);
+	}
+
+	const noteId = recipient.note_id as string;
+	const note = await env.DB.prepare('SELECT cipher_text, iv, expires_at, chunk_count FROM texts WHERE id = ?')
+		.bind(noteId)
+		.first();
+
+	// Deleted between the two statements
+	if (!note) {
+		return errorResponse(404, 'Text not found', corsHeaders);
+	}
+
+	// Read before the note can be deleted below, chunks included
+	const cipherText = await readCiphertext(env, noteId, note);
+	if (cipherText === null) {
+		return errorResponse(500, 'Stored note is incomplete', corsHeaders);
+	}
+	const attachments = await listAttachments(env, noteId);
+
+	// This recipient's link is used up; the note goes once every link is
+	const burned = recipient.max_views !== null && (recipient.view_count as number) >= (recipient.max_views as number);
+	if (burned) {
+		await deleteNoteIfUnreachable(env, noteId, now);
+	}
+	await recordView(env, ctx, noteId, now, { recipientId: id, burned });
+
+	return successResponse<RecipientFetchResponse>({
+		id,
+		cipher_text: storedToBase64Url(cipherText),
+		iv: storedToBase64Url(note.iv),
+		expiresAt: note.expires_at as number,
+		remainingViews: remainingViews(recipient),
+		requiresPassword: false,
+		attachments,
+		burned,
+		wrappedKey: recipient.wrapped_key as string
+	}, corsHeaders);
+}
+
+export const recipientRoutes: Route[] = [
+	{
+		method: 'GET',
+		path: '/recipients/:id',
+		handler: getRecipientMeta,
+		failure: 'Failed to retrieve metadata',
+		rateLimit: 'fetch',
+		doc: {
+			summary: 'Get a note\'s metadata as one of its recipients',
+			description: 'Does not count as a view. The ID in the response is the recipient\'s, not the note\'s.',
+			tag: 'Recipients',
+			response: 'MetaResponse',
+			errors: [404, 410]
+		}
+	},
+	{
+		method: 'GET',
+		path: '/recipients/:id/fetch',
+		handler: fetchForRecipient,
+		failure: 'Failed to retrieve data',
+		rateLimit: 'fetch',
+		doc: {
+			summary: 'Fetch a note as one of its recipients',
+			description: 'Counts as a view of this recipient\'s link only. Returns the note\'s key wrapped for this recipient alongside the ciphertext. The note is deleted once no recipient has views left.',
+			tag: 'Recipients',
+			response: 'RecipientFetchResponse',
+			errors: [404, 410]
+		}
+	}
+];
@@ -0,0 +1,286 @@
+/**
+ * Secret requests: collecting a secret from someone else
+ * The requester creates a request and shares a link carrying their public key
+ * in its fragment. The responder seals a reply to that key and posts it here,
+ * where it is stored as an ordinary row in `texts`. Only the requester's token
+ * reads the reply back, and only their private key decrypts it.
+ */
+
+import type {
+	DeleteSecretRequestResponse,
+	ReplyResponse,
+	SecretReplyResponse,
+	SecretRequestResponse,
+	SecretRequestStatusResponse
+} from '../../shared/api';
+import { getConfig } from './config';
+import { storedToBase64Url, toStored } from './encoding';
+import type { Env } from './env';
+import { errorResponse, successResponse } from './http';
+import { generateId } from './id';
+import { createManageToken, getBearerToken, tokenMatches } from './manage';
+import type { Route, RouteContext } from './router';
+import { deleteTextChunks, readCiphertext, storeCiphertext } from './text-chunks';
+import { isBodyTooLarge, ttlError, validateReply, validationErrorResponse } from './validation';
+
+// Look up a live request, returning null if it is missing or has expired
+async function findRequest(env: Env, id: string, now: number): Promise<Record<string, unknown> | null> {
+	const row = await env.DB.prepare(
+		'SELECT id, token_hash, expires_at, reply_id, replied_at FROM secret_requests WHERE id = ?'
+	)
+		.bind(id)
+		.first();
+
+	return row && (row.expires_at as number) >= now ? row : null;
+}
+
+// Find the request and check the requester's Bearer token against it
+async function authorize(
+	request: Request,
+	env: Env,
+	id: string,
+	now: number,
+	corsHeaders: Record<string, string>
+): Promise<{ row: Record<string, unknown> } | { error: Response }> {
+	const token = getBearerToken(request);
+	if (!token) {
+		return { error: errorResponse(401, 'Missing request token', corsHeaders) };
+	}
+
+	const row = await findRequest(env, id, now);
+	if (!row) {
+		return { error: errorResponse(404, 'Request not found', corsHeaders) };
+	}
+	if (!(await tokenMatches(row.token_hash as string, token))) {
+		return { error: errorResponse(403, 'Invalid request token', corsHeaders) };
+	}
+
+	return { row };
+}
+
+// POST /requests - Open a request for a secret
+async function createRequest({ request, env, corsHeaders }: RouteContext): Promise<Response> {
+	let body: { ttl?: unknown };
+	try {
+		body = await request.json();
+	} catch {
+		return errorResponse(400, 'Invalid JSON body', corsHeaders);
+	}
+
+	const config = getConfig(env);
+	const { ttl } = body;
+	const invalidTtl = ttlError(ttl, config.maxTtl);
+	if (invalidTtl) {
+		return errorResponse(422, `ttl ${invalidTtl}`, corsHeaders);
+	}
+
+	const id = generateId(config.idLength);
+	const token = await createManageToken();
+	const now = Math.floor(Date.now() / 1000);
+	const expiresAt = now + (ttl as number);
+
+	await env.DB.prepare('INSERT INTO secret_requests (id, token_hash, created_at, expires_at) VALUES (?, ?, ?, ?)')
+		.bind(id, token.hash, now, expiresAt)
+		.run();
+
+	return successResponse<SecretRequestResponse>({ id, expiresAt, token: token.token }, corsHeaders);
+}
+
+// GET /requests/{id} - Whether a request is still open, for the responder's page
+async function getRequest({ env, params, corsHeaders }: RouteContext): Promise<Response> {
+	const row = await findRequest(env, params.id, Math.floor(Date.now() / 1000));
+	if (!row) {
+		return errorResponse(404, 'Request not found', corsHeaders);
+	}
+
+	return successResponse<SecretRequestStatusResponse>({
+		id: row.id as string,
+		expiresAt: row.expires_at as number,
+		replied: row.reply_id !== null
+	}, corsHeaders);
+}
+
+// POST /requests/{id}/reply - Store the sealed reply. Each request takes one.
+async function postReply({ request, env, params, corsHeaders }: RouteContext): Promise<Response> {
+	const { maxCiphertextSize, idLength } = getConfig(env);
+	if (isBodyTooLarge(request, maxCiphertextSize)) {
+		return errorResponse(413, `Request body exceeds the maximum size of ${maxCiphertextSize} characters`, corsHeaders);
+	}
+
+	let body: unknown;
+	try {
+		body = await request.json();
+	} catch {
+		return errorResponse(400, 'Invalid JSON body', corsHeaders);
+	}
+
+	const validation = validateReply(body, maxCiphertextSize);
+	if (!validation.ok) {
+		return validationErrorResponse(validation, corsHeaders);
+	}
+	const { cipherText, iv } = validation.value;
+
+	const now = Math.floor(Date.now() / 1000);
+	const replyId = generateId(idLength);
+
+	// Claim the request first, so of two concurrent replies only one is stored
+	const claimed = await env.DB.prepare(
+		`UPDATE secret_requests SET reply_id = ?, replied_at = ?
+		WHERE id = ? AND reply_id IS NULL AND expires_at >= ?
+		RETURNING expires_at`
+	)
+		.bind(replyId, now, params.id, now)
+		.first();
+
+	if (!claimed) {
+		return await findRequest(env, params.id, now)
+			? errorResponse(409, 'This request has already been answered', corsHeaders)
+			: errorResponse(404, 'Request not found', corsHeaders);
+	}
+
+	// The reply lives exactly as long as the request
+	const stored = storeCiphertext(env, replyId, toStored(cipherText));
+	try {
+		await env.DB.batch([
+			env.DB.prepare(
+				'INSERT INTO texts (id, cipher_text, iv, created_at, expires_at, chunk_count) VALUES (?, ?, ?, ?, ?, ?)'
+			)
+				.bind(replyId, stored.cipherText, toStored(iv), now, claimed.expires_at, stored.chunkCount),
+			...stored.statements
+		]);
+	} catch (error) {
+		// Release the claim, or the request would stay answered with no reply
+		// behind it and the responder could never try again
+		await env.DB.prepare('UPDATE secret_requests SET reply_id = NULL, replied_at = NULL WHERE id = ? AND reply_id = ?')
+			.bind(params.id, replyId)
+			.run();
+		throw error;
+	}
+
+	return successResponse<ReplyResponse>({ id: params.id, repliedAt: now }, corsHeaders);
+}
+
+// GET /requests/{id}/reply - The sealed reply, for the requester
+async function getReply({ request, env, params, corsHeaders }: RouteContext): Promise<Response> {
+	const auth = await authorize(request, env, params.id, Math.floor(Date.now() / 1000), corsHeaders);
+	if ('error' in auth) {
+		return auth.error;
+	}
+
+	const reply = auth.row.reply_id === null
+		? null
+		: await env.DB.prepare('SELECT cipher_text, iv, chunk_count FROM texts WHERE id = ?').bind(auth.row.reply_id).first();
+	if (!reply) {
+		return errorResponse(404, 'No reply yet', corsHeaders);
+	}
+
+	const cipherText = await readCiphertext(env, auth.row.reply_id as string, reply);
+	if (cipherText === null) {
+		return errorResponse(500, 'Stored reply is incomplete', corsHeaders);
+	}
+
+	return successResponse<SecretReplyResponse>({
+		id: params.id,
+		cipherText: storedToBase64Url(cipherText),
+		iv: storedToBase64Url(reply.iv),
+		repliedAt: auth.row.replied_at as number
+	}, corsHeaders);
+}
+
+// DELETE /requests/{id} - Close a request and delete its reply
+async function deleteRequest({ request, env, params, corsHeaders }: RouteContext): Promise<Response> {
+	const auth = await authorize(request, env, params.id, Math.floor(Date.now() / 1000), corsHeaders);
+	if ('error' in auth) {
+		return auth.error;
+	}
+
+	await env.DB.batch([
+		env.DB.prepare('DELETE FROM texts WHERE id = ?').bind(auth.row.reply_id),
+		deleteTextChunks(env, auth.row.reply_id as string),
+		env.DB.prepare('DELETE FROM secret_requests WHERE id = ?').bind(params.id)
+	]);
+
+	return successResponse<DeleteSecretRequestResponse>({ id: params.id, deleted: true }, corsHeaders);
+}
+
+/**
+ * Delete requests that expired before `now`. Their replies share the same
+ * expiry, so the `texts` purge removes those.
+ */
+export async function purgeExpiredRequests(env: Env, now: number): Promise<number> {
+	const { meta } = await env.DB.prepare('DELETE FROM secret_requests WHERE expires_at < ?').bind(now).run();
+	return meta.changes;
+}
+
+export const requestRoutes: Route[] = [
+	{
+		method: 'POST',
+		path: '/requests',
+		handler: createRequest,
+		failure: 'Failed to create request',
+		rateLimit: 'submit',
+		doc: {
+			summary: 'Ask someone to send you a secret',
+			description: 'Returns the request ID and a token for reading the reply. The public key replies are sealed to stays in the link you share and is never sent here.',
+			tag: 'Secret requests',
+			requestBody: 'SecretRequestInput',
+			response: 'SecretRequestResponse',
+			errors: [400, 422]
+		}
+	},
+	{
+		method: 'GET',
+		path: '/requests/:id',
+		handler: getRequest,
+		failure: 'Failed to retrieve request',
+		rateLimit: 'fetch',
+		doc: {
+			summary: 'Check whether a request is still open',
+			tag: 'Secret requests',
+			response: 'SecretRequestStatusResponse',
+			errors: [404]
+		}
+	},
+	{
+		method: 'DELETE',
+		path: '/requests/:id',
+		handler: deleteRequest,
+		failure: 'Failed to delete request',
+		doc: {
+			summary: 'Close a request',
+			description: 'Deletes the request and its reply.',
+			tag: 'Secret requests',
+			response: 'DeleteSecretRequestResponse',
+			errors: [401, 403, 404],
+			auth: true
+		}
+	},
+	{
+		method: 'POST',
+		path: '/requests/:id/reply',
+		handler: postReply,
+		failure: 'Failed to store reply',
+		rateLimit: 'submit',
+		doc: {
+			summary: 'Answer a request',
+			description: 'The reply must already be sealed to the public key from the request link. Each request accepts one reply.',
+			tag: 'Secret requests',
+			requestBody: 'ReplyRequest',
+			response: 'ReplyResponse',
+			errors: [400, 404, 409, 413, 422]
+		}
+	},
+	{
+		method: 'GET',
+		path: '/requests/:id/reply',
+		handler: getReply,
+		failure: 'Failed to retrieve reply',
+		doc: {
+			summary: 'Read the reply to your request',
+			tag: 'Secret requests',
+			response: 'SecretReplyResponse',
+			errors: [401, 403, 404],
+			auth: true
+		}
+	}
+];
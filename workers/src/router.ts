@@ -0,0 +1,140 @@
+/**
+ * Route table and dispatch for the versioned API
+ * Routes are declared once, with the documentation the OpenAPI document is
+ * generated from, and served under `/api/v1`. The unversioned `/api` paths
+ * from before versioning remain as aliases for deployed clients.
+ */
+
+import type { Env } from './env';
+import { errorResponse } from './http';
+import { checkRateLimit, rateLimitResponse, type RateLimitScope } from './rate-limit';
+
+export const API_PREFIX = '/api/v1';
+const LEGACY_PREFIX = '/api';
+
+// IDs and chunk indexes are both URL-safe tokens
+const PARAM_PATTERN = '([A-Za-z0-9_-]+)';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface RouteContext {
+	request: Request;
+	env: Env;
+	ctx: ExecutionContext;
+	url: URL;
+	// Values of the route's `:name` segments
+	params: Record<string, string>;
+	corsHeaders: Record<string, string>;
+}
+
+/**
+ * How a route appears in the OpenAPI document. Schema names refer to
+ * `components.schemas`; 'binary' is a raw octet stream.
+ */
+export interface RouteDoc {
+	summary: string;
+	description?: string;
+	tag: string;
+	requestBody?: string;
+	response: string;
+	// Error statuses the route can return, besides 429 and 500
+	errors: number[];
+	// Whether the route needs the note's manage token as a Bearer credential
+	auth?: boolean;
+	// Which side can also use the binary framing of shared/api.ts
+	binary?: 'request' | 'response';
+}
+
+export interface Route {
+	method: HttpMethod;
+	// Path below the API prefix, with `:name` parameters
+	path: string;
+	handler: (context: RouteContext) => Promise<Response>;
+	// Message returned if the handler throws
+	failure: string;
+	// Counted against this rate limit before the handler runs
+	rateLimit?: RateLimitScope;
+	// Routes without docs are left out of the OpenAPI document
+	doc?: RouteDoc;
+}
+
+interface CompiledRoute {
+	route: Route;
+	pattern: RegExp;
+	paramNames: string[];
+}
+
+function compile(route: Route): CompiledRoute {
+	const paramNames: string[] = [];
+	const source = route.path.replace(/\./g, '\\.').replace(/:([A-Za-z]+)/g, (_, name: string) => {
+		paramNames.push(name);
+		return PARAM_PATTERN;
+	});
+	return { route, pattern: new RegExp(`^${source}$`), paramNames };
+}
+
+// The part of an API path below its prefix, or null for non-API paths
+function stripPrefix(path: string): string | null {
+	for (const prefix of [API_PREFIX, LEGACY_PREFIX]) {
+		if (path === prefix) return '';
+		if (path.startsWith(`${prefix}/`)) return path.substring(prefix.length);
+	}
+	return null;
+}
+
+/**
+ * Whether `path` is under /api/v1 or /api, and so handled by the router
+ * rather than served from the static assets
+ */
+export function isApiPath(path: string): boolean {
+	return stripPrefix(path) !== null;
+}
+
+/**
+ * Create a dispatcher for `routes`. It returns null for paths outside the
+ * API, and a 404 or 405 for API paths no route matches.
+ */
+export function createRouter(routes: Route[]) {
+	const compiled = routes.map(compile);
+
+	return async function dispatch(
+		request: Request,
+		env: Env,
+		ctx: ExecutionContext,
+		corsHeaders: Record<string, string>
+	): Promise<Response | null> {
+		const url = new URL(request.url);
+		const path = stripPrefix(url.pathname);
+		if (path === null) {
+			return null;
+		}
+
+		let pathMatched = false;
+		for (const { route, pattern, paramNames } of compiled) {
+			const match = path.match(pattern);
+			if (!match) continue;
+			pathMatched = true;
+			if (route.method !== request.method) continue;
+
+			const params = Object.fromEntries(paramNames.map((name, index) => [name, match[index + 1]]));
+
+			try {
+				if (route.rateLimit) {
+					const retryAfter = await checkRateLimit(request, env, route.rateLimit, Math.floor(Date.now() / 1000));
+					if (retryAfter !== null) {
+						return rateLimitResponse(retryAfter, corsHeaders);
+					}
+				}
+
+				return await route.handler({ request, env, ctx, url, params, corsHeaders });
+			} catch (error) {
+				console.error(`${route.method} ${route.path} failed:`, error);
+				return errorResponse(500, route.failure, corsHeaders);
+			}
+		}
+
+		return pathMatched
+			? errorResponse(405, `Method ${request.method} not allowed`, corsHeaders)
+			: errorResponse(404, 'No such endpoint', corsHeaders);
+	};
+}
@@ -0,0 +1,87 @@
+/**
+ * Batch status lookups for notes a client created
+ * Lets the frontend's "My notes" panel show which links still work without
+ * fetching (or counting a view of) any ciphertext.
+ */
+
+import type { NoteStatus, StatusResponse } from '../../shared/api';
+import { errorResponse, successResponse } from './http';
+import { checkRateLimit, rateLimitResponse } from './rate-limit';
+import type { Route, RouteContext } from './router';
+
+// Most IDs accepted in one request
+export const MAX_STATUS_IDS = 50;
+
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+// POST /status - Existence and expiry of up to MAX_STATUS_IDS notes
+async function getStatuses({ request, env, corsHeaders }: RouteContext): Promise<Response> {
+	let body: { ids?: unknown };
+	try {
+		body = await request.json();
+	} catch {
+		return errorResponse(400, 'Invalid JSON body', corsHeaders);
+	}
+
+	const { ids } = body;
+	if (!Array.isArray(ids) || ids.length > MAX_STATUS_IDS
+		|| !ids.every(id => typeof id === 'string' && ID_PATTERN.test(id))) {
+		return errorResponse(422, `ids must be a list of at most ${MAX_STATUS_IDS} note IDs`, corsHeaders);
+	}
+
+	// Each ID is a lookup like /meta's, so a batch counts as that many hits
+	// against the fetch limit; the router has already counted the first
+	const now = Math.floor(Date.now() / 1000);
+	if (ids.length > 1) {
+		const retryAfter = await checkRateLimit(request, env, 'fetch', now, ids.length - 1);
+		if (retryAfter !== null) {
+			return rateLimitResponse(retryAfter, corsHeaders);
+		}
+	}
+
+	const rows = ids.length === 0
+		? []
+		: (await env.DB.prepare(
+			`SELECT id, expires_at, max_views, view_count FROM texts WHERE id IN (${ids.map(() => '?').join(', ')})`
+		)
+			.bind(...ids)
+			.all()).results;
+	const byId = new Map(rows.map(row => [row.id as string, row]));
+
+	// Burned, revoked and purged notes are simply gone
+	const notes: NoteStatus[] = (ids as string[]).map(id => {
+		const row = byId.get(id);
+		if (!row) {
+			return { id, status: 'not_found', expiresAt: null, remainingViews: null };
+		}
+		return {
+			id,
+			status: (row.expires_at as number) < now ? 'expired' : 'active',
+			expiresAt: row.expires_at as number,
+			remainingViews: row.max_views === null
+				? null
+				: (row.max_views as number) - (row.view_count as number)
+		};
+	});
+
+	return successResponse<StatusResponse>({ notes }, corsHeaders);
+}
+
+export const statusRoutes: Route[] = [
+	{
+		method: 'POST',
+		path: '/status',
+		handler: getStatuses,
+		failure: 'Failed to retrieve note status',
+		// Counted once per ID, see getStatuses
+		rateLimit: 'fetch',
+		doc: {
+			summary: 'Check whether notes still exist',
+			description: `Looks up at most ${MAX_STATUS_IDS} notes without returning ciphertext or counting a view. Each ID counts against the fetch rate limit.`,
+			tag: 'Notes',
+			requestBody: 'StatusRequest',
+			response: 'StatusResponse',
+			errors: [400, 422]
+		}
+	}
+];
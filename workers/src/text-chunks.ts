@@ -0,0 +1,143 @@
+/**
+ * Chunked storage for large ciphertexts
+ * D1 refuses any single value over 2 MB, so ciphertexts longer than
+ * TEXT_CHUNK_SIZE bytes are split over ordered rows in text_chunks (migration
+ * 0011) instead of going in texts.cipher_text. Reading one back streams the
+ * chunks in order, after checking that every one of them is there.
+ */
+
+import type { Env } from './env';
+import { storedToBytes } from './encoding';
+
+// Bytes per chunk, well under D1's value limit so each insert stays light
+export const TEXT_CHUNK_SIZE = 256 * 1024;
+// How long a burned text's chunks are kept from the purge while its last
+// response is streamed (seconds)
+const BURN_GRACE_PERIOD = 600;
+
+/**
+ * How to store a text's ciphertext: the value for texts.cipher_text, the
+ * texts.chunk_count, and the statements inserting its chunks, to run in the
+ * same batch as the text's own insert
+ */
+export function storeCiphertext(
+	env: Env,
+	textId: string,
+	stored: Uint8Array | string
+): { cipherText: Uint8Array | string; chunkCount: number; statements: D1PreparedStatement[] } {
+	// Text that isn't canonical base64url is only ever short (see encoding.ts)
+	if (typeof stored === 'string' || stored.length <= TEXT_CHUNK_SIZE) {
+		return { cipherText: stored, chunkCount: 0, statements: [] };
+	}
+
+	const chunkCount = Math.ceil(stored.length / TEXT_CHUNK_SIZE);
+	const statements = Array.from({ length: chunkCount }, (_, position) =>
+		env.DB.prepare('INSERT INTO text_chunks (text_id, position, data) VALUES (?, ?, ?)')
+			.bind(textId, position, stored.subarray(position * TEXT_CHUNK_SIZE, (position + 1) * TEXT_CHUNK_SIZE))
+	);
+	return { cipherText: new Uint8Array(0), chunkCount, statements };
+}
+
+/**
+ * Whether all `chunkCount` chunks of a text are stored. Positions are unique
+ * per text, so the right count spanning the right range means none is missing.
+ */
+export async function hasAllChunks(env: Env, textId: string, chunkCount: number): Promise<boolean> {
+	const row = await env.DB.prepare(
+		'SELECT COUNT(*) AS count, MIN(position) AS first, MAX(position) AS last FROM text_chunks WHERE text_id = ?'
+	)
+		.bind(textId)
+		.first();
+
+	return row?.count === chunkCount && row.first === 0 && row.last === chunkCount - 1;
+}
+
+/**
+ * A text's chunks in order, read from D1 one at a time as the stream is
+ * consumed. With `deleteAfter`, the chunks are deleted once the stream ends or
+ * is cancelled, for texts whose row is already gone.
+ */
+export function streamChunks(
+	env: Env,
+	textId: string,
+	chunkCount: number,
+	deleteAfter = false
+): ReadableStream<Uint8Array> {
+	let position = 0;
+	const cleanUp = async () => {
+		if (deleteAfter) {
+			await deleteTextChunks(env, textId).run();
+		}
+	};
+
+	return new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			const chunk = await env.DB.prepare('SELECT data FROM text_chunks WHERE text_id = ? AND position = ?')
+				.bind(textId, position)
+				.first();
+
+			// Deleted since hasAllChunks
+			if (!chunk) {
+				await cleanUp();
+				controller.error(new Error(`Chunk ${position} of ${textId} is missing`));
+				return;
+			}
+
+			controller.enqueue(storedToBytes(chunk.data));
+			position++;
+			if (position === chunkCount) {
+				await cleanUp();
+				controller.close();
+			}
+		},
+		cancel: cleanUp
+	});
+}
+
+/**
+ * A text's whole ciphertext as stored, joining its chunks when it has any.
+ * Returns null if a chunk is missing.
+ */
+export async function readCiphertext(
+	env: Env,
+	textId: string,
+	row: Record<string, unknown>,
+	deleteAfter = false
+): Promise<unknown> {
+	const chunkCount = (row.chunk_count as number | null) ?? 0;
+	if (chunkCount === 0) {
+		return row.cipher_text;
+	}
+
+	if (!(await hasAllChunks(env, textId, chunkCount))) {
+		return null;
+	}
+	return new Uint8Array(await new Response(streamChunks(env, textId, chunkCount, deleteAfter)).arrayBuffer());
+}
+
+export function deleteTextChunks(env: Env, textId: string): D1PreparedStatement {
+	return env.DB.prepare('DELETE FROM text_chunks WHERE text_id = ?').bind(textId);
+}
+
+/**
+ * Keep a burned text's chunks from the purge for a grace period, to run in the
+ * same batch as the delete of its row. streamChunks deletes them itself once
+ * the last response has been read.
+ */
+export function expireTextChunksSoon(env: Env, textId: string, now: number): D1PreparedStatement {
+	return env.DB.prepare('UPDATE text_chunks SET delete_after = ? WHERE text_id = ?').bind(now + BURN_GRACE_PERIOD, textId);
+}
+
+/**
+ * Delete chunks whose text has been deleted or purged, except those of burned
+ * texts still within their grace period
+ */
+export async function purgeOrphanedTextChunks(env: Env, now: number): Promise<number> {
+	const { meta } = await env.DB.prepare(
+		`DELETE FROM text_chunks WHERE (delete_after IS NULL OR delete_after < ?)
+		AND NOT EXISTS (SELECT 1 FROM texts WHERE texts.id = text_chunks.text_id)`
+	)
+		.bind(now)
+		.run();
+	return meta.changes;
+}
@@ -0,0 +1,238 @@
+/**
+ * Request validation for /api/submit
+ * Checks types, formats and limits before anything is written to D1
+ */
+
+import type { FieldError, ReplyRequest, SubmitRequest } from '../../shared/api';
+import { MAX_ATTACHMENTS } from './attachments';
+import type { Config } from './config';
+import { base64UrlLength } from './encoding';
+import { errorResponse } from './http';
+import { MAX_RECIPIENTS } from './recipients';
+
+// Shortest TTL, 3 minutes. The longest is configured with MAX_TTL (see config.ts).
+export const MIN_TTL = 180;
+
+// Room for the other JSON fields when checking Content-Length against the ciphertext limit
+const BODY_OVERHEAD = 4096;
+
+// AES-GCM IVs are 12 bytes, which is 16 base64url characters
+const IV_PATTERN = /^[A-Za-z0-9_-]{16}$/;
+const BASE64URL_PATTERN = /^[A-Za-z0-9_-]+$/;
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+// A wrapped 256-bit key is a short envelope, well under this
+const WRAPPED_KEY_PATTERN = /^[A-Za-z0-9_-]{1,256}$/;
+export const MAX_WEBHOOK_URL_LENGTH = 2048;
+
+export interface SubmitPayload {
+	ttl: number;
+	// base64url from a JSON submit, or the bytes of a binary one
+	cipherText: string | Uint8Array;
+	iv: string;
+	maxViews: number | null;
+	requiresPassword: boolean;
+	attachments: string[];
+	recipients: string[];
+	webhookUrl: string | null;
+}
+
+export type ValidationResult<T> =
+	| { ok: true; value: T }
+	| { ok: false; status: 400 | 413 | 422; message: string; errors: FieldError[] };
+
+/**
+ * The problem with a TTL, or null if it is within MIN_TTL..maxTtl
+ */
+export function ttlError(ttl: unknown, maxTtl: number): string | null {
+	return Number.isInteger(ttl) && (ttl as number) >= MIN_TTL && (ttl as number) <= maxTtl
+		? null
+		: `must be an integer between ${MIN_TTL} and ${maxTtl} seconds`;
+}
+
+/**
+ * Reject oversized bodies from their Content-Length before reading them
+ */
+export function isBodyTooLarge(request: Request, maxCiphertextSize: number): boolean {
+	const contentLength = Number(request.headers.get('Content-Length'));
+	return Number.isFinite(contentLength) && contentLength > maxCiphertextSize + BODY_OVERHEAD;
+}
+
+function isWebhookUrl(value: unknown): boolean {
+	if (typeof value !== 'string' || value.length > MAX_WEBHOOK_URL_LENGTH || !URL.canParse(value)) {
+		return false;
+	}
+	return new URL(value).protocol === 'https:';
+}
+
+/**
+ * Validate a submit. For a binary submit, `body` is its JSON fields with the
+ * ciphertext bytes as `cipherText`, which count against the size limit as
+ * their base64url length so both forms have the same limit.
+ */
+export function validateSubmit(
+	body: unknown,
+	{ maxTtl, maxCiphertextSize }: Pick<Config, 'maxTtl' | 'maxCiphertextSize'>
+): ValidationResult<SubmitPayload> {
+	if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+		return { ok: false, status: 400, message: 'Request body must be a JSON object', errors: [] };
+	}
+
+	const {
+		ttl,
+		cipherText,
+		iv,
+		burnAfterReading,
+		maxViews,
+		requiresPassword,
+		attachments,
+		recipients,
+		webhookUrl
+	} = body as {
+		[K in keyof SubmitRequest]?: unknown;
+	};
+
+	const binary = cipherText instanceof Uint8Array;
+
+	// Validate required parameters
+	if (!ttl || !cipherText || !iv || (binary && cipherText.length === 0)) {
+		return { ok: false, status: 400, message: 'Missing required parameters: ttl, cipherText, iv', errors: [] };
+	}
+
+	const cipherTextLength = binary ? base64UrlLength(cipherText.length) : typeof cipherText === 'string' ? cipherText.length : 0;
+	if (cipherTextLength > maxCiphertextSize) {
+		return {
+			ok: false,
+			status: 413,
+			message: `cipherText exceeds the maximum size of ${maxCiphertextSize} characters`,
+			errors: [{ field: 'cipherText', message: `must be at most ${maxCiphertextSize} characters` }]
+		};
+	}
+
+	const errors: FieldError[] = [];
+
+	const invalidTtl = ttlError(ttl, maxTtl);
+	if (invalidTtl) {
+		errors.push({ field: 'ttl', message: invalidTtl });
+	}
+	if (!binary && (typeof cipherText !== 'string' || !BASE64URL_PATTERN.test(cipherText))) {
+		errors.push({ field: 'cipherText', message: 'must be a base64url string' });
+	}
+	if (typeof iv !== 'string' || !IV_PATTERN.test(iv)) {
+		errors.push({ field: 'iv', message: 'must be a 12-byte base64url string' });
+	}
+	if (burnAfterReading !== undefined && typeof burnAfterReading !== 'boolean') {
+		errors.push({ field: 'burnAfterReading', message: 'must be a boolean' });
+	}
+	if (maxViews !== undefined && maxViews !== null
+		&& (!Number.isInteger(maxViews) || (maxViews as number) < 1)) {
+		errors.push({ field: 'maxViews', message: 'must be a positive integer' });
+	}
+	if (requiresPassword !== undefined && typeof requiresPassword !== 'boolean') {
+		errors.push({ field: 'requiresPassword', message: 'must be a boolean' });
+	}
+	if (attachments !== undefined && (
+		!Array.isArray(attachments)
+		|| attachments.length > MAX_ATTACHMENTS
+		|| !attachments.every(id => typeof id === 'string' && ID_PATTERN.test(id))
+	)) {
+		errors.push({ field: 'attachments', message: `must be a list of at most ${MAX_ATTACHMENTS} attachment IDs` });
+	}
+	if (recipients !== undefined && (
+		!Array.isArray(recipients)
+		|| recipients.length > MAX_RECIPIENTS
+		|| !recipients.every(key => typeof key === 'string' && WRAPPED_KEY_PATTERN.test(key))
+	)) {
+		errors.push({ field: 'recipients', message: `must be a list of at most ${MAX_RECIPIENTS} wrapped keys` });
+	} else if (Array.isArray(recipients) && recipients.length > 0 && requiresPassword === true) {
+		// Recipients unwrap the key from their link, so there is no password to ask for
+		errors.push({ field: 'recipients', message: 'cannot be combined with requiresPassword' });
+	}
+	if (webhookUrl !== undefined && !isWebhookUrl(webhookUrl)) {
+		errors.push({ field: 'webhookUrl', message: `must be an https URL of at most ${MAX_WEBHOOK_URL_LENGTH} characters` });
+	}
+
+	if (errors.length > 0) {
+		return {
+			ok: false,
+			status: 422,
+			message: errors.map(error => `${error.field} ${error.message}`).join('; '),
+			errors
+		};
+	}
+
+	return {
+		ok: true,
+		value: {
+			ttl: ttl as number,
+			cipherText: cipherText as string | Uint8Array,
+			iv: iv as string,
+			// Burn-after-reading notes can be fetched exactly once
+			maxViews: burnAfterReading ? 1 : ((maxViews as number | undefined) ?? null),
+			// Password-protected notes are shared without the key, so the
+			// viewer needs to know to ask for one
+			requiresPassword: requiresPassword === true,
+			attachments: (attachments as string[] | undefined) ?? [],
+			recipients: (recipients as string[] | undefined) ?? [],
+			webhookUrl: (webhookUrl as string | undefined) ?? null
+		}
+	};
+}
+
+/**
+ * Validate a reply to a secret request: the same ciphertext rules as a note,
+ * without any of the note's options
+ */
+export function validateReply(body: unknown, maxCiphertextSize: number): ValidationResult<ReplyRequest> {
+	if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+		return { ok: false, status: 400, message: 'Request body must be a JSON object', errors: [] };
+	}
+
+	const { cipherText, iv } = body as { [K in keyof ReplyRequest]?: unknown };
+	if (!cipherText || !iv) {
+		return { ok: false, status: 400, message: 'Missing required parameters: cipherText, iv', errors: [] };
+	}
+
+	if (typeof cipherText === 'string' && cipherText.length > maxCiphertextSize) {
+		return {
+			ok: false,
+			status: 413,
+			message: `cipherText exceeds the maximum size of ${maxCiphertextSize} characters`,
+			errors: [{ field: 'cipherText', message: `must be at most ${maxCiphertextSize} characters` }]
+		};
+	}
+
+	const errors: FieldError[] = [];
+	if (typeof cipherText !== 'string' || !BASE64URL_PATTERN.test(cipherText)) {
+		errors.push({ field: 'cipherText', message: 'must be a base64url string' });
+	}
+	if (typeof iv !== 'string' || !IV_PATTERN.test(iv)) {
+		errors.push({ field: 'iv', message: 'must be a 12-byte base64url string' });
+	}
+
+	if (errors.length > 0) {
+		return {
+			ok: false,
+			status: 422,
+			message: errors.map(error => `${error.field} ${error.message}`).join('; '),
+			errors
+		};
+	}
+
+	return { ok: true, value: { cipherText: cipherText as string, iv: iv as string } };
+}
+
+/**
+ * Error response for a failed validation, in the standard error shape plus
+ * the individual field errors
+ */
+export function validationErrorResponse(
+	result: Extract<ValidationResult<unknown>, { ok: false }>,
+	corsHeaders: Record<string, string>
+): Response {
+	return errorResponse(
+		result.status,
+		result.message,
+		corsHeaders,
+		result.errors.length > 0 ? { errors: result.errors } : {}
+	);
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { HTML_CSP } from '../src/assets';
+import { callWorker } from './helpers';
+
+const INDEX_HTML = '<!doctype html><div id="root"></div>';
+
+// Stand in for the asset server, with a build of index.html and one script
+const ASSETS = {
+	async fetch(input: RequestInfo | URL): Promise<Response> {
+		const { pathname } = new URL(input instanceof Request ? input.url : input);
+		if (pathname === '/') {
+			return new Response(INDEX_HTML, { headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+		}
+		if (pathname === '/assets/index-abc123.js') {
+			return new Response('console.log("app")', { headers: { 'Content-Type': 'text/javascript' } });
+		}
+		return new Response('Not Found', { status: 404 });
+	}
+} as Fetcher;
+
+describe('Static assets', () => {
+	it('serves index.html with a strict CSP that is revalidated on every load', async () => {
+		const response = await callWorker('http://example.com/', {}, { ASSETS });
+		expect(response.status).toBe(200);
+		expect(await response.text()).toBe(INDEX_HTML);
+		expect(response.headers.get('Content-Security-Policy')).toBe(HTML_CSP);
+		expect(response.headers.get('Cache-Control')).toBe('no-cache');
+		expect(response.headers.get('X-Content-Type-Options')).toBe('nosniff');
+	});
+
+	it('serves the app for note links', async () => {
+		for (const path of ['/n/abc123', '/to/xyz789', '/manage/abc123', '/r/req456', '/abc123~legacyKey']) {
+			const response = await callWorker(`http://example.com${path}`, {}, { ASSETS });
+			expect(response.status).toBe(200);
+			expect(await response.text()).toBe(INDEX_HTML);
+			expect(response.headers.get('Content-Security-Policy')).toBe(HTML_CSP);
+		}
+	});
+
+	it('caches hashed build files for good', async () => {
+		const response = await callWorker('http://example.com/assets/index-abc123.js', {}, { ASSETS });
+		expect(response.status).toBe(200);
+		expect(response.headers.get('Cache-Control')).toBe('public, max-age=31536000, immutable');
+		expect(response.headers.get('Content-Security-Policy')).toBeNull();
+	});
+
+	it('returns 404 for missing files instead of the app', async () => {
+		const response = await callWorker('http://example.com/assets/missing-000000.js', {}, { ASSETS });
+		expect(response.status).toBe(404);
+		expect(response.headers.get('Cache-Control')).toBeNull();
+	});
+
+	it('leaves /api to the API', async () => {
+		for (const path of ['/api/v1', '/api/v1/fetch/missingNote', '/api/fetch/missingNote']) {
+			const response = await callWorker(`http://example.com${path}`, {}, { ASSETS });
+			expect(response.headers.get('Content-Type')).toBe('application/json');
+			expect(response.headers.get('Content-Security-Policy')).toBe("default-src 'none'; frame-ancestors 'none'");
+		}
+	});
+});
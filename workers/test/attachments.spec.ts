@@ -0,0 +1,173 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { CHUNK_SIZE, MAX_ATTACHMENT_SIZE } from '../src/attachments';
+import { callWorker, postJson, submitNote, type ApiResponse } from './helpers';
+
+// Start an upload and return its ID and chunk count
+async function createUpload(size: number): Promise<{ id: string; chunkCount: number }> {
+	const response = await postJson('http://example.com/api/attachments', { size });
+	const data = (await response.json()) as ApiResponse;
+	return data.data as { id: string; chunkCount: number };
+}
+
+function uploadChunk(id: string, index: number, data: Uint8Array): Promise<Response> {
+	return callWorker(`http://example.com/api/attachments/${id}/chunks/${index}`, {
+		method: 'PUT',
+		headers: { 'Content-Type': 'application/octet-stream' },
+		body: data
+	});
+}
+
+// Upload a complete attachment of the given size filled with `fill`
+async function uploadAttachment(size: number, fill: number = 7): Promise<string> {
+	const { id, chunkCount } = await createUpload(size);
+	for (let index = 0; index < chunkCount; index++) {
+		const length = index < chunkCount - 1 ? CHUNK_SIZE : size - CHUNK_SIZE * (chunkCount - 1);
+		await uploadChunk(id, index, new Uint8Array(length).fill(fill));
+	}
+	return id;
+}
+
+describe('Attachments', () => {
+	it('uploads in chunks, attaches to a note and downloads', async () => {
+		const size = CHUNK_SIZE + 16;
+		const { id, chunkCount } = await createUpload(size);
+		expect(chunkCount).toBe(2);
+
+		expect((await uploadChunk(id, 0, new Uint8Array(CHUNK_SIZE).fill(1))).status).toBe(200);
+		expect((await uploadChunk(id, 1, new Uint8Array(16).fill(2))).status).toBe(200);
+
+		const { id: noteId } = await submitNote({ ttl: 3600, cipherText: 'withFile', iv: 'withFileIV000000', attachments: [id] });
+
+		// Metadata doesn't count a view, so it lists the attachment without the ID that downloads it
+		const metaResponse = await callWorker(`http://example.com/api/meta/${noteId}`);
+		expect(((await metaResponse.json()) as ApiResponse).data.attachments).toEqual([{ size }]);
+
+		const fetchResponse = await callWorker(`http://example.com/api/fetch/${noteId}`);
+		expect(await fetchResponse.json()).toMatchObject({
+			data: { attachments: [{ id, size, chunkCount: 2 }] }
+		});
+
+		const chunk = await callWorker(`http://example.com/api/attachments/${id}/chunks/1`);
+		expect(chunk.status).toBe(200);
+		expect(new Uint8Array(await chunk.arrayBuffer())).toEqual(new Uint8Array(16).fill(2));
+
+		const row = await env.DB.prepare('SELECT expires_at FROM attachments WHERE id = ?').bind(id).first();
+		const note = await env.DB.prepare('SELECT expires_at FROM texts WHERE id = ?').bind(noteId).first();
+		expect(row?.expires_at).toBe(note?.expires_at);
+	});
+
+	it('rejects a note whose attachment upload is incomplete', async () => {
+		const { id } = await createUpload(CHUNK_SIZE + 16);
+		await uploadChunk(id, 0, new Uint8Array(CHUNK_SIZE));
+
+		const response = await postJson('http://example.com/api/submit', {
+			ttl: 3600,
+			cipherText: 'incomplete',
+			iv: 'incompleteIV0000',
+			attachments: [id]
+		});
+
+		expect(response.status).toBe(400);
+		expect(await response.json()).toMatchObject({
+			message: `Attachment upload is incomplete: ${id}`
+		});
+	});
+
+	it('does not serve attachments that no note has claimed', async () => {
+		const id = await uploadAttachment(32);
+
+		const response = await callWorker(`http://example.com/api/attachments/${id}/chunks/0`);
+		expect(response.status).toBe(404);
+	});
+
+	it('does not accept uploads once the attachment is claimed', async () => {
+		const id = await uploadAttachment(32);
+		await submitNote({ ttl: 3600, cipherText: 'claimed', iv: 'claimedIV0000000', attachments: [id] });
+
+		const response = await uploadChunk(id, 0, new Uint8Array(32));
+		expect(response.status).toBe(409);
+	});
+
+	it('rejects chunks of the wrong size', async () => {
+		const { id } = await createUpload(32);
+
+		const response = await uploadChunk(id, 0, new Uint8Array(31));
+		expect(response.status).toBe(400);
+	});
+
+	it('rejects a chunk from its Content-Length before reading it', async () => {
+		const { id } = await createUpload(32);
+
+		const response = await callWorker(`http://example.com/api/attachments/${id}/chunks/0`, {
+			method: 'PUT',
+			headers: { 'Content-Type': 'application/octet-stream', 'Content-Length': '8192' },
+			body: new Uint8Array(8192)
+		});
+		expect(response.status).toBe(413);
+	});
+
+	it('rate limits starting uploads and transferring chunks', async () => {
+		const limits = { RATE_LIMIT_SUBMIT: '1', RATE_LIMIT_UPLOAD: '1', RATE_LIMIT_FETCH: '1' };
+		const start = () => callWorker('http://example.com/api/attachments', {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({ size: 32 })
+		}, limits);
+
+		const started = await start();
+		expect(started.status).toBe(200);
+		expect((await start()).status).toBe(429);
+
+		const { id } = ((await started.json()) as ApiResponse).data as { id: string };
+		const upload = () => callWorker(`http://example.com/api/attachments/${id}/chunks/0`, {
+			method: 'PUT',
+			headers: { 'Content-Type': 'application/octet-stream' },
+			body: new Uint8Array(32)
+		}, limits);
+		expect((await upload()).status).toBe(200);
+		expect((await upload()).status).toBe(429);
+
+		const download = () => callWorker(`http://example.com/api/attachments/${id}/chunks/0`, {}, limits);
+		expect((await download()).status).toBe(404);
+		expect((await download()).status).toBe(429);
+	});
+
+	it('rejects attachments over the size limit', async () => {
+		const response = await postJson('http://example.com/api/attachments', { size: MAX_ATTACHMENT_SIZE + 1 });
+		expect(response.status).toBe(413);
+	});
+
+	it('keeps a burned note\'s attachments downloadable for a short grace period', async () => {
+		const id = await uploadAttachment(32);
+		const { id: noteId } = await submitNote({
+			ttl: 2592000,
+			cipherText: 'burnWithFile',
+			iv: 'burnWithFileIV00',
+			burnAfterReading: true,
+			attachments: [id]
+		});
+
+		const fetchResponse = await callWorker(`http://example.com/api/fetch/${noteId}`);
+		expect(await fetchResponse.json()).toMatchObject({ data: { burned: true } });
+
+		const chunk = await callWorker(`http://example.com/api/attachments/${id}/chunks/0`);
+		expect(chunk.status).toBe(200);
+		await chunk.arrayBuffer();
+
+		const row = await env.DB.prepare('SELECT expires_at FROM attachments WHERE id = ?').bind(id).first();
+		expect(row?.expires_at as number).toBeLessThanOrEqual(Math.floor(Date.now() / 1000) + 600);
+	});
+
+	it('deletes expired attachments when they are requested', async () => {
+		const id = await uploadAttachment(32);
+		await submitNote({ ttl: 3600, cipherText: 'expiredFile', iv: 'expiredFileIV000', attachments: [id] });
+		await env.DB.prepare('UPDATE attachments SET expires_at = ? WHERE id = ?')
+			.bind(Math.floor(Date.now() / 1000) - 60, id)
+			.run();
+
+		const response = await callWorker(`http://example.com/api/attachments/${id}/chunks/0`);
+		expect(response.status).toBe(410);
+		expect(await env.BLOBS.get(`attachments/${id}/0`)).toBeNull();
+	});
+});
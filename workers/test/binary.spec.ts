@@ -0,0 +1,98 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { decodeBinaryBody, encodeBinaryBody, type BinaryFetchResponse } from '../../shared/api';
+import { callWorker, type ApiResponse } from './helpers';
+
+const IV = 'binaryNoteIV0000';
+// Every byte value, so nothing can be lost to a text encoding
+const CIPHERTEXT = Uint8Array.from({ length: 256 }, (_, index) => index);
+
+function submitBinary(fields: Record<string, unknown>, data: Uint8Array, vars = {}): Promise<Response> {
+	return callWorker('http://example.com/api/v1/submit', {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/octet-stream' },
+		body: encodeBinaryBody(fields, data)
+	}, vars);
+}
+
+function fetchBinary(id: string): Promise<Response> {
+	return callWorker(`http://example.com/api/v1/fetch/${id}`, { headers: { Accept: 'application/octet-stream' } });
+}
+
+async function storedTypes(id: string): Promise<Record<string, unknown> | null> {
+	return env.DB.prepare('SELECT typeof(cipher_text) AS cipher_text, typeof(iv) AS iv FROM texts WHERE id = ?').bind(id).first();
+}
+
+describe('Binary ciphertext', () => {
+	it('stores and serves raw bytes through the binary form', async () => {
+		const submitted = await submitBinary({ ttl: 3600, iv: IV, maxViews: 2 }, CIPHERTEXT);
+		expect(submitted.status).toBe(200);
+		const { id } = ((await submitted.json()) as ApiResponse).data as { id: string };
+		expect(await storedTypes(id)).toEqual({ cipher_text: 'blob', iv: 'blob' });
+
+		const fetched = await fetchBinary(id);
+		expect(fetched.status).toBe(200);
+		expect(fetched.headers.get('Content-Type')).toBe('application/octet-stream');
+		const body = decodeBinaryBody<BinaryFetchResponse>(new Uint8Array(await fetched.arrayBuffer()));
+		expect(body?.fields).toMatchObject({ id, iv: IV, remainingViews: 1, burned: false });
+		expect(body?.data).toEqual(CIPHERTEXT);
+
+		// Older clients still get base64url
+		const base64url = btoa(String.fromCharCode(...CIPHERTEXT)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '');
+		const json = await callWorker(`http://example.com/api/v1/fetch/${id}`);
+		expect(await json.json()).toMatchObject({ data: { cipher_text: base64url, iv: IV, burned: true } });
+	});
+
+	it('stores JSON submits as bytes when they decode exactly', async () => {
+		const submitted = await callWorker('http://example.com/api/v1/submit', {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({ ttl: 3600, cipherText: 'AAEC_-8', iv: IV })
+		});
+		const { id } = ((await submitted.json()) as ApiResponse).data as { id: string };
+		expect(await storedTypes(id)).toEqual({ cipher_text: 'blob', iv: 'blob' });
+
+		const body = decodeBinaryBody(new Uint8Array(await (await fetchBinary(id)).arrayBuffer()));
+		expect(body?.data).toEqual(new Uint8Array([0, 1, 2, 255, 239]));
+		expect(await (await callWorker(`http://example.com/api/v1/fetch/${id}`)).json()).toMatchObject({
+			data: { cipher_text: 'AAEC_-8', iv: IV }
+		});
+	});
+
+	it('serves rows stored as base64url text unchanged', async () => {
+		// As written before the move to BLOB columns
+		const now = Math.floor(Date.now() / 1000);
+		await env.DB.prepare('INSERT INTO texts (id, cipher_text, iv, created_at, expires_at) VALUES (?, ?, ?, ?, ?)')
+			.bind('legacyTextRow', 'AAECAw', IV, now, now + 3600)
+			.run();
+		expect(await storedTypes('legacyTextRow')).toEqual({ cipher_text: 'text', iv: 'text' });
+
+		const json = await callWorker('http://example.com/api/v1/fetch/legacyTextRow');
+		expect(await json.json()).toMatchObject({ data: { cipher_text: 'AAECAw', iv: IV } });
+
+		const body = decodeBinaryBody(new Uint8Array(await (await fetchBinary('legacyTextRow')).arrayBuffer()));
+		expect(body?.data).toEqual(new Uint8Array([0, 1, 2, 3]));
+	});
+
+	it('validates binary submits like JSON ones', async () => {
+		const malformed = await callWorker('http://example.com/api/v1/submit', {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/octet-stream' },
+			body: new Uint8Array([0, 0, 1, 0, 123])
+		});
+		expect(malformed.status).toBe(400);
+		expect(await malformed.json()).toMatchObject({ message: 'Invalid binary body' });
+
+		const empty = await submitBinary({ ttl: 3600, iv: IV }, new Uint8Array(0));
+		expect(empty.status).toBe(400);
+
+		const invalid = await submitBinary({ ttl: 10, iv: 'short' }, CIPHERTEXT);
+		expect(invalid.status).toBe(422);
+		expect(await invalid.json()).toMatchObject({ errors: [{ field: 'ttl' }, { field: 'iv' }] });
+
+		// 256 bytes are 342 base64url characters, so the limit is the same in both forms
+		const tooLarge = await submitBinary({ ttl: 3600, iv: IV }, CIPHERTEXT, { MAX_CIPHERTEXT_SIZE: '341' });
+		expect(tooLarge.status).toBe(413);
+		expect((await submitBinary({ ttl: 3600, iv: IV }, CIPHERTEXT, { MAX_CIPHERTEXT_SIZE: '342' })).status).toBe(200);
+	});
+});
@@ -0,0 +1,109 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { callWorker, postJson, type ApiResponse } from './helpers';
+import { getNote, parseShareUrl, sendNote } from '../../cli/client';
+import { base64urlDecode, decryptNoteStream, encryptText, generateKey, wrapNoteKey } from '../../src/utils/crypto';
+
+// Route the client's requests straight to the worker, as `wrangler dev` would
+const client = {
+	apiUrl: 'http://example.com/api',
+	fetch: (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => callWorker(input.toString(), init)
+};
+
+describe('Command-line client', () => {
+	it('sends a note and reads it back from the share link', async () => {
+		const note = await sendNote('deploy key: hunter2\n', { ...client, siteUrl: 'https://txtoo.example', ttl: 3600 });
+		expect(note.shareUrl).toMatch(/^https:\/\/txtoo\.example\/n\/[A-Za-z0-9_-]+#.+$/);
+		expect(note.manageUrl).toContain(`/manage/${note.id}#`);
+
+		const received = await getNote(note.shareUrl, client);
+		expect(received.text).toBe('deploy key: hunter2\n');
+		expect(received.metadata).toEqual({ contentType: 'plain' });
+	});
+
+	it('compresses the text inside the encrypted payload', async () => {
+		const log = 'GET /api/v1/fetch/abc123 200\n'.repeat(500);
+		const options = { ...client, siteUrl: 'https://txtoo.example', ttl: 3600 };
+		const plain = await sendNote(log, options);
+		const compressed = await sendNote(log, { ...options, metadata: { contentType: 'plain', compression: 'deflate-raw' } });
+
+		const storedLength = async (id: string) =>
+			(await env.DB.prepare('SELECT length(cipher_text) AS length FROM texts WHERE id = ?').bind(id).first<{ length: number }>())?.length ?? 0;
+		expect(await storedLength(compressed.id)).toBeLessThan(await storedLength(plain.id) / 10);
+
+		const received = await getNote(compressed.shareUrl, client);
+		expect(received.text).toBe(log);
+		expect(received.metadata).toEqual({ contentType: 'plain', compression: 'deflate-raw' });
+	});
+
+	it('sends notes larger than a segment and a stored chunk', async () => {
+		const text = 'lorem ipsum dolor sit amet\n'.repeat(24000);
+		const note = await sendNote(text, { ...client, siteUrl: 'https://txtoo.example', ttl: 3600 });
+
+		const row = await env.DB.prepare('SELECT chunk_count FROM texts WHERE id = ?').bind(note.id).first<{ chunk_count: number }>();
+		expect(row?.chunk_count).toBeGreaterThan(1);
+
+		const received = await getNote(note.shareUrl, client);
+		// Not toBe, whose diff of a mismatch this long would swamp the output
+		expect(received.text === text).toBe(true);
+	});
+
+	it('rejects segmented notes that were cut short', async () => {
+		const key = generateKey();
+		const { cipherText, iv } = await encryptText('a'.repeat(200000), key, 'raw', { contentType: 'plain' });
+		const envelope = base64urlDecode(cipherText);
+		expect(envelope[0]).toBe(3);
+		expect((await decryptNoteStream(envelope, iv, key)).text).toHaveLength(200000);
+
+		// A raw key's header is 15 bytes, and each full segment 64 KiB plus its tag
+		const twoSegments = envelope.subarray(0, 15 + 2 * (65536 + 16));
+		await expect(decryptNoteStream(twoSegments, iv, key)).rejects.toThrow();
+		await expect(decryptNoteStream(envelope.subarray(0, envelope.length - 1), iv, key)).rejects.toThrow();
+	});
+
+	it('keeps password-protected keys out of the link', async () => {
+		const note = await sendNote('secret', { ...client, siteUrl: 'https://txtoo.example', ttl: 3600, password: 'correct horse' });
+		expect(note.shareUrl).toBe(`https://txtoo.example/n/${note.id}`);
+
+		await expect(getNote(note.shareUrl, client)).rejects.toThrow('password protected');
+		const received = await getNote(note.shareUrl, { ...client, password: 'correct horse' });
+		expect(received.text).toBe('secret');
+	});
+
+	it('reports burned notes and server errors', async () => {
+		const note = await sendNote('once', { ...client, siteUrl: 'https://txtoo.example', ttl: 3600, burnAfterReading: true });
+
+		const received = await getNote(note.shareUrl, client);
+		expect(received.burned).toBe(true);
+		await expect(getNote(note.shareUrl, client)).rejects.toThrow('Text not found');
+		await expect(sendNote('x', { ...client, siteUrl: 'https://txtoo.example', ttl: 10 })).rejects.toThrow('ttl');
+	});
+
+	it('reads a note from a recipient\'s link', async () => {
+		const noteKey = generateKey();
+		const encrypted = await encryptText('handoff notes', noteKey, 'raw', { contentType: 'plain' });
+		const alice = await wrapNoteKey(noteKey);
+		const bob = await wrapNoteKey(noteKey);
+		expect(alice.recipientKey).not.toBe(bob.recipientKey);
+
+		const response = await postJson('http://example.com/api/v1/submit', {
+			ttl: 3600,
+			...encrypted,
+			recipients: [alice.wrappedKey, bob.wrappedKey]
+		});
+		const { recipients } = ((await response.json()) as ApiResponse).data as { recipients: string[] };
+
+		const received = await getNote(`https://txtoo.example/to/${recipients[1]}#${bob.recipientKey}`, client);
+		expect(received.text).toBe('handoff notes');
+		// Another recipient's key doesn't unwrap this recipient's copy
+		await expect(getNote(`https://txtoo.example/to/${recipients[1]}#${alice.recipientKey}`, client)).rejects.toThrow();
+	});
+
+	it('parses current and legacy share links', () => {
+		expect(parseShareUrl('https://txtoo.example/n/abc123#k%2Bey')).toEqual({ id: 'abc123', key: 'k+ey' });
+		expect(parseShareUrl('https://txtoo.example/n/abc123')).toEqual({ id: 'abc123', key: null });
+		expect(parseShareUrl('https://txtoo.example/abc123~key')).toEqual({ id: 'abc123', key: 'key' });
+		expect(parseShareUrl('https://txtoo.example/to/rcpt123#key')).toEqual({ id: 'rcpt123', key: 'key', recipient: true });
+		expect(parseShareUrl('not a url')).toBeNull();
+	});
+});
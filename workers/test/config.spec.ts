@@ -0,0 +1,150 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_ID_LENGTH, DEFAULT_MAX_TTL, getConfig } from '../src/config';
+import { callWorker, type ApiResponse } from './helpers';
+
+const NOTE = { ttl: 3600, cipherText: 'configNote', iv: 'configNoteIV0000' };
+
+function submitWith(vars: Parameters<typeof callWorker>[2], body: Record<string, unknown> = NOTE): Promise<Response> {
+	return callWorker('http://example.com/api/v1/submit', {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify(body)
+	}, vars);
+}
+
+describe('Configuration', () => {
+	describe('getConfig', () => {
+		it('falls back to the defaults for unset or invalid values', () => {
+			const config = getConfig({ ...env, ALLOWED_ORIGINS: ' , ', MAX_TTL: '60', ID_LENGTH: '4', SITE_NAME: ' ' });
+
+			expect(config.allowedOrigins).toEqual(['*']);
+			// Below the shortest TTL, so ignored
+			expect(config.maxTtl).toBe(DEFAULT_MAX_TTL);
+			expect(config.idLength).toBe(DEFAULT_ID_LENGTH);
+			expect(config.siteName).toBe('TXToo');
+		});
+
+		it('splits the allowed origins list', () => {
+			expect(getConfig({ ...env, ALLOWED_ORIGINS: 'txtoo.com, https://app.example.org' }).allowedOrigins)
+				.toEqual(['txtoo.com', 'https://app.example.org']);
+		});
+	});
+
+	describe('Allowed origins', () => {
+		const vars = { ALLOWED_ORIGINS: 'txtoo.com,https://app.example.org' };
+
+		it('echoes allowed hostnames, their subdomains and exact origins', async () => {
+			for (const origin of ['https://txtoo.com', 'https://beta.txtoo.com', 'https://app.example.org']) {
+				const response = await callWorker('http://example.com/api/v1', { headers: { Origin: origin } }, vars);
+				expect(response.status).toBe(200);
+				expect(response.headers.get('Access-Control-Allow-Origin')).toBe(origin);
+				expect(response.headers.get('Vary')).toBe('Origin');
+			}
+		});
+
+		it('rejects other origins instead of answering with the first allowed one', async () => {
+			for (const origin of ['https://evil.example', 'https://nottxtoo.com', 'http://app.example.org', 'null']) {
+				const response = await callWorker('http://example.com/api/v1', { headers: { Origin: origin } }, vars);
+				expect(response.status).toBe(403);
+				expect(response.headers.get('Access-Control-Allow-Origin')).toBeNull();
+				expect(await response.json()).toMatchObject({ code: 'forbidden', message: 'Origin not allowed' });
+			}
+		});
+
+		it('rejects preflights from other origins', async () => {
+			const init = { method: 'OPTIONS', headers: { Origin: 'https://evil.example', 'Access-Control-Request-Method': 'POST' } };
+			const rejected = await callWorker('http://example.com/api/v1/submit', init, vars);
+			expect(rejected.status).toBe(403);
+			expect(rejected.headers.get('Access-Control-Allow-Methods')).toBeNull();
+
+			const allowed = await callWorker('http://example.com/api/v1/submit', {
+				...init,
+				headers: { ...init.headers, Origin: 'https://txtoo.com' }
+			}, vars);
+			expect(allowed.status).toBe(204);
+			expect(allowed.headers.get('Access-Control-Allow-Origin')).toBe('https://txtoo.com');
+		});
+
+		it('allows the worker\'s own origin and requests without an Origin header', async () => {
+			const sameOrigin = await callWorker('http://example.com/api/v1', { headers: { Origin: 'http://example.com' } }, vars);
+			expect(sameOrigin.status).toBe(200);
+
+			const noOrigin = await callWorker('http://example.com/api/v1', {}, vars);
+			expect(noOrigin.status).toBe(200);
+			expect(noOrigin.headers.get('Access-Control-Allow-Origin')).toBeNull();
+		});
+
+		it('allows any origin with a wildcard', async () => {
+			const response = await callWorker('http://example.com/api/v1', { headers: { Origin: 'https://anywhere.example' } });
+			expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+		});
+	});
+
+	describe('Limits', () => {
+		it('applies MAX_TTL to notes, TTL changes and the OpenAPI document', async () => {
+			const vars = { MAX_TTL: '7200' };
+
+			const rejected = await submitWith(vars, { ...NOTE, ttl: 7201 });
+			expect(rejected.status).toBe(422);
+			expect(await rejected.json()).toMatchObject({
+				errors: [{ field: 'ttl', message: 'must be an integer between 180 and 7200 seconds' }]
+			});
+			const accepted = await submitWith(vars, { ...NOTE, ttl: 7200 });
+			expect(accepted.status).toBe(200);
+			const { id, manageToken } = ((await accepted.json()) as ApiResponse).data;
+
+			const patched = await callWorker(`http://example.com/api/v1/notes/${id}`, {
+				method: 'PATCH',
+				headers: { Authorization: `Bearer ${manageToken}`, 'Content-Type': 'application/json' },
+				body: JSON.stringify({ ttl: 7201 })
+			}, vars);
+			expect(patched.status).toBe(422);
+
+			const spec = (await (await callWorker('http://example.com/api/v1/openapi.json', {}, vars)).json()) as {
+				components: { schemas: Record<string, { maximum?: number }> };
+			};
+			expect(spec.components.schemas.Ttl.maximum).toBe(7200);
+		});
+
+		it('applies MAX_CIPHERTEXT_SIZE', async () => {
+			const response = await submitWith({ MAX_CIPHERTEXT_SIZE: '8' });
+			expect(response.status).toBe(413);
+			expect(await response.json()).toMatchObject({ errors: [{ field: 'cipherText', message: 'must be at most 8 characters' }] });
+		});
+
+		it('generates IDs of ID_LENGTH characters', async () => {
+			const response = await submitWith({ ID_LENGTH: '20' });
+			const data = (await response.json()) as ApiResponse;
+			expect(data.data.id).toHaveLength(20);
+
+			const fetched = await callWorker(`http://example.com/api/v1/fetch/${data.data.id}`);
+			expect(fetched.status).toBe(200);
+		});
+	});
+
+	it('names the deployment after SITE_NAME', async () => {
+		const vars = { SITE_NAME: 'Acme Secrets' };
+
+		const info = await callWorker('http://example.com/api/v1', {}, vars);
+		expect(await info.json()).toMatchObject({ name: 'Acme Secrets' });
+
+		const spec = await callWorker('http://example.com/api/v1/openapi.json', {}, vars);
+		expect(await spec.json()).toMatchObject({ info: { title: 'Acme Secrets API' } });
+	});
+
+	it('sends security headers with every response', async () => {
+		const responses = [
+			await callWorker('http://example.com/api/v1'),
+			await callWorker('http://example.com/api/v1/fetch/missingNote'),
+			await callWorker('http://example.com/api/v1/submit', { method: 'OPTIONS' }),
+			await callWorker('http://example.com/api/v1', { headers: { Origin: 'https://evil.example' } }, { ALLOWED_ORIGINS: 'txtoo.com' })
+		];
+
+		for (const response of responses) {
+			expect(response.headers.get('Content-Security-Policy')).toBe("default-src 'none'; frame-ancestors 'none'");
+			expect(response.headers.get('Referrer-Policy')).toBe('no-referrer');
+			expect(response.headers.get('X-Content-Type-Options')).toBe('nosniff');
+		}
+	});
+});
@@ -1,5 +1,7 @@
 declare module 'cloudflare:test' {
 	interface ProvidedEnv extends Env {
 		DB: D1Database;
+		BLOBS: R2Bucket;
+		TEST_MIGRATIONS: D1Migration[];
 	}
 }
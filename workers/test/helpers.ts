@@ -0,0 +1,54 @@
+import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { expect } from 'vitest';
+import type { ApiSuccess, SubmitResponse } from '../../shared/api';
+import type { Env } from '../src/env';
+import worker from '../src/index';
+
+// For now, you'll need to do something like this to get a correctly-typed
+// `Request` to pass to `worker.fetch()`.
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+
+export interface ApiResponse {
+	type: string;
+	status: number;
+	message?: string;
+	data: Record<string, unknown>;
+}
+
+// Send a request straight to the worker and wait for any background work.
+// `vars` overrides the worker's Env, to test other configurations. Test
+// requests have no `cf` properties, so any RequestInit, such as the one the
+// CLI client passes to fetch, can be given.
+export async function callWorker(
+	input: string,
+	init?: Omit<RequestInit, 'cf'>,
+	vars: Partial<Env> = {}
+): Promise<Response> {
+	const request = new IncomingRequest(input, init);
+	const ctx = createExecutionContext();
+	const response = await worker.fetch(request, { ...env, ...vars }, ctx);
+	await waitOnExecutionContext(ctx);
+	return response;
+}
+
+// POST a JSON body to the worker
+export function postJson(input: string, body: unknown): Promise<Response> {
+	return callWorker(input, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify(body)
+	});
+}
+
+// Store a note through /api/submit and return the response's data. Fields
+// left out of `body` are those of a one-hour note.
+export async function submitNote(body: Record<string, unknown> = {}): Promise<SubmitResponse> {
+	const response = await postJson('http://example.com/api/submit', {
+		ttl: 3600,
+		cipherText: 'testNote',
+		iv: 'testNoteIV000000',
+		...body
+	});
+	expect(response.status).toBe(200);
+	return ((await response.json()) as ApiSuccess<SubmitResponse>).data;
+}
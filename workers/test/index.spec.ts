@@ -1,65 +1,128 @@
-import { env, createExecutionContext, waitOnExecutionContext, SELF } from 'cloudflare:test';
-import { describe, it, expect, beforeAll } from 'vitest';
+import { env, createExecutionContext, createScheduledController, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_MAX_CIPHERTEXT_SIZE, DEFAULT_MAX_TTL } from '../src/config';
 import worker from '../src/index';
-
-// For now, you'll need to do something like this to get a correctly-typed
-// `Request` to pass to `worker.fetch()`.
-const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+import { callWorker, postJson, submitNote, type ApiResponse } from './helpers';
 
 describe('Encrypted Text Storage API', () => {
-	let testId: string;
-
 	describe('GET /', () => {
-		it('returns API info', async () => {
-			const response = await SELF.fetch('https://example.com/');
+		it('returns API info when the frontend is not bound', async () => {
+			const response = await callWorker('https://example.com/', {}, { ASSETS: undefined });
 			expect(response.status).toBe(200);
 			const data = await response.json();
 			expect(data).toMatchObject({
 				type: 'info',
 				status: 200,
 				message: 'Encrypted Text Storage API',
+				version: '/api/v1',
+				openapi: 'https://example.com/api/v1/openapi.json',
 				endpoints: {
-					submit: 'POST /submit?ttl=X&cipherText=Y&iv=Z',
-					fetch: 'GET /fetch/{id}'
+					'POST /api/v1/submit': expect.any(String),
+					'GET /api/v1/fetch/{id}': expect.any(String)
 				}
 			});
 		});
 	});
 
-	describe('POST /submit', () => {
+	describe('/api/v1', () => {
+		it('serves the same endpoints under the versioned prefix', async () => {
+			const response = await postJson('http://example.com/api/v1/submit', {
+				ttl: 3600,
+				cipherText: 'versionedNote',
+				iv: 'versionedIV00000'
+			});
+			expect(response.status).toBe(200);
+			const { data } = (await response.json()) as ApiResponse;
+
+			const fetchResponse = await callWorker(`http://example.com/api/v1/fetch/${data.id}`);
+			expect(fetchResponse.status).toBe(200);
+			expect(await fetchResponse.json()).toMatchObject({ data: { cipher_text: 'versionedNote' } });
+		});
+
+		it('serves an OpenAPI document covering every documented route', async () => {
+			const response = await callWorker('http://example.com/api/v1/openapi.json');
+			expect(response.status).toBe(200);
+			const spec = (await response.json()) as {
+				openapi: string;
+				servers: { url: string }[];
+				paths: Record<string, Record<string, unknown>>;
+				components: { schemas: Record<string, unknown> };
+			};
+
+			expect(spec.openapi).toBe('3.1.0');
+			expect(spec.servers).toEqual([{ url: 'http://example.com/api/v1' }]);
+			expect(Object.keys(spec.paths).sort()).toEqual([
+				'/attachments',
+				'/attachments/{id}/chunks/{index}',
+				'/fetch/{id}',
+				'/meta/{id}',
+				'/notes/{id}',
+				'/notes/{id}/recipients',
+				'/notes/{id}/recipients/{recipientId}',
+				'/receipts/{id}',
+				'/recipients/{id}',
+				'/recipients/{id}/fetch',
+				'/requests',
+				'/requests/{id}',
+				'/requests/{id}/reply',
+				'/status',
+				'/submit'
+			]);
+			expect(Object.keys(spec.paths['/notes/{id}']).sort()).toEqual(['delete', 'patch']);
+
+			// Every referenced schema exists
+			const refs = JSON.stringify(spec).match(/#\/components\/schemas\/\w+/g) ?? [];
+			for (const ref of new Set(refs)) {
+				expect(spec.components.schemas).toHaveProperty(ref.split('/').pop() as string);
+			}
+		});
+
+		it('returns a code with every error', async () => {
+			const notFound = await callWorker('http://example.com/api/v1/fetch/nonexistent');
+			expect(await notFound.json()).toMatchObject({ status: 404, code: 'not_found' });
+
+			const invalid = await postJson('http://example.com/api/v1/submit', { ttl: 1, cipherText: 'abc', iv: 'short' });
+			expect(await invalid.json()).toMatchObject({ status: 422, code: 'validation_failed' });
+		});
+
+		it('returns 404 for unknown endpoints and 405 for unsupported methods', async () => {
+			const unknown = await callWorker('http://example.com/api/v1/nope');
+			expect(unknown.status).toBe(404);
+			expect(await unknown.json()).toMatchObject({ type: 'error', code: 'not_found' });
+
+			const wrongMethod = await callWorker('http://example.com/api/v1/submit');
+			expect(wrongMethod.status).toBe(405);
+			expect(await wrongMethod.json()).toMatchObject({ type: 'error', code: 'method_not_allowed' });
+		});
+	});
+
+	describe('POST /api/submit', () => {
 		it('stores encrypted data and returns success response', async () => {
-			const request = new IncomingRequest(
-				'http://example.com/submit?ttl=3600&cipherText=testCipher123&iv=testIV456',
-				{ method: 'POST' }
-			);
-			const ctx = createExecutionContext();
-			const response = await worker.fetch(request, env, ctx);
-			await waitOnExecutionContext(ctx);
+			const response = await callWorker('http://example.com/api/submit', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ ttl: 3600, cipherText: 'testCipher123', iv: 'testIV4560000000' })
+			});
 
 			expect(response.status).toBe(200);
-			const data = (await response.json()) as any;
+			const data = await response.json();
 			expect(data).toMatchObject({
 				type: 'success',
 				status: 200,
 				data: {
 					id: expect.any(String),
-					url: expect.stringContaining('http://example.com/'),
-					expiresAt: expect.any(Number)
+					expiresAt: expect.any(Number),
+					manageToken: expect.any(String)
 				}
 			});
-
-			// Save ID for fetch test
-			testId = data.data.id;
 		});
 
 		it('returns error when missing parameters', async () => {
-			const request = new IncomingRequest(
-				'http://example.com/submit?ttl=3600',
-				{ method: 'POST' }
-			);
-			const ctx = createExecutionContext();
-			const response = await worker.fetch(request, env, ctx);
-			await waitOnExecutionContext(ctx);
+			const response = await callWorker('http://example.com/api/submit', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ ttl: 3600 })
+			});
 
 			expect(response.status).toBe(400);
 			const data = await response.json();
@@ -69,26 +132,52 @@ describe('Encrypted Text Storage API', () => {
 				message: 'Missing required parameters: ttl, cipherText, iv'
 			});
 		});
+
+		it('rejects a body that is not valid JSON', async () => {
+			const response = await callWorker('http://example.com/api/submit', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: '{"ttl": 3600,'
+			});
+
+			expect(response.status).toBe(400);
+			expect(await response.json()).toMatchObject({ type: 'error', status: 400, message: 'Invalid JSON body' });
+		});
+
+		it('rejects a cipherText over the size limit', async () => {
+			const response = await postJson('http://example.com/api/submit', {
+				ttl: 3600,
+				cipherText: 'A'.repeat(DEFAULT_MAX_CIPHERTEXT_SIZE + 1),
+				iv: 'tooLargeIV000000'
+			});
+
+			expect(response.status).toBe(413);
+			expect(await response.json()).toMatchObject({
+				type: 'error',
+				status: 413,
+				errors: [{ field: 'cipherText' }]
+			});
+		});
+
+		it('rejects fields with an invalid format or range', async () => {
+			const response = await postJson('http://example.com/api/submit', {
+				ttl: DEFAULT_MAX_TTL + 1,
+				cipherText: 'not base64url!',
+				iv: 'short'
+			});
+
+			expect(response.status).toBe(422);
+			const data = (await response.json()) as ApiResponse & { errors: { field: string }[] };
+			expect(data).toMatchObject({ type: 'error', status: 422 });
+			expect(data.errors.map(error => error.field)).toEqual(['ttl', 'cipherText', 'iv']);
+		});
 	});
 
-	describe('GET /fetch/{id}', () => {
+	describe('GET /api/fetch/{id}', () => {
 		it('retrieves encrypted data by ID', async () => {
-			// First, store some data
-			const submitRequest = new IncomingRequest(
-				'http://example.com/submit?ttl=3600&cipherText=fetchTest123&iv=fetchIV456',
-				{ method: 'POST' }
-			);
-			const submitCtx = createExecutionContext();
-			const submitResponse = await worker.fetch(submitRequest, env, submitCtx);
-			await waitOnExecutionContext(submitCtx);
-			const submitData = (await submitResponse.json()) as any;
-			const id = submitData.data.id;
-
-			// Now fetch it
-			const fetchRequest = new IncomingRequest(`http://example.com/fetch/${id}`);
-			const fetchCtx = createExecutionContext();
-			const fetchResponse = await worker.fetch(fetchRequest, env, fetchCtx);
-			await waitOnExecutionContext(fetchCtx);
+			const { id } = await submitNote({ ttl: 3600, cipherText: 'fetchTest123', iv: 'fetchIV456000000' });
+
+			const fetchResponse = await callWorker(`http://example.com/api/fetch/${id}`);
 
 			expect(fetchResponse.status).toBe(200);
 			const fetchData = await fetchResponse.json();
@@ -98,17 +187,16 @@ describe('Encrypted Text Storage API', () => {
 				data: {
 					id: id,
 					cipher_text: 'fetchTest123',
-					iv: 'fetchIV456',
-					expiresAt: expect.any(Number)
+					iv: 'fetchIV456000000',
+					expiresAt: expect.any(Number),
+					requiresPassword: false,
+					burned: false
 				}
 			});
 		});
 
 		it('returns 404 for non-existent ID', async () => {
-			const request = new IncomingRequest('http://example.com/fetch/nonexistent');
-			const ctx = createExecutionContext();
-			const response = await worker.fetch(request, env, ctx);
-			await waitOnExecutionContext(ctx);
+			const response = await callWorker('http://example.com/api/fetch/nonexistent');
 
 			expect(response.status).toBe(404);
 			const data = await response.json();
@@ -120,25 +208,15 @@ describe('Encrypted Text Storage API', () => {
 		});
 
 		it('returns 410 for expired data', async () => {
-			// Store data with 1 second TTL
-			const submitRequest = new IncomingRequest(
-				'http://example.com/submit?ttl=1&cipherText=expireTest&iv=expireIV',
-				{ method: 'POST' }
-			);
-			const submitCtx = createExecutionContext();
-			const submitResponse = await worker.fetch(submitRequest, env, submitCtx);
-			await waitOnExecutionContext(submitCtx);
-			const submitData = (await submitResponse.json()) as any;
-			const id = submitData.data.id;
+			const { id } = await submitNote({ ttl: 3600, cipherText: 'expireTest', iv: 'expireIV00000000' });
 
-			// Wait for expiration
-			await new Promise(resolve => setTimeout(resolve, 1500));
+			// Move the expiry into the past instead of waiting for it
+			await env.DB.prepare('UPDATE texts SET expires_at = ? WHERE id = ?')
+				.bind(Math.floor(Date.now() / 1000) - 60, id)
+				.run();
 
 			// Try to fetch expired data
-			const fetchRequest = new IncomingRequest(`http://example.com/fetch/${id}`);
-			const fetchCtx = createExecutionContext();
-			const fetchResponse = await worker.fetch(fetchRequest, env, fetchCtx);
-			await waitOnExecutionContext(fetchCtx);
+			const fetchResponse = await callWorker(`http://example.com/api/fetch/${id}`);
 
 			expect(fetchResponse.status).toBe(410);
 			const fetchData = await fetchResponse.json();
@@ -150,17 +228,247 @@ describe('Encrypted Text Storage API', () => {
 		});
 	});
 
+	describe('Burn after reading', () => {
+		it('returns the note once and then deletes it', async () => {
+			const { id } = await submitNote({ ttl: 3600, cipherText: 'burnTest', iv: 'burnIV0000000000', burnAfterReading: true });
+
+			const first = await callWorker(`http://example.com/api/fetch/${id}`);
+			expect(first.status).toBe(200);
+			expect(await first.json()).toMatchObject({
+				data: { cipher_text: 'burnTest', burned: true }
+			});
+
+			const second = await callWorker(`http://example.com/api/fetch/${id}`);
+			expect(second.status).toBe(404);
+
+			const row = await env.DB.prepare('SELECT id FROM texts WHERE id = ?').bind(id).first();
+			expect(row).toBeNull();
+		});
+
+		it('lets only one of several concurrent fetches succeed', async () => {
+			const { id } = await submitNote({ ttl: 3600, cipherText: 'raceTest', iv: 'raceIV0000000000', burnAfterReading: true });
+
+			const responses = await Promise.all(
+				Array.from({ length: 5 }, () => callWorker(`http://example.com/api/fetch/${id}`))
+			);
+			const statuses = responses.map(response => response.status);
+
+			expect(statuses.filter(status => status === 200)).toHaveLength(1);
+			expect(statuses.filter(status => status === 404)).toHaveLength(4);
+		});
+	});
+
+	describe('View limits', () => {
+		it('allows exactly maxViews fetches', async () => {
+			const { id } = await submitNote({ ttl: 3600, cipherText: 'limitTest', iv: 'limitIV000000000', maxViews: 3 });
+
+			for (const remainingViews of [2, 1, 0]) {
+				const response = await callWorker(`http://example.com/api/fetch/${id}`);
+				expect(response.status).toBe(200);
+				expect(await response.json()).toMatchObject({
+					data: { remainingViews, burned: remainingViews === 0 }
+				});
+			}
+
+			const response = await callWorker(`http://example.com/api/fetch/${id}`);
+			expect(response.status).toBe(404);
+		});
+
+		it('rejects a maxViews that is not a positive integer', async () => {
+			const response = await callWorker('http://example.com/api/submit', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ ttl: 3600, cipherText: 'badLimit', iv: 'badLimitIV000000', maxViews: 0 })
+			});
+
+			expect(response.status).toBe(422);
+			expect(await response.json()).toMatchObject({
+				type: 'error',
+				status: 422,
+				message: 'maxViews must be a positive integer',
+				errors: [{ field: 'maxViews', message: 'must be a positive integer' }]
+			});
+		});
+	});
+
+	describe('GET /api/meta/{id}', () => {
+		it('returns metadata without ciphertext and without counting a view', async () => {
+			const { id } = await submitNote({ ttl: 3600, cipherText: 'metaTest', iv: 'metaIV0000000000', burnAfterReading: true });
+
+			for (let i = 0; i < 2; i++) {
+				const response = await callWorker(`http://example.com/api/meta/${id}`);
+				expect(response.status).toBe(200);
+				const data = (await response.json()) as ApiResponse;
+				expect(data.data).toEqual({
+					id,
+					expiresAt: expect.any(Number),
+					maxViews: 1,
+					remainingViews: 1,
+					requiresPassword: false,
+					attachments: []
+				});
+			}
+
+			const fetchResponse = await callWorker(`http://example.com/api/fetch/${id}`);
+			expect(fetchResponse.status).toBe(200);
+		});
+
+		it('reports whether the note needs a password', async () => {
+			const { id } = await submitNote({ ttl: 3600, cipherText: 'passwordTest', iv: 'passwordIV000000', requiresPassword: true });
+
+			const response = await callWorker(`http://example.com/api/meta/${id}`);
+			expect(await response.json()).toMatchObject({
+				data: { id, requiresPassword: true }
+			});
+		});
+
+		it('returns 404 for non-existent ID', async () => {
+			const response = await callWorker('http://example.com/api/meta/nonexistent');
+			expect(response.status).toBe(404);
+		});
+	});
+
+	describe('POST /api/status', () => {
+		it('reports active, expired and missing notes without ciphertext', async () => {
+			const { id: activeId } = await submitNote({ ttl: 3600, cipherText: 'statusActive', iv: 'statusActiveIV00', maxViews: 2 });
+			const { id: expiredId } = await submitNote({ ttl: 3600, cipherText: 'statusExpired', iv: 'statusExpiredIV0' });
+			await env.DB.prepare('UPDATE texts SET expires_at = ? WHERE id = ?')
+				.bind(Math.floor(Date.now() / 1000) - 60, expiredId)
+				.run();
+
+			const response = await postJson('http://example.com/api/status', { ids: [activeId, expiredId, 'missingNote'] });
+			expect(response.status).toBe(200);
+
+			const { data } = (await response.json()) as ApiResponse;
+			expect(data.notes).toEqual([
+				{ id: activeId, status: 'active', expiresAt: expect.any(Number), remainingViews: 2 },
+				{ id: expiredId, status: 'expired', expiresAt: expect.any(Number), remainingViews: null },
+				{ id: 'missingNote', status: 'not_found', expiresAt: null, remainingViews: null }
+			]);
+			expect(JSON.stringify(data)).not.toContain('statusActive');
+
+			// Looking up a note does not count as a view
+			const row = await env.DB.prepare('SELECT view_count FROM texts WHERE id = ?').bind(activeId).first();
+			expect(row?.view_count).toBe(0);
+		});
+
+		it('rejects a list that is too long', async () => {
+			const ids = Array.from({ length: 51 }, (_, index) => `note${index}`);
+			const response = await postJson('http://example.com/api/status', { ids });
+			expect(response.status).toBe(422);
+		});
+
+		it('counts each ID against the fetch limit', async () => {
+			const lookUp = (ids: string[]) => callWorker('http://example.com/api/status', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ ids })
+			}, { RATE_LIMIT_FETCH: '3' });
+
+			expect((await lookUp(['statusNoteA', 'statusNoteB', 'statusNoteC'])).status).toBe(200);
+			// The batch used up the whole limit, so even one more ID is refused
+			const refused = await lookUp(['statusNoteD']);
+			expect(refused.status).toBe(429);
+			expect(refused.headers.get('Retry-After')).not.toBeNull();
+		});
+	});
+
+	describe('Scheduled purge', () => {
+		// Run the cron handler as if triggered now and wait for it to finish
+		async function runScheduled(): Promise<void> {
+			const controller = createScheduledController({ scheduledTime: Date.now(), cron: '0 * * * *' });
+			const ctx = createExecutionContext();
+			await worker.scheduled(controller, env, ctx);
+			await waitOnExecutionContext(ctx);
+		}
+
+		it('deletes expired notes and keeps live ones', async () => {
+			const { id: expiredId } = await submitNote({ ttl: 3600, cipherText: 'purgeExpired', iv: 'purgeExpiredIV00' });
+			const { id: liveId } = await submitNote({ ttl: 3600, cipherText: 'purgeLive', iv: 'purgeLiveIV00000' });
+			await env.DB.prepare('UPDATE texts SET expires_at = ? WHERE id = ?')
+				.bind(Math.floor(Date.now() / 1000) - 60, expiredId)
+				.run();
+
+			await runScheduled();
+
+			expect(await env.DB.prepare('SELECT id FROM texts WHERE id = ?').bind(expiredId).first()).toBeNull();
+			expect(await env.DB.prepare('SELECT id FROM texts WHERE id = ?').bind(liveId).first()).not.toBeNull();
+		});
+
+		it('deletes expired attachments and their chunks', async () => {
+			const now = Math.floor(Date.now() / 1000);
+			await env.DB.batch([
+				env.DB.prepare('INSERT INTO attachments (id, size, chunk_count, created_at, expires_at) VALUES (?, ?, ?, ?, ?)')
+					.bind('purgeOldFile', 32, 2, now - 7200, now - 3600),
+				env.DB.prepare('INSERT INTO attachments (id, size, chunk_count, created_at, expires_at) VALUES (?, ?, ?, ?, ?)')
+					.bind('purgeNewFile', 32, 1, now, now + 3600)
+			]);
+			await env.BLOBS.put('attachments/purgeOldFile/0', new Uint8Array(16));
+			await env.BLOBS.put('attachments/purgeOldFile/1', new Uint8Array(16));
+			await env.BLOBS.put('attachments/purgeNewFile/0', new Uint8Array(32));
+
+			await runScheduled();
+
+			expect(await env.DB.prepare('SELECT id FROM attachments WHERE id = ?').bind('purgeOldFile').first()).toBeNull();
+			expect((await env.BLOBS.list({ prefix: 'attachments/purgeOldFile/' })).objects).toHaveLength(0);
+			expect(await env.DB.prepare('SELECT id FROM attachments WHERE id = ?').bind('purgeNewFile').first()).not.toBeNull();
+			expect(await env.BLOBS.head('attachments/purgeNewFile/0')).not.toBeNull();
+		});
+	});
+
+	describe('Rate limiting', () => {
+		// Call the worker from a given client IP with lowered limits
+		async function callLimited(input: string, ip: string, init?: RequestInit<IncomingRequestCfProperties>): Promise<Response> {
+			const request = new Request<unknown, IncomingRequestCfProperties>(input, {
+				...init,
+				headers: { ...init?.headers, 'CF-Connecting-IP': ip }
+			});
+			const ctx = createExecutionContext();
+			const response = await worker.fetch(request, { ...env, RATE_LIMIT_SUBMIT: '2', RATE_LIMIT_FETCH: '2' }, ctx);
+			await waitOnExecutionContext(ctx);
+			return response;
+		}
+
+		function submitFrom(ip: string): Promise<Response> {
+			return callLimited('http://example.com/api/submit', ip, {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ ttl: 3600, cipherText: 'rateLimited', iv: 'rateLimitedIV000' })
+			});
+		}
+
+		it('returns 429 with Retry-After once an IP exceeds the submit limit', async () => {
+			expect((await submitFrom('203.0.113.1')).status).toBe(200);
+			expect((await submitFrom('203.0.113.1')).status).toBe(200);
+
+			const limited = await submitFrom('203.0.113.1');
+			expect(limited.status).toBe(429);
+			expect(await limited.json()).toMatchObject({ type: 'error', status: 429 });
+			const retryAfter = Number(limited.headers.get('Retry-After'));
+			expect(retryAfter).toBeGreaterThan(0);
+			expect(retryAfter).toBeLessThanOrEqual(60);
+
+			// Other clients are counted separately
+			expect((await submitFrom('203.0.113.2')).status).toBe(200);
+		});
+
+		it('limits fetches per IP', async () => {
+			const { id } = await submitNote({ ttl: 3600, cipherText: 'fetchLimited', iv: 'fetchLimitedIV00' });
+
+			expect((await callLimited(`http://example.com/api/meta/${id}`, '203.0.113.3')).status).toBe(200);
+			expect((await callLimited(`http://example.com/api/fetch/${id}`, '203.0.113.3')).status).toBe(200);
+			expect((await callLimited(`http://example.com/api/fetch/${id}`, '203.0.113.3')).status).toBe(429);
+		});
+	});
+
 	describe('CORS', () => {
 		it('handles OPTIONS preflight request', async () => {
-			const request = new IncomingRequest('http://example.com/submit', {
+			const response = await callWorker('http://example.com/api/submit', {
 				method: 'OPTIONS'
 			});
-			const ctx = createExecutionContext();
-			const response = await worker.fetch(request, env, ctx);
-			await waitOnExecutionContext(ctx);
 
 			expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
-			expect(response.headers.get('Access-Control-Allow-Methods')).toBe('GET, POST, OPTIONS');
+			expect(response.headers.get('Access-Control-Allow-Methods')).toBe('GET, POST, PUT, PATCH, DELETE, OPTIONS');
 		});
 	});
 });
@@ -0,0 +1,78 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { callWorker, postJson, submitNote, type ApiResponse } from './helpers';
+
+function manage(id: string, method: 'DELETE' | 'PATCH', token?: string, body?: unknown): Promise<Response> {
+	return callWorker(`http://example.com/api/notes/${id}`, {
+		method,
+		headers: {
+			'Content-Type': 'application/json',
+			...(token && { Authorization: `Bearer ${token}` })
+		},
+		body: body === undefined ? undefined : JSON.stringify(body)
+	});
+}
+
+describe('Note management', () => {
+	it('returns a manage token and stores only its hash', async () => {
+		const { id, manageToken } = await submitNote();
+		expect(manageToken).toMatch(/^[A-Za-z0-9_-]{43}$/);
+
+		const row = await env.DB.prepare('SELECT manage_token_hash FROM texts WHERE id = ?').bind(id).first();
+		expect(row?.manage_token_hash).toMatch(/^[0-9a-f]{64}$/);
+		expect(row?.manage_token_hash).not.toContain(manageToken);
+	});
+
+	it('revokes a note with its manage token', async () => {
+		const { id, manageToken } = await submitNote();
+
+		const response = await manage(id, 'DELETE', manageToken);
+		expect(response.status).toBe(200);
+		expect(await response.json()).toMatchObject({ type: 'success', data: { id, deleted: true } });
+
+		const fetchResponse = await callWorker(`http://example.com/api/fetch/${id}`);
+		expect(fetchResponse.status).toBe(404);
+	});
+
+	it('deletes the attachments of a revoked note', async () => {
+		const upload = await postJson('http://example.com/api/attachments', { size: 16 });
+		const { id: attachmentId } = ((await upload.json()) as ApiResponse).data as { id: string };
+		await callWorker(`http://example.com/api/attachments/${attachmentId}/chunks/0`, {
+			method: 'PUT',
+			body: new Uint8Array(16)
+		});
+		const { id, manageToken } = await submitNote({ attachments: [attachmentId] });
+
+		expect((await manage(id, 'DELETE', manageToken)).status).toBe(200);
+		expect(await env.DB.prepare('SELECT id FROM attachments WHERE id = ?').bind(attachmentId).first()).toBeNull();
+		expect(await env.BLOBS.get(`attachments/${attachmentId}/0`)).toBeNull();
+	});
+
+	it('rejects requests without a token or with the wrong one', async () => {
+		const { id } = await submitNote();
+		const other = await submitNote();
+
+		expect((await manage(id, 'DELETE')).status).toBe(401);
+		expect((await manage(id, 'DELETE', other.manageToken)).status).toBe(403);
+		expect((await callWorker(`http://example.com/api/fetch/${id}`)).status).toBe(200);
+	});
+
+	it('changes the TTL of a note and its attachments', async () => {
+		const { id, manageToken } = await submitNote();
+
+		const response = await manage(id, 'PATCH', manageToken, { ttl: 600 });
+		expect(response.status).toBe(200);
+		const { data } = (await response.json()) as ApiResponse;
+		expect(data.expiresAt).toBeLessThanOrEqual(Math.floor(Date.now() / 1000) + 600);
+
+		const row = await env.DB.prepare('SELECT expires_at FROM texts WHERE id = ?').bind(id).first();
+		expect(row?.expires_at).toBe(data.expiresAt);
+	});
+
+	it('rejects a TTL outside the allowed range', async () => {
+		const { id, manageToken } = await submitNote();
+
+		const response = await manage(id, 'PATCH', manageToken, { ttl: 60 });
+		expect(response.status).toBe(422);
+	});
+});
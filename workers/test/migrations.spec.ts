@@ -0,0 +1,48 @@
+import { applyD1Migrations, env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { callWorker, type ApiResponse } from './helpers';
+
+// Empty the database back to before any migration ran
+async function dropAllTables(): Promise<void> {
+	const { results } = await env.DB.prepare(
+		"SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' AND name NOT LIKE '_cf_%'"
+	).all();
+	await env.DB.batch(results.map(row => env.DB.prepare(`DROP TABLE "${row.name as string}"`)));
+}
+
+describe('Migrations', () => {
+	it('upgrade a database created from the original schema.sql', async () => {
+		await dropAllTables();
+		await env.DB.exec(
+			'CREATE TABLE texts (id TEXT PRIMARY KEY, cipher_text TEXT NOT NULL, iv TEXT NOT NULL, created_at INTEGER NOT NULL, expires_at INTEGER NOT NULL)'
+		);
+		const now = Math.floor(Date.now() / 1000);
+		await env.DB.prepare('INSERT INTO texts (id, cipher_text, iv, created_at, expires_at) VALUES (?, ?, ?, ?, ?)')
+			.bind('oldNote12345', 'b2xkQ2lwaGVydGV4dA', 'oldNoteIV0000000', now, now + 3600)
+			.run();
+
+		await applyD1Migrations(env.DB, env.TEST_MIGRATIONS);
+
+		// The old note is still served, with the defaults of the columns added since
+		const fetched = await callWorker('http://example.com/api/v1/fetch/oldNote12345');
+		expect(fetched.status).toBe(200);
+		expect(((await fetched.json()) as ApiResponse).data).toMatchObject({
+			cipher_text: 'b2xkQ2lwaGVydGV4dA',
+			iv: 'oldNoteIV0000000',
+			remainingViews: null,
+			requiresPassword: false
+		});
+
+		// and the tables added since exist
+		const { results } = await env.DB.prepare("SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name").all();
+		expect(results.map(row => row.name)).toEqual(expect.arrayContaining([
+			'attachments',
+			'rate_limits',
+			'receipt_views',
+			'receipts',
+			'recipients',
+			'secret_requests',
+			'text_chunks'
+		]));
+	});
+});
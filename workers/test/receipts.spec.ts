@@ -0,0 +1,158 @@
+import { env } from 'cloudflare:test';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import type { WebhookPayload } from '../../shared/api';
+import { purgeExpired } from '../src/purge';
+import { RECEIPT_RETENTION } from '../src/receipts';
+import { callWorker, postJson, submitNote, type ApiResponse } from './helpers';
+
+function getReceipt(id: string, token: string): Promise<Response> {
+	return callWorker(`http://example.com/api/v1/receipts/${id}`, {
+		headers: { Authorization: `Bearer ${token}` }
+	});
+}
+
+// Stand in for the webhook receiver, recording what was sent to it
+function mockWebhook(): { calls: { url: string; payload: WebhookPayload }[] } {
+	const calls: { url: string; payload: WebhookPayload }[] = [];
+	vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+		calls.push({ url: String(input), payload: JSON.parse(init?.body as string) });
+		return new Response(null, { status: 204 });
+	});
+	return { calls };
+}
+
+describe('Read receipts', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('records the first access and each view, without who viewed', async () => {
+		const { id, receiptToken } = await submitNote({ maxViews: 2 });
+
+		const before = await getReceipt(id, receiptToken);
+		expect(before.status).toBe(200);
+		expect(await before.json()).toMatchObject({
+			data: { id, firstViewedAt: null, viewCount: 0, views: [], webhook: false }
+		});
+
+		// Metadata lookups are not views
+		await callWorker(`http://example.com/api/v1/meta/${id}`);
+		await callWorker(`http://example.com/api/v1/fetch/${id}`);
+		await callWorker(`http://example.com/api/v1/fetch/${id}`);
+
+		const after = ((await (await getReceipt(id, receiptToken)).json()) as ApiResponse).data;
+		expect(after.viewCount).toBe(2);
+		expect(after.firstViewedAt).toEqual(expect.any(Number));
+		expect(after.views).toEqual([
+			{ viewedAt: after.firstViewedAt, recipientId: null },
+			{ viewedAt: expect.any(Number), recipientId: null }
+		]);
+	});
+
+	it('still returns a burned note when its view can\'t be recorded', async () => {
+		const { id } = await submitNote({ burnAfterReading: true });
+		const batch = env.DB.batch.bind(env.DB);
+		vi.spyOn(env.DB, 'batch')
+			// Burning the note goes through, recording the view fails
+			.mockImplementationOnce(batch)
+			.mockRejectedValueOnce(new Error('D1 unavailable'));
+		const logged = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+		const fetched = await callWorker(`http://example.com/api/v1/fetch/${id}`);
+		expect(fetched.status).toBe(200);
+		expect(await fetched.json()).toMatchObject({ data: { cipher_text: 'testNote', burned: true } });
+		expect(logged).toHaveBeenCalledWith('Failed to record a view:', expect.any(Error));
+	});
+
+	it('keeps the receipt after the note is burned, and credits recipient views', async () => {
+		const { id, receiptToken, recipients } = await submitNote({ recipients: ['wrappedForAlice'], burnAfterReading: true });
+
+		const fetched = await callWorker(`http://example.com/api/v1/recipients/${recipients[0]}/fetch`);
+		expect(await fetched.json()).toMatchObject({ data: { burned: true } });
+		expect((await callWorker(`http://example.com/api/v1/meta/${id}`)).status).toBe(404);
+
+		const receipt = await getReceipt(id, receiptToken);
+		expect(await receipt.json()).toMatchObject({
+			data: { viewCount: 1, views: [{ recipientId: recipients[0] }] }
+		});
+	});
+
+	it('only shows the receipt to the holder of its token', async () => {
+		const { id, receiptToken } = await submitNote();
+		const other = await submitNote();
+
+		expect((await callWorker(`http://example.com/api/v1/receipts/${id}`)).status).toBe(401);
+		expect((await getReceipt(id, other.receiptToken)).status).toBe(403);
+		expect((await getReceipt('missingReceipt', receiptToken)).status).toBe(404);
+	});
+
+	it('purges receipts a week after their note expires', async () => {
+		const { id, receiptToken } = await submitNote();
+		const now = Math.floor(Date.now() / 1000);
+
+		await purgeExpired(env, now + 7200);
+		expect((await getReceipt(id, receiptToken)).status).toBe(200);
+
+		const result = await purgeExpired(env, now + 7200 + RECEIPT_RETENTION);
+		expect(result.receipts).toBeGreaterThanOrEqual(1);
+		expect(await env.DB.prepare('SELECT note_id FROM receipts WHERE note_id = ?').bind(id).first()).toBeNull();
+	});
+});
+
+describe('Webhooks', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('stores the webhook URL encrypted', async () => {
+		const { id } = await submitNote({ webhookUrl: 'https://hooks.example/txtoo?secret=abc' });
+
+		const row = await env.DB.prepare('SELECT webhook FROM receipts WHERE note_id = ?').bind(id).first();
+		expect(row?.webhook).toEqual(expect.any(String));
+		expect(row?.webhook).not.toContain('hooks.example');
+	});
+
+	it('calls the webhook when the note is viewed', async () => {
+		const { id, receiptToken } = await submitNote({ webhookUrl: 'https://hooks.example/txtoo', burnAfterReading: true });
+		const webhook = mockWebhook();
+
+		expect((await callWorker(`http://example.com/api/v1/fetch/${id}`)).status).toBe(200);
+
+		expect(webhook.calls).toEqual([{
+			url: 'https://hooks.example/txtoo',
+			payload: { event: 'viewed', id, at: expect.any(Number), recipientId: null, burned: true }
+		}]);
+		expect(await (await getReceipt(id, receiptToken)).json()).toMatchObject({ data: { webhook: true } });
+	});
+
+	it('calls the webhook when the note expires', async () => {
+		const { id } = await submitNote({ webhookUrl: 'https://hooks.example/expired' });
+		const webhook = mockWebhook();
+
+		await purgeExpired(env, Math.floor(Date.now() / 1000) + 7200);
+
+		expect(webhook.calls).toEqual([{
+			url: 'https://hooks.example/expired',
+			payload: { event: 'expired', id, at: expect.any(Number), recipientId: null, burned: false }
+		}]);
+	});
+
+	it('does not fail the view when the webhook does', async () => {
+		const { id } = await submitNote({ webhookUrl: 'https://hooks.example/down' });
+		vi.spyOn(globalThis, 'fetch').mockRejectedValue(new Error('connection refused'));
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+
+		expect((await callWorker(`http://example.com/api/v1/fetch/${id}`)).status).toBe(200);
+	});
+
+	it('rejects webhook URLs that are not https', async () => {
+		const response = await postJson('http://example.com/api/v1/submit', {
+			ttl: 3600,
+			cipherText: 'receiptNote',
+			iv: 'receiptNoteIV000',
+			webhookUrl: 'http://hooks.example/plain'
+		});
+		expect(response.status).toBe(422);
+		expect(await response.json()).toMatchObject({ errors: [{ field: 'webhookUrl' }] });
+	});
+});
@@ -0,0 +1,101 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { purgeExpired } from '../src/purge';
+import { callWorker, postJson, submitNote, type ApiResponse } from './helpers';
+
+function fetchAs(recipientId: string): Promise<Response> {
+	return callWorker(`http://example.com/api/v1/recipients/${recipientId}/fetch`);
+}
+
+function revoke(id: string, recipientId: string, token: string): Promise<Response> {
+	return callWorker(`http://example.com/api/v1/notes/${id}/recipients/${recipientId}`, {
+		method: 'DELETE',
+		headers: { Authorization: `Bearer ${token}` }
+	});
+}
+
+describe('Note recipients', () => {
+	it('gives each recipient their own link and wrapped key', async () => {
+		const { id, recipients } = await submitNote({ recipients: ['wrappedForAlice', 'wrappedForBob'] });
+		expect(recipients).toHaveLength(2);
+
+		const meta = await callWorker(`http://example.com/api/v1/recipients/${recipients[0]}`);
+		expect(meta.status).toBe(200);
+		expect(await meta.json()).toMatchObject({ data: { id: recipients[0], requiresPassword: false } });
+
+		const alice = await fetchAs(recipients[0]);
+		expect(alice.status).toBe(200);
+		const aliceData = ((await alice.json()) as ApiResponse).data;
+		expect(aliceData).toMatchObject({ id: recipients[0], cipher_text: 'testNote', wrappedKey: 'wrappedForAlice' });
+		// Recipients never learn the note's own ID
+		expect(JSON.stringify(aliceData)).not.toContain(id);
+
+		const bob = await fetchAs(recipients[1]);
+		expect(await bob.json()).toMatchObject({ data: { wrappedKey: 'wrappedForBob' } });
+
+		// The note itself can only be fetched through a recipient's link
+		expect((await callWorker(`http://example.com/api/v1/fetch/${id}`)).status).toBe(404);
+	});
+
+	it('counts views per recipient and deletes the note once every link is used up', async () => {
+		const { id, manageToken, recipients } = await submitNote({ recipients: ['wrappedForAlice', 'wrappedForBob'], burnAfterReading: true });
+
+		const first = await fetchAs(recipients[0]);
+		expect(await first.json()).toMatchObject({ data: { burned: true, remainingViews: 0 } });
+		expect((await fetchAs(recipients[0])).status).toBe(404);
+
+		const list = await callWorker(`http://example.com/api/v1/notes/${id}/recipients`, {
+			headers: { Authorization: `Bearer ${manageToken}` }
+		});
+		expect(await list.json()).toMatchObject({
+			data: {
+				recipients: [
+					{ id: recipients[0], position: 0, maxViews: 1, remainingViews: 0 },
+					{ id: recipients[1], position: 1, maxViews: 1, remainingViews: 1 }
+				]
+			}
+		});
+
+		expect((await fetchAs(recipients[1])).status).toBe(200);
+		const note = await env.DB.prepare('SELECT id FROM texts WHERE id = ?').bind(id).first();
+		expect(note).toBeNull();
+	});
+
+	it('revokes one recipient without affecting the others', async () => {
+		const { id, manageToken, recipients } = await submitNote({ recipients: ['wrappedForAlice', 'wrappedForBob'] });
+
+		expect((await revoke(id, recipients[0], 'wrong-token')).status).toBe(403);
+
+		const revoked = await revoke(id, recipients[0], manageToken);
+		expect(revoked.status).toBe(200);
+		expect(await revoked.json()).toMatchObject({ data: { id: recipients[0], deleted: true, noteDeleted: false } });
+		expect((await fetchAs(recipients[0])).status).toBe(404);
+		expect((await fetchAs(recipients[1])).status).toBe(200);
+
+		// Revoking the last recipient leaves nobody who can open the note
+		const last = await revoke(id, recipients[1], manageToken);
+		expect(await last.json()).toMatchObject({ data: { noteDeleted: true } });
+		expect((await callWorker(`http://example.com/api/v1/meta/${id}`)).status).toBe(404);
+	});
+
+	it('rejects recipients on password-protected notes', async () => {
+		const response = await postJson('http://example.com/api/v1/submit', {
+			ttl: 3600,
+			cipherText: 'sharedNote',
+			iv: 'sharedNoteIV0000',
+			requiresPassword: true,
+			recipients: ['wrappedForAlice']
+		});
+		expect(response.status).toBe(422);
+		expect(await response.json()).toMatchObject({ errors: [{ field: 'recipients' }] });
+	});
+
+	it('purges the recipients of expired notes', async () => {
+		const { recipients } = await submitNote({ recipients: ['wrappedForAlice'] });
+		const now = Math.floor(Date.now() / 1000);
+
+		const result = await purgeExpired(env, now + 7200);
+		expect(result).toMatchObject({ texts: 1, recipients: 1 });
+		expect((await fetchAs(recipients[0])).status).toBe(404);
+	});
+});
@@ -0,0 +1,115 @@
+import { env } from 'cloudflare:test';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { purgeExpired } from '../src/purge';
+import { callWorker, postJson, type ApiResponse } from './helpers';
+
+// Open a request and return its ID and token
+async function createRequest(ttl = 3600): Promise<{ id: string; token: string }> {
+	const response = await postJson('http://example.com/api/v1/requests', { ttl });
+	const data = (await response.json()) as ApiResponse;
+	return data.data as { id: string; token: string };
+}
+
+function reply(id: string, cipherText = 'sealedReply123'): Promise<Response> {
+	return postJson(`http://example.com/api/v1/requests/${id}/reply`, { cipherText, iv: 'sealedReplyIV000' });
+}
+
+function readReply(id: string, token?: string): Promise<Response> {
+	return callWorker(`http://example.com/api/v1/requests/${id}/reply`, {
+		headers: token ? { Authorization: `Bearer ${token}` } : {}
+	});
+}
+
+describe('Secret requests', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('delivers a reply to the requester only', async () => {
+		const { id, token } = await createRequest();
+		expect(token).toMatch(/^[A-Za-z0-9_-]{43}$/);
+
+		const before = await callWorker(`http://example.com/api/v1/requests/${id}`);
+		expect(await before.json()).toMatchObject({ data: { id, replied: false } });
+		expect((await readReply(id, token)).status).toBe(404);
+
+		const replyResponse = await reply(id);
+		expect(replyResponse.status).toBe(200);
+		expect(await replyResponse.json()).toMatchObject({ data: { id, repliedAt: expect.any(Number) } });
+
+		const after = await callWorker(`http://example.com/api/v1/requests/${id}`);
+		expect(await after.json()).toMatchObject({ data: { replied: true } });
+
+		expect((await readReply(id)).status).toBe(401);
+		expect((await readReply(id, 'wrong-token')).status).toBe(403);
+
+		const read = await readReply(id, token);
+		expect(read.status).toBe(200);
+		expect(await read.json()).toMatchObject({
+			data: { id, cipherText: 'sealedReply123', iv: 'sealedReplyIV000' }
+		});
+	});
+
+	it('lets the responder try again when storing the reply fails', async () => {
+		const { id, token } = await createRequest();
+		vi.spyOn(env.DB, 'batch').mockRejectedValueOnce(new Error('D1 unavailable'));
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+
+		const failed = await reply(id, 'lostReply');
+		expect(failed.status).toBe(500);
+		expect(await failed.json()).toMatchObject({ message: 'Failed to store reply' });
+		const status = await callWorker(`http://example.com/api/v1/requests/${id}`);
+		expect(await status.json()).toMatchObject({ data: { replied: false } });
+
+		expect((await reply(id, 'retriedReply')).status).toBe(200);
+		expect(await (await readReply(id, token)).json()).toMatchObject({ data: { cipherText: 'retriedReply' } });
+	});
+
+	it('accepts only one reply', async () => {
+		const { id, token } = await createRequest();
+
+		expect((await reply(id, 'firstReply')).status).toBe(200);
+		const second = await reply(id, 'secondReply');
+		expect(second.status).toBe(409);
+		expect(await second.json()).toMatchObject({ code: 'conflict' });
+
+		const read = await readReply(id, token);
+		expect(await read.json()).toMatchObject({ data: { cipherText: 'firstReply' } });
+	});
+
+	it('validates requests and replies', async () => {
+		const tooShort = await postJson('http://example.com/api/v1/requests', { ttl: 10 });
+		expect(tooShort.status).toBe(422);
+
+		const { id } = await createRequest();
+		const invalid = await postJson(`http://example.com/api/v1/requests/${id}/reply`, { cipherText: 'not base64!', iv: 'short' });
+		expect(invalid.status).toBe(422);
+
+		expect((await reply('nonexistent')).status).toBe(404);
+	});
+
+	it('deletes a request along with its reply', async () => {
+		const { id, token } = await createRequest();
+		await reply(id);
+
+		const response = await callWorker(`http://example.com/api/v1/requests/${id}`, {
+			method: 'DELETE',
+			headers: { Authorization: `Bearer ${token}` }
+		});
+		expect(await response.json()).toMatchObject({ data: { id, deleted: true } });
+
+		expect((await callWorker(`http://example.com/api/v1/requests/${id}`)).status).toBe(404);
+		const texts = await env.DB.prepare('SELECT COUNT(*) AS count FROM texts').first();
+		expect(texts?.count).toBe(0);
+	});
+
+	it('purges expired requests and their replies', async () => {
+		const { id } = await createRequest();
+		await reply(id);
+
+		const now = Math.floor(Date.now() / 1000);
+		const result = await purgeExpired(env, now + 7200);
+		expect(result).toMatchObject({ texts: 1, requests: 1 });
+		expect((await callWorker(`http://example.com/api/v1/requests/${id}`)).status).toBe(404);
+	});
+});
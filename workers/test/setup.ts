@@ -0,0 +1,4 @@
+import { applyD1Migrations, env } from 'cloudflare:test';
+
+// Bring the D1 database up to date before each test file runs
+await applyD1Migrations(env.DB, env.TEST_MIGRATIONS);
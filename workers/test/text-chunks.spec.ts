@@ -0,0 +1,132 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import {
+	decodeBinaryBody,
+	encodeBinaryBody,
+	type ApiSuccess,
+	type BinaryFetchResponse,
+	type SubmitResponse
+} from '../../shared/api';
+import { toBase64Url } from '../src/encoding';
+import { purgeExpired } from '../src/purge';
+import { expireTextChunksSoon, TEXT_CHUNK_SIZE } from '../src/text-chunks';
+import { callWorker, type ApiResponse } from './helpers';
+
+const IV = 'chunkedNoteIV000';
+// Two full chunks and part of a third
+const CIPHERTEXT = Uint8Array.from({ length: TEXT_CHUNK_SIZE * 2 + 1000 }, (_, index) => (index * 7) % 251);
+// Compared as base64url, as toEqual on arrays this long is slow
+const CIPHERTEXT_BASE64URL = toBase64Url(CIPHERTEXT);
+
+async function fetchedCiphertext(response: Response): Promise<string | null> {
+	const body = decodeBinaryBody(new Uint8Array(await response.arrayBuffer()));
+	return body && toBase64Url(body.data);
+}
+
+async function submitLarge(fields: Record<string, unknown> = {}): Promise<SubmitResponse> {
+	const response = await callWorker('http://example.com/api/v1/submit', {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/octet-stream' },
+		body: encodeBinaryBody({ ttl: 3600, iv: IV, ...fields }, CIPHERTEXT)
+	});
+	expect(response.status).toBe(200);
+	return ((await response.json()) as ApiSuccess<SubmitResponse>).data;
+}
+
+function fetchBinary(id: string): Promise<Response> {
+	return callWorker(`http://example.com/api/v1/fetch/${id}`, { headers: { Accept: 'application/octet-stream' } });
+}
+
+async function chunkPositions(id: string): Promise<number[]> {
+	const { results } = await env.DB.prepare('SELECT position FROM text_chunks WHERE text_id = ? ORDER BY position')
+		.bind(id)
+		.all();
+	return results.map(row => row.position as number);
+}
+
+describe('Chunked ciphertext', () => {
+	it('splits large ciphertexts into ordered chunks and streams them back', async () => {
+		const { id } = await submitLarge({ maxViews: 2 });
+
+		const row = await env.DB.prepare('SELECT length(cipher_text) AS length, chunk_count FROM texts WHERE id = ?').bind(id).first();
+		expect(row).toEqual({ length: 0, chunk_count: 3 });
+		expect(await chunkPositions(id)).toEqual([0, 1, 2]);
+
+		const fetched = await fetchBinary(id);
+		expect(fetched.status).toBe(200);
+		const body = decodeBinaryBody<BinaryFetchResponse>(new Uint8Array(await fetched.arrayBuffer()));
+		expect(body?.fields).toMatchObject({ id, iv: IV, remainingViews: 1, burned: false });
+		expect(body && toBase64Url(body.data) === CIPHERTEXT_BASE64URL).toBe(true);
+
+		// The last view burns the note, and its chunks once they have been read
+		const json = ((await (await callWorker(`http://example.com/api/v1/fetch/${id}`)).json()) as ApiResponse).data;
+		expect(json.burned).toBe(true);
+		expect(json.cipher_text === CIPHERTEXT_BASE64URL).toBe(true);
+		expect(await chunkPositions(id)).toEqual([]);
+	});
+
+	it('deletes the chunks of a burned note once they are streamed', async () => {
+		const { id } = await submitLarge({ maxViews: 1 });
+
+		expect(await fetchedCiphertext(await fetchBinary(id)) === CIPHERTEXT_BASE64URL).toBe(true);
+		expect(await chunkPositions(id)).toEqual([]);
+	});
+
+	it('keeps a burned note\'s chunks from the purge while they are streamed', async () => {
+		const { id } = await submitLarge({ maxViews: 1 });
+		const now = Math.floor(Date.now() / 1000);
+
+		const fetched = await fetchBinary(id);
+		expect((await purgeExpired(env, now)).textChunks).toBe(0);
+		expect(await fetchedCiphertext(fetched) === CIPHERTEXT_BASE64URL).toBe(true);
+		expect(await chunkPositions(id)).toEqual([]);
+	});
+
+	it('purges a burned note\'s chunks after the grace period if they were never all read', async () => {
+		const { id } = await submitLarge();
+		const now = Math.floor(Date.now() / 1000);
+		// As fetchNote leaves them when the note's last view is burned
+		await env.DB.batch([env.DB.prepare('DELETE FROM texts WHERE id = ?').bind(id), expireTextChunksSoon(env, id, now)]);
+
+		expect((await purgeExpired(env, now + 60)).textChunks).toBe(0);
+		expect((await purgeExpired(env, now + 3600)).textChunks).toBe(3);
+		expect(await chunkPositions(id)).toEqual([]);
+	});
+
+	it('refuses to serve a note with a missing chunk', async () => {
+		const { id } = await submitLarge();
+		await env.DB.prepare('DELETE FROM text_chunks WHERE text_id = ? AND position = 1').bind(id).run();
+
+		const fetched = await fetchBinary(id);
+		expect(fetched.status).toBe(500);
+		expect(await fetched.json()).toMatchObject({ code: 'internal_error', message: 'Stored note is incomplete' });
+		// without using up a view
+		expect(await env.DB.prepare('SELECT view_count FROM texts WHERE id = ?').bind(id).first()).toEqual({ view_count: 0 });
+	});
+
+	it('refuses a recipient a note with a missing chunk without using up their view', async () => {
+		const { id, recipients } = await submitLarge({ recipients: ['wrappedForAlice'] });
+		await env.DB.prepare('DELETE FROM text_chunks WHERE text_id = ? AND position = 1').bind(id).run();
+
+		const fetched = await callWorker(`http://example.com/api/v1/recipients/${recipients[0]}/fetch`);
+		expect(fetched.status).toBe(500);
+		expect(await fetched.json()).toMatchObject({ message: 'Stored note is incomplete' });
+		const recipient = await env.DB.prepare('SELECT view_count FROM recipients WHERE id = ?').bind(recipients[0]).first();
+		expect(recipient).toEqual({ view_count: 0 });
+	});
+
+	it('deletes chunks with their note', async () => {
+		const revoked = await submitLarge();
+		const response = await callWorker(`http://example.com/api/v1/notes/${revoked.id}`, {
+			method: 'DELETE',
+			headers: { Authorization: `Bearer ${revoked.manageToken}` }
+		});
+		expect(response.status).toBe(200);
+		expect(await chunkPositions(revoked.id)).toEqual([]);
+
+		const expired = await submitLarge();
+		const result = await purgeExpired(env, Math.floor(Date.now() / 1000) + 7200);
+		expect(result.textChunks).toBeGreaterThanOrEqual(3);
+		expect(await chunkPositions(expired.id)).toEqual([]);
+	});
+});
@@ -1,11 +1,32 @@
-import { defineWorkersConfig } from '@cloudflare/vitest-pool-workers/config';
+import { mkdirSync } from 'node:fs';
+import { defineWorkersConfig, readD1Migrations } from '@cloudflare/vitest-pool-workers/config';
 
-export default defineWorkersConfig({
-	test: {
-		poolOptions: {
-			workers: {
-				wrangler: { configPath: './wrangler.jsonc' },
+// Wrangler refuses a config whose assets directory is missing, and the
+// frontend need not be built to test the API. Tests that cover the assets
+// pass their own ASSETS binding.
+mkdirSync(new URL('../dist', import.meta.url), { recursive: true });
+
+export default defineWorkersConfig(async () => {
+	// Applied to each test file's database by test/setup.ts, as
+	// `wrangler d1 migrations apply` does for deployments
+	const migrations = await readD1Migrations(new URL('./migrations', import.meta.url).pathname);
+
+	return {
+		test: {
+			// An absolute path, as a relative one can resolve to the frontend's test/setup.ts
+			setupFiles: [new URL('./test/setup.ts', import.meta.url).pathname],
+			poolOptions: {
+				workers: {
+					wrangler: { configPath: './wrangler.jsonc' },
+					miniflare: {
+						bindings: {
+							// Set with `wrangler secret put` in production
+							WEBHOOK_SECRET: 'test-webhook-secret',
+							TEST_MIGRATIONS: migrations
+						}
+					},
+				},
 			},
 		},
-	},
+	};
 });
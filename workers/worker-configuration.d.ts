@@ -1,12 +1,23 @@
 /* eslint-disable */
-// Generated by Wrangler by running `wrangler types` (hash: 973863b87c5f17b377119a1dc8be79cf)
+// Generated by Wrangler by running `wrangler types` (hash: 706426fc82414e100866b93d563b1680)
 // Runtime types generated with workerd@1.20260128.0 2025-09-27 
 declare namespace Cloudflare {
 	interface GlobalProps {
 		mainModule: typeof import("./src/index");
 	}
 	interface Env {
+		BLOBS: R2Bucket;
 		DB: D1Database;
+		ASSETS: Fetcher;
+		ALLOWED_ORIGINS: "*";
+		MAX_TTL: "2592000";
+		MAX_CIPHERTEXT_SIZE: "1048576";
+		ID_LENGTH: "12";
+		SITE_NAME: "TXToo";
+		RATE_LIMIT_WINDOW: "60";
+		RATE_LIMIT_SUBMIT: "10";
+		RATE_LIMIT_UPLOAD: "60";
+		RATE_LIMIT_FETCH: "60";
 	}
 }
 interface Env extends Cloudflare.Env {}